@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import { assemble } from "../asm6502.js";
+import { Flag, Vector } from "../cpu6502";
+import { Emulator } from "../emulator";
+
+// An emulator with the program loaded and reset, but nothing run yet
+const machine = (source: string) => {
+  const result = assemble(source);
+  expect(result.diagnostics.filter((d) => d.severity === "error")).toEqual([]);
+  const emulator = new Emulator();
+  for (const block of result.blocks) {
+    emulator.load(
+      block.bytes.map((byte) => byte ?? 0),
+      block.address,
+    );
+  }
+  emulator.reset();
+  return emulator;
+};
+
+const stepTimes = (emulator: Emulator, count: number) => {
+  for (let i = 0; i < count; i++) {
+    emulator.step();
+  }
+};
+
+const flag = (emulator: Emulator, mask: number) => (emulator.cpu.p & mask) !== 0;
+
+describe("decimal mode", () => {
+  it("adds packed BCD with a carry out", () => {
+    const emulator = machine(".org $0200\nsed\nclc\nlda #$58\nadc #$46\n");
+    stepTimes(emulator, 4);
+    expect(emulator.cpu.a).toBe(0x04);
+    expect(flag(emulator, Flag.C)).toBe(true);
+  });
+
+  it("adds the carry in", () => {
+    const emulator = machine(".org $0200\nsed\nsec\nlda #$12\nadc #$34\n");
+    stepTimes(emulator, 4);
+    expect(emulator.cpu.a).toBe(0x47);
+    expect(flag(emulator, Flag.C)).toBe(false);
+  });
+
+  it("subtracts packed BCD with a borrow", () => {
+    const emulator = machine(".org $0200\nsed\nsec\nlda #$12\nsbc #$21\n");
+    stepTimes(emulator, 4);
+    expect(emulator.cpu.a).toBe(0x91);
+    expect(flag(emulator, Flag.C)).toBe(false);
+  });
+
+  it("subtracts without a borrow", () => {
+    const emulator = machine(".org $0200\nsed\nsec\nlda #$46\nsbc #$12\n");
+    stepTimes(emulator, 4);
+    expect(emulator.cpu.a).toBe(0x34);
+    expect(flag(emulator, Flag.C)).toBe(true);
+  });
+
+  it("stays binary once D is cleared", () => {
+    const emulator = machine(".org $0200\nsed\ncld\nclc\nlda #$58\nadc #$46\n");
+    stepTimes(emulator, 5);
+    expect(emulator.cpu.a).toBe(0x9e);
+  });
+});
+
+describe("page crossing", () => {
+  it("costs a cycle for an indexed read into the next page", () => {
+    const emulator = machine(".org $0200\nldx #$01\nlda $20ff,x\nlda $2000,x\n");
+    emulator.step();
+    expect(emulator.step()).toBe(5);
+    expect(emulator.step()).toBe(4);
+  });
+
+  it("costs a cycle for (zp),y into the next page", () => {
+    const emulator = machine(".org $0200\nldy #$01\nlda ($10),y\n");
+    emulator.memory[0x10] = 0xff;
+    emulator.memory[0x11] = 0x20;
+    emulator.step();
+    expect(emulator.step()).toBe(6);
+  });
+
+  it("never costs a cycle for an indexed store", () => {
+    const emulator = machine(".org $0200\nldx #$01\nsta $20ff,x\n");
+    emulator.step();
+    expect(emulator.step()).toBe(5);
+  });
+
+  it("costs a cycle for a taken branch into another page", () => {
+    const emulator = machine(".org $02f0\nclc\nbcc next\n.dsb 16\nnext:\nbcc next2\nnext2:\n");
+    emulator.step();
+    expect(emulator.step()).toBe(4);
+    expect(emulator.cpu.pc).toBe(0x0303);
+    expect(emulator.step()).toBe(3);
+  });
+});
+
+describe("interrupts", () => {
+  // Returns the stacked status, then the return address
+  const stackFrame = (emulator: Emulator) => {
+    const sp = emulator.cpu.sp;
+    const status = emulator.memory[0x100 + sp + 1];
+    const pc = emulator.memory[0x100 + sp + 2] | (emulator.memory[0x100 + sp + 3] << 8);
+    return { status, pc };
+  };
+
+  const VECTORS = ".org $fffa\n.word $9000, $0200, $a000\n";
+
+  it("pushes the address after the padding byte and B for BRK", () => {
+    const emulator = machine(`.org $0200\nldx #$ff\ntxs\nbrk\n.byte $ea\n${VECTORS}`);
+    stepTimes(emulator, 2);
+    expect(emulator.step()).toBe(7);
+    expect(emulator.cpu.pc).toBe(0xa000);
+    expect(emulator.cpu.sp).toBe(0xfc);
+    expect(stackFrame(emulator).pc).toBe(0x0205);
+    expect(stackFrame(emulator).status & (Flag.B | Flag.U)).toBe(Flag.B | Flag.U);
+    expect(flag(emulator, Flag.I)).toBe(true);
+  });
+
+  it("pushes the next instruction without B for an IRQ", () => {
+    const emulator = machine(`.org $0200\nldx #$ff\ntxs\ncli\nnop\n${VECTORS}`);
+    stepTimes(emulator, 3);
+    emulator.cpu.setIrq(true);
+    expect(emulator.step()).toBe(7);
+    expect(emulator.cpu.pc).toBe(0xa000);
+    expect(stackFrame(emulator).pc).toBe(0x0204);
+    expect(stackFrame(emulator).status & Flag.B).toBe(0);
+    expect(flag(emulator, Flag.I)).toBe(true);
+  });
+
+  it("ignores an IRQ while I is set", () => {
+    const emulator = machine(`.org $0200\nsei\nnop\n${VECTORS}`);
+    emulator.step();
+    emulator.cpu.setIrq(true);
+    emulator.step();
+    expect(emulator.cpu.pc).toBe(0x0202);
+  });
+
+  it("services an NMI even while I is set", () => {
+    const emulator = machine(`.org $0200\nldx #$ff\ntxs\nsei\nnop\n.org $9000\nnop\n${VECTORS}`);
+    stepTimes(emulator, 3);
+    emulator.cpu.nmi();
+    expect(emulator.step()).toBe(7);
+    expect(emulator.cpu.pc).toBe(0x9000);
+    expect(stackFrame(emulator).pc).toBe(0x0204);
+    expect(stackFrame(emulator).status & Flag.B).toBe(0);
+    // Edge-triggered: the next step runs the handler
+    emulator.step();
+    expect(emulator.cpu.pc).toBe(0x9001);
+  });
+
+  it("returns to the interrupted instruction with RTI", () => {
+    const emulator = machine(`.org $0200\nldx #$ff\ntxs\ncli\nnop\n.org $a000\nrti\n${VECTORS}`);
+    stepTimes(emulator, 3);
+    emulator.cpu.setIrq(true);
+    emulator.step();
+    emulator.cpu.setIrq(false);
+    emulator.step();
+    expect(emulator.cpu.pc).toBe(0x0204);
+    expect(flag(emulator, Flag.I)).toBe(false);
+  });
+});
+
+describe("reset", () => {
+  it("starts at the reset vector", () => {
+    const emulator = machine(`.org $0200\nnop\n.org $0300\nnop\n.org $fffc\n.word $0300\n`);
+    expect(emulator.cpu.pc).toBe(0x0300);
+    expect(emulator.cpu.sp).toBe(0xfd);
+    expect(flag(emulator, Flag.I)).toBe(true);
+  });
+
+  it("starts at the lowest loaded address without a reset vector", () => {
+    const emulator = machine(".org $0400\nnop\n.org $0300\nnop\n");
+    expect(emulator.memory[Vector.RESET] | emulator.memory[Vector.RESET + 1]).toBe(0);
+    expect(emulator.cpu.pc).toBe(0x0300);
+  });
+
+  it("clears the registers", () => {
+    const emulator = machine(".org $0200\nlda #$12\nldx #$34\nldy #$56\n");
+    stepTimes(emulator, 3);
+    emulator.reset();
+    expect([emulator.cpu.a, emulator.cpu.x, emulator.cpu.y]).toEqual([0, 0, 0]);
+    expect(emulator.cpu.pc).toBe(0x0200);
+  });
+});
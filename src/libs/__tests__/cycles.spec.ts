@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { assemble } from "../asm6502.js";
+import { lineHints } from "../cycles";
+
+const hintsFor = (code: string) => {
+  const result = assemble(code, { fileName: "main.s" });
+  return { result, hints: lineHints({ "main.s": code }, result.sourceMap, "6502") };
+};
+
+describe("lineHints", () => {
+  it("ignores a bare .cpu while it is being typed", () => {
+    const { result, hints } = hintsFor(".org $8000\n.cpu\nlda #1\n");
+    expect(result.diagnostics.map((d) => d.message)).toContainEqual(
+      expect.stringContaining("Unknown CPU: (none)"),
+    );
+    expect(hints.find((hint) => hint.line === 3)?.cycles).toBe(2);
+  });
+
+  it("keeps the CPU in effect after an unknown .cpu", () => {
+    const { hints } = hintsFor('.org $8000\n.cpu "65c02"\n.cpu "z80"\nbra next\nnext:\n');
+    expect(hints.find((hint) => hint.line === 4)?.cycles).toBe(3);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { LineSplitter, formatState, parseReplies } from "../debug-protocol";
+
+const STATE = { pc: 0x8008, opcode: 0xe8, a: 0x48, x: 0, y: 0, sp: 0xfd, p: 0x24, cycles: 19 };
+
+const repliesOf = (stream: string) =>
+  new LineSplitter().push(new TextEncoder().encode(stream)).flatMap(parseReplies);
+
+describe("parseReplies", () => {
+  it("parses a state line", () => {
+    expect(repliesOf(formatState(STATE) + "\r\n")).toEqual([{ type: "state", state: STATE }]);
+  });
+
+  it("passes on program output in front of a state line as text", () => {
+    expect(repliesOf("H" + formatState(STATE) + "\r\n")).toEqual([
+      { type: "text", text: "H" },
+      { type: "state", state: STATE },
+    ]);
+  });
+
+  it("passes on program output in front of a memory line as text", () => {
+    expect(repliesOf("Hi 8000: A2 00 BD\r\nOK\r\n")).toEqual([
+      { type: "text", text: "Hi " },
+      { type: "memory", line: { address: 0x8000, bytes: [0xa2, 0x00, 0xbd] } },
+      { type: "ok" },
+    ]);
+  });
+
+  it("keeps other lines as text", () => {
+    expect(repliesOf("Hello PC=80\r\nERR bad address\r\nBREAK\r\n")).toEqual([
+      { type: "text", text: "Hello PC=80" },
+      { type: "error", message: "bad address" },
+      { type: "break" },
+    ]);
+  });
+});
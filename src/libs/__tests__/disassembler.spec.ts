@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { assemble } from "../asm6502.js";
+import {
+  buildDecodeTable,
+  disassemble,
+  disassemblyToSource,
+  instructionLength,
+} from "../disassembler";
+import { CPU_TYPES, opcodeTable, type CpuType } from "../opcodes.js";
+
+const ORIGIN = 0x8000;
+
+// Every opcode of the CPU once, each with an operand, and where each starts
+const everyOpcode = (cpu: CpuType) => {
+  const bytes: number[] = [];
+  const entryPoints: number[] = [];
+  buildDecodeTable(opcodeTable(cpu)).forEach((decoded, opcode) => {
+    if (decoded) {
+      entryPoints.push(ORIGIN + bytes.length);
+      bytes.push(opcode, ...[0x34, 0x12].slice(0, instructionLength(decoded.mode) - 1));
+    }
+  });
+  return { bytes, entryPoints };
+};
+
+const PROGRAM = `.org $8000
+  ldx #0
+loop:
+  lda text,x
+  beq done
+  sta $fff1
+  inx
+  bne loop
+done:
+  jmp done
+text: .byte "Hello", 0
+`;
+
+const reassemble = (source: string) => {
+  const result = assemble(source);
+  expect(result.diagnostics).toEqual([]);
+  return result.blocks.flatMap((block) => block.bytes);
+};
+
+describe.each(Object.keys(CPU_TYPES) as CpuType[])("round trip on the %s", (cpu) => {
+  it("re-assembles every opcode to the same bytes", () => {
+    const { bytes, entryPoints } = everyOpcode(cpu);
+    const disassembly = disassemble(bytes, { origin: ORIGIN, entryPoints, cpu });
+    expect(disassembly.lines.filter((line) => line.kind === "data")).toEqual([]);
+    expect(reassemble(disassemblyToSource(disassembly))).toEqual(bytes);
+  });
+
+  it("re-assembles code followed from an entry point", () => {
+    const program = assemble(PROGRAM, { cpu });
+    const bytes = program.blocks.flatMap((block) => block.bytes.map((byte) => byte ?? 0));
+    const disassembly = disassemble(bytes, { origin: ORIGIN, entryPoints: [ORIGIN], cpu });
+    expect(reassemble(disassemblyToSource(disassembly))).toEqual(bytes);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { assemble, type AssembleOptions } from "../asm6502.js";
+
+const bytesOf = (code: string, options: AssembleOptions = {}) => {
+  const result = assemble(code, options);
+  expect(result.diagnostics).toEqual([]);
+  return result.blocks.flatMap((block) => block.bytes);
+};
+
+const errorsOf = (code: string, options: AssembleOptions = {}) =>
+  assemble(code, options).diagnostics.map((d) => `${d.file}:${d.startLine}: ${d.message}`);
+
+describe("expressions", () => {
+  it("applies operator precedence", () => {
+    expect(bytesOf(".org $0200\n.byte 2+3*4, (2+3)*4, 1<<2+1, $f0|$0f&$3c\n")).toEqual([
+      14, 20, 8, 0xfc,
+    ]);
+  });
+
+  it("evaluates operators of equal precedence left to right", () => {
+    expect(bytesOf(".org $0200\n.byte 7-2-1, 12/2/3\n")).toEqual([4, 2]);
+  });
+
+  it("reports each unknown symbol on its line", () => {
+    expect(errorsOf(".org $0200\nlda #missing+1\njmp nowhere\n")).toEqual([
+      "main.s:2: Undefined symbol: missing",
+      "main.s:3: Undefined symbol: nowhere",
+    ]);
+  });
+});
+
+describe("macros", () => {
+  const LOAD = ".macro load value, where\nlda #value\nsta where\n.endm\n";
+
+  it("substitutes the arguments into the body", () => {
+    expect(bytesOf(`${LOAD}.org $0200\nload 5, $10\nload 6, $1234\n`)).toEqual([
+      0xa9, 5, 0x85, 0x10, 0xa9, 6, 0x8d, 0x34, 0x12,
+    ]);
+  });
+
+  it("reports a call with the wrong number of arguments", () => {
+    expect(errorsOf(`${LOAD}.org $0200\nload 5\n`)).toContain(
+      "main.s:6: Macro load expects 2 argument(s), got 1",
+    );
+  });
+});
+
+describe("conditional assembly", () => {
+  it("nests .if blocks", () => {
+    const code = ".org $0200\n.if 1\n.if 0\n.byte 1\n.else\n.byte 2\n.endif\n.else\n.byte 3\n.endif\n";
+    expect(bytesOf(code)).toEqual([2]);
+  });
+
+  it("skips a nested block inside a false one", () => {
+    const code = ".org $0200\n.if 0\n.if 1\n.byte 1\n.endif\n.elseif 1\n.byte 2\n.endif\n";
+    expect(bytesOf(code)).toEqual([2]);
+  });
+});
+
+describe("includes", () => {
+  it("assembles an included file in place", () => {
+    const files = { "data.s": ".byte 2\n" };
+    expect(bytesOf('.org $0200\n.byte 1\n.include "data.s"\n.byte 3\n', { files })).toEqual([
+      1, 2, 3,
+    ]);
+  });
+
+  it("reports an include cycle once", () => {
+    const files = { "a.s": '.include "b.s"\n.byte 1\n', "b.s": '.include "a.s"\n.byte 2\n' };
+    expect(errorsOf('.org $0200\n.include "a.s"\n', { files })).toEqual([
+      "b.s:1: Recursive include: a.s",
+    ]);
+  });
+});
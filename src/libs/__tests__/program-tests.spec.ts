@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { assemble } from "../asm6502.js";
+import { EXAMPLES } from "../examples";
+import { DEFAULT_MEMORY_MAP } from "../memory-map";
+import { TestFileError, formatTestReport, parseTests, runTest, testProject } from "../program-tests";
+
+const PROGRAM = `.org $8000
+double:
+  asl a
+  rts
+spin:
+  jmp spin
+greet:
+  ldx #0
+@next:
+  lda message,x
+  beq @done
+  sta $fff1
+  inx
+  bne @next
+@done:
+  rts
+message: .byte "hi", 0
+`;
+
+const program = assemble(PROGRAM, { memoryMap: DEFAULT_MEMORY_MAP });
+
+const run = (source: string) => parseTests(source, "main.test").map((test) => runTest(test, program));
+
+const parseError = (source: string) => {
+  try {
+    parseTests(source, "main.test");
+  } catch (error) {
+    return error;
+  }
+  return null;
+};
+
+describe("parseTests", () => {
+  it("reads the commands of each test", () => {
+    const [test] = parseTests(
+      "# comment\ntest doubles\n  set a=2\n  call double\n  limit 10\n  expect a=4\n",
+      "main.test",
+    );
+    expect(test).toMatchObject({ name: "doubles", line: 2, cycleLimit: 10 });
+    expect(test.call.target).toEqual({ name: "double", offset: 0 });
+  });
+
+  it("rejects a test without a call", () => {
+    const error = parseError("test nothing\n  expect a=1\n");
+    expect(error).toBeInstanceOf(TestFileError);
+    expect(error).toMatchObject({ message: "main.test:1: The test has no call", line: 1 });
+  });
+
+  it("rejects an unknown register", () => {
+    expect(parseError("test q\n  call double\n  expect q=1\n")).toMatchObject({
+      message: "main.test:3: Unknown register or flag: q",
+    });
+  });
+
+  it("rejects an unknown escape", () => {
+    expect(parseError('test input\n  input "\\q"\n  call double\n')).toMatchObject({
+      message: "main.test:2: Unknown escape \\q",
+    });
+  });
+});
+
+describe("runTest", () => {
+  it("passes when the expectations hold", () => {
+    const [result] = run("test doubles\n  set a=$21\n  call double\n  expect a=$42 c=0\n");
+    expect(result.passed).toBe(true);
+    expect(result.failures).toEqual([]);
+    expect(result.cycles).toBeGreaterThan(0);
+  });
+
+  it("fails with the line and the values", () => {
+    const [result] = run("test doubles\n  set a=$81\n  call double\n  expect a=$03 c=0\n");
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([
+      "Line 4: A is $02, expected $03",
+      "Line 4: Flag C is 1, expected 0",
+    ]);
+  });
+
+  it("stops at the cycle limit", () => {
+    const [result] = run("test spins\n  call spin\n  limit 100\n");
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual(["Did not return within 100 cycles"]);
+  });
+
+  it("checks the serial output", () => {
+    const [passed, failed] = run(
+      'test greets\n  call greet\n  expect output "hi"\n\ntest greets loudly\n  call greet\n  expect output "HI"\n',
+    );
+    expect(passed.passed).toBe(true);
+    expect(failed.failures).toEqual(['Line 7: Output is "hi", expected "HI"']);
+  });
+
+  it("reports the run as TAP", () => {
+    const results = run("test doubles\n  set a=1\n  call double\n  expect a=2\n");
+    const report = formatTestReport({ results });
+    expect(report).toBe("TAP version 13\n1..1\nok 1 - main.test: doubles\n");
+  });
+});
+
+describe("testProject", () => {
+  it("passes the tests of the add-sub example", () => {
+    const example = EXAMPLES.find((candidate) => candidate.id === "add-sub")!;
+    const run = testProject(example.project);
+    expect(run.error).toBeUndefined();
+    expect(run.results.length).toBeGreaterThan(0);
+    expect(run.results.filter((result) => !result.passed)).toEqual([]);
+  });
+
+  it("reports a project that does not assemble", () => {
+    const run = testProject({
+      entryFile: "main.s",
+      files: [
+        { name: "main.s", content: "  lda nowhere\n" },
+        { name: "main.test", content: "test x\n  call nowhere\n" },
+      ],
+    });
+    expect(run.error).toMatch(/^Assembly failed with 1 error\(s\), the first at main\.s:1: /);
+  });
+});
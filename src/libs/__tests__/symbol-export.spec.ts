@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { assemble } from "../asm6502.js";
+import { DEFAULT_MEMORY_MAP } from "../memory-map";
+import { SYMBOL_EXPORTERS } from "../symbol-export";
+
+const SOURCE = `out = $fff1
+.segment "ZEROPAGE"
+ptr: .dsb 2
+.segment "CODE"
+reset:
+  ldx #0
+@loop: lda message,x
+  beq @done
+  sta out
+  inx
+  bne @loop
+@done: rts
+.segment "RODATA"
+message: .byte "hi", 0
+`;
+
+// Records of a .dbg file as maps of their attributes, by record type
+function parseDebugInfo(text: string) {
+  const records = new Map<string, Map<string, string>[]>();
+  for (const line of text.trim().split("\n")) {
+    const [type, attributes] = line.split("\t");
+    const fields = new Map(
+      attributes.split(",").map((field) => field.split("=") as [string, string]),
+    );
+    records.set(type, [...(records.get(type) ?? []), fields]);
+  }
+  return records;
+}
+
+describe("ca65 debug info", () => {
+  const result = assemble(SOURCE, { fileName: "main.s", memoryMap: DEFAULT_MEMORY_MAP });
+  const records = parseDebugInfo(
+    SYMBOL_EXPORTERS.dbg.export(result, { programName: "main", sources: { "main.s": SOURCE } }),
+  );
+  const symbols = records.get("sym") ?? [];
+  const symbol = (name: string) => symbols.find((fields) => fields.get("name") === `"${name}"`)!;
+  const lineOf = (fields: Map<string, string>) =>
+    records.get("line")?.find((line) => line.get("id") === fields.get("def"))?.get("line");
+
+  it("gives every symbol the attributes cc65 requires", () => {
+    expect(symbols.length).toBe(6);
+    for (const fields of symbols) {
+      for (const name of ["id", "name", "addrsize", "def", "type"]) {
+        expect(fields.has(name), `${fields.get("name")} has ${name}`).toBe(true);
+      }
+      expect(fields.has("scope") !== fields.has("parent")).toBe(true);
+    }
+  });
+
+  it("gives cheap locals their label as parent", () => {
+    const loop = symbol("@loop");
+    expect(loop.has("scope")).toBe(false);
+    expect(loop.get("parent")).toBe(symbol("reset").get("id"));
+    expect(symbol("reset").get("scope")).toBe("0");
+  });
+
+  it("points def at the defining line", () => {
+    expect(lineOf(symbol("out"))).toBe("1");
+    expect(lineOf(symbol("reset"))).toBe("5");
+    expect(lineOf(symbol("@done"))).toBe("12");
+    expect(lineOf(symbol("message"))).toBe("14");
+  });
+
+  it("counts the records in info", () => {
+    const info = records.get("info")![0];
+    for (const type of ["file", "line", "seg", "span", "sym"]) {
+      expect(info.get(type), type).toBe(String(records.get(type)?.length ?? 0));
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import type { CpuType } from "./opcodes.js";
+import type { MemoryMap } from "./memory-map";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+// Lines and columns are 1-based, matching Monaco and the Peggy parser
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  // Source file the position refers to
+  file: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  // Which stage produced the diagnostic
+  source: "parser" | "assembler";
+}
+
+// The address and bytes produced by one source line. Lines that emit no
+// bytes (labels, .org) record the address they refer to.
+export interface SourceMapEntry {
+  file: string;
+  line: number;
+  address: number;
+  bytes: (number | null)[];
+}
+
+// Consecutive bytes and the address they are loaded at. Unlike
+// `bytecode`, gaps left by .dsb are kept.
+export interface MemoryBlock {
+  address: number;
+  bytes: (number | null)[];
+}
+
+// Where a segment of `.segment` was placed by the memory map
+export interface SegmentInfo {
+  name: string;
+  region: string;
+  start: number;
+  // Bytes assembled or reserved in it
+  size: number;
+}
+
+export interface AssemblyResult {
+  // Unresolved bytes are null; they only remain when there are errors
+  bytecode: (number | null)[];
+  // Global labels, then each local label as `@name` or `@scope_name`
+  labels: Record<string, number>;
+  // Local labels by the global label they follow ("null" before the first)
+  localLabels: Record<string, Record<string, number>>;
+  // Values of `name = value` symbols
+  symbols: Record<string, number>;
+  // Ordered by assembly; bytes from macros belong to the calling line
+  sourceMap: SourceMapEntry[];
+  // In the order they were assembled
+  blocks: MemoryBlock[];
+  // Segments that were used, in the order of the memory map
+  segments: SegmentInfo[];
+  diagnostics: Diagnostic[];
+}
+
+export interface AssembleOptions {
+  // Name of `code` in diagnostics and the source map
+  fileName?: string;
+  // Files that .include and .incbin can read, by name
+  files?: Record<string, string | Uint8Array>;
+  // Instruction set at the start of the source; `.cpu` switches it
+  cpu?: CpuType;
+  // Places the segments selected with `.segment`; without it they are errors
+  memoryMap?: MemoryMap;
+}
+
+export const DEFAULT_FILE_NAME: string;
+
+export function assemble(code: string, options?: AssembleOptions): AssemblyResult;
@@ -1,3 +1,5 @@
 import {generate} from './generator.js'
 
+export {DEFAULT_FILE_NAME} from './generator.js'
+
 export const assemble = generate
@@ -0,0 +1,25 @@
+import { assemble, DEFAULT_FILE_NAME } from "./asm6502.js";
+import { lineHints } from "./cycles";
+import type { LiveAssemblyReply, LiveAssemblyRequest } from "./live-assembler";
+
+// The assembler keeps its state in module variables, so each worker has a
+// copy of its own and the editor's assembly never mixes with the main one.
+
+self.onmessage = (event: MessageEvent<LiveAssemblyRequest>) => {
+  const { id, code, options } = event.data;
+  let reply: LiveAssemblyReply;
+  try {
+    const result = assemble(code, options);
+    const sources: Record<string, string> = {};
+    for (const [name, content] of Object.entries(options.files ?? {})) {
+      if (typeof content === "string") {
+        sources[name] = content;
+      }
+    }
+    sources[options.fileName ?? DEFAULT_FILE_NAME] = code;
+    reply = { id, assembly: { result, hints: lineHints(sources, result.sourceMap, options.cpu) } };
+  } catch (error) {
+    reply = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(reply);
+};
@@ -0,0 +1,35 @@
+import type { SourceMapEntry } from "./asm6502.js";
+import type { ProjectFile } from "./project-bundle";
+
+// Maps between editor lines and addresses through the assembler's source
+// map. Lines are 1-based, as in the editor.
+
+// Addresses to stop at. A breakpoint on a line without code, e.g. a label
+// or comment, stops at the next line in the same file that has code.
+export function breakpointAddresses(files: ProjectFile[], sourceMap: SourceMapEntry[]): number[] {
+  const addresses = new Set<number>();
+  for (const file of files) {
+    if (!file.breakpoints?.length) continue;
+    const entries = sourceMap
+      .filter((entry) => entry.file === file.name && entry.bytes.length > 0)
+      .sort((a, b) => a.line - b.line || a.address - b.address);
+    for (const line of file.breakpoints) {
+      const entry = entries.find((candidate) => candidate.line >= line);
+      if (entry) {
+        addresses.add(entry.address);
+      }
+    }
+  }
+  return [...addresses].sort((a, b) => a - b);
+}
+
+// The source line whose bytes contain `address`
+export function sourceLineAt(
+  sourceMap: SourceMapEntry[],
+  address: number,
+): { file: string; line: number } | null {
+  const entry = sourceMap.find(
+    (candidate) => address >= candidate.address && address < candidate.address + candidate.bytes.length,
+  );
+  return entry ? { file: entry.file, line: entry.line } : null;
+}
@@ -0,0 +1,637 @@
+// Cycle-counted NMOS 6502 core.
+//
+// Implements every documented opcode, binary and decimal arithmetic and the
+// RESET/NMI/IRQ vectors. Memory access goes through a `Bus`, so the same
+// core can be wired to plain RAM, memory-mapped I/O or anything else.
+
+export interface Bus {
+  read(address: number): number;
+  write(address: number, value: number): void;
+}
+
+export const Flag = {
+  C: 0x01, // Carry
+  Z: 0x02, // Zero
+  I: 0x04, // IRQ disable
+  D: 0x08, // Decimal mode
+  B: 0x10, // Break (only exists on the stack)
+  U: 0x20, // Unused, always reads as 1
+  V: 0x40, // Overflow
+  N: 0x80, // Negative
+} as const;
+
+export const Vector = {
+  NMI: 0xfffa,
+  RESET: 0xfffc,
+  IRQ: 0xfffe,
+} as const;
+
+export type AddressingMode =
+  | "imp"
+  | "acc"
+  | "imm"
+  | "zp"
+  | "zpx"
+  | "zpy"
+  | "abs"
+  | "absx"
+  | "absy"
+  | "ind"
+  | "indx"
+  | "indy"
+  | "rel";
+
+export interface OpcodeInfo {
+  opcode: number;
+  mnemonic: string;
+  mode: AddressingMode;
+  cycles: number;
+  // Adds a cycle when the effective address crosses a page boundary
+  pageCrossPenalty: boolean;
+}
+
+// Number of operand bytes that follow the opcode for each addressing mode
+export const operandLength: Record<AddressingMode, number> = {
+  imp: 0,
+  acc: 0,
+  imm: 1,
+  zp: 1,
+  zpx: 1,
+  zpy: 1,
+  abs: 2,
+  absx: 2,
+  absy: 2,
+  ind: 2,
+  indx: 1,
+  indy: 1,
+  rel: 1,
+};
+
+// [opcode, mnemonic, mode, base cycles]
+const definitions: [number, string, AddressingMode, number][] = [
+  [0x69, "ADC", "imm", 2], [0x65, "ADC", "zp", 3], [0x75, "ADC", "zpx", 4], [0x6d, "ADC", "abs", 4],
+  [0x7d, "ADC", "absx", 4], [0x79, "ADC", "absy", 4], [0x61, "ADC", "indx", 6], [0x71, "ADC", "indy", 5],
+  [0x29, "AND", "imm", 2], [0x25, "AND", "zp", 3], [0x35, "AND", "zpx", 4], [0x2d, "AND", "abs", 4],
+  [0x3d, "AND", "absx", 4], [0x39, "AND", "absy", 4], [0x21, "AND", "indx", 6], [0x31, "AND", "indy", 5],
+  [0x0a, "ASL", "acc", 2], [0x06, "ASL", "zp", 5], [0x16, "ASL", "zpx", 6], [0x0e, "ASL", "abs", 6],
+  [0x1e, "ASL", "absx", 7],
+  [0x90, "BCC", "rel", 2], [0xb0, "BCS", "rel", 2], [0xf0, "BEQ", "rel", 2], [0x30, "BMI", "rel", 2],
+  [0xd0, "BNE", "rel", 2], [0x10, "BPL", "rel", 2], [0x50, "BVC", "rel", 2], [0x70, "BVS", "rel", 2],
+  [0x24, "BIT", "zp", 3], [0x2c, "BIT", "abs", 4],
+  [0x00, "BRK", "imp", 7],
+  [0x18, "CLC", "imp", 2], [0xd8, "CLD", "imp", 2], [0x58, "CLI", "imp", 2], [0xb8, "CLV", "imp", 2],
+  [0xc9, "CMP", "imm", 2], [0xc5, "CMP", "zp", 3], [0xd5, "CMP", "zpx", 4], [0xcd, "CMP", "abs", 4],
+  [0xdd, "CMP", "absx", 4], [0xd9, "CMP", "absy", 4], [0xc1, "CMP", "indx", 6], [0xd1, "CMP", "indy", 5],
+  [0xe0, "CPX", "imm", 2], [0xe4, "CPX", "zp", 3], [0xec, "CPX", "abs", 4],
+  [0xc0, "CPY", "imm", 2], [0xc4, "CPY", "zp", 3], [0xcc, "CPY", "abs", 4],
+  [0xc6, "DEC", "zp", 5], [0xd6, "DEC", "zpx", 6], [0xce, "DEC", "abs", 6], [0xde, "DEC", "absx", 7],
+  [0xca, "DEX", "imp", 2], [0x88, "DEY", "imp", 2],
+  [0x49, "EOR", "imm", 2], [0x45, "EOR", "zp", 3], [0x55, "EOR", "zpx", 4], [0x4d, "EOR", "abs", 4],
+  [0x5d, "EOR", "absx", 4], [0x59, "EOR", "absy", 4], [0x41, "EOR", "indx", 6], [0x51, "EOR", "indy", 5],
+  [0xe6, "INC", "zp", 5], [0xf6, "INC", "zpx", 6], [0xee, "INC", "abs", 6], [0xfe, "INC", "absx", 7],
+  [0xe8, "INX", "imp", 2], [0xc8, "INY", "imp", 2],
+  [0x4c, "JMP", "abs", 3], [0x6c, "JMP", "ind", 5],
+  [0x20, "JSR", "abs", 6],
+  [0xa9, "LDA", "imm", 2], [0xa5, "LDA", "zp", 3], [0xb5, "LDA", "zpx", 4], [0xad, "LDA", "abs", 4],
+  [0xbd, "LDA", "absx", 4], [0xb9, "LDA", "absy", 4], [0xa1, "LDA", "indx", 6], [0xb1, "LDA", "indy", 5],
+  [0xa2, "LDX", "imm", 2], [0xa6, "LDX", "zp", 3], [0xb6, "LDX", "zpy", 4], [0xae, "LDX", "abs", 4],
+  [0xbe, "LDX", "absy", 4],
+  [0xa0, "LDY", "imm", 2], [0xa4, "LDY", "zp", 3], [0xb4, "LDY", "zpx", 4], [0xac, "LDY", "abs", 4],
+  [0xbc, "LDY", "absx", 4],
+  [0x4a, "LSR", "acc", 2], [0x46, "LSR", "zp", 5], [0x56, "LSR", "zpx", 6], [0x4e, "LSR", "abs", 6],
+  [0x5e, "LSR", "absx", 7],
+  [0xea, "NOP", "imp", 2],
+  [0x09, "ORA", "imm", 2], [0x05, "ORA", "zp", 3], [0x15, "ORA", "zpx", 4], [0x0d, "ORA", "abs", 4],
+  [0x1d, "ORA", "absx", 4], [0x19, "ORA", "absy", 4], [0x01, "ORA", "indx", 6], [0x11, "ORA", "indy", 5],
+  [0x48, "PHA", "imp", 3], [0x08, "PHP", "imp", 3], [0x68, "PLA", "imp", 4], [0x28, "PLP", "imp", 4],
+  [0x2a, "ROL", "acc", 2], [0x26, "ROL", "zp", 5], [0x36, "ROL", "zpx", 6], [0x2e, "ROL", "abs", 6],
+  [0x3e, "ROL", "absx", 7],
+  [0x6a, "ROR", "acc", 2], [0x66, "ROR", "zp", 5], [0x76, "ROR", "zpx", 6], [0x6e, "ROR", "abs", 6],
+  [0x7e, "ROR", "absx", 7],
+  [0x40, "RTI", "imp", 6], [0x60, "RTS", "imp", 6],
+  [0xe9, "SBC", "imm", 2], [0xe5, "SBC", "zp", 3], [0xf5, "SBC", "zpx", 4], [0xed, "SBC", "abs", 4],
+  [0xfd, "SBC", "absx", 4], [0xf9, "SBC", "absy", 4], [0xe1, "SBC", "indx", 6], [0xf1, "SBC", "indy", 5],
+  [0x38, "SEC", "imp", 2], [0xf8, "SED", "imp", 2], [0x78, "SEI", "imp", 2],
+  [0x85, "STA", "zp", 3], [0x95, "STA", "zpx", 4], [0x8d, "STA", "abs", 4], [0x9d, "STA", "absx", 5],
+  [0x99, "STA", "absy", 5], [0x81, "STA", "indx", 6], [0x91, "STA", "indy", 6],
+  [0x86, "STX", "zp", 3], [0x96, "STX", "zpy", 4], [0x8e, "STX", "abs", 4],
+  [0x84, "STY", "zp", 3], [0x94, "STY", "zpx", 4], [0x8c, "STY", "abs", 4],
+  [0xaa, "TAX", "imp", 2], [0xa8, "TAY", "imp", 2], [0xba, "TSX", "imp", 2], [0x8a, "TXA", "imp", 2],
+  [0x9a, "TXS", "imp", 2], [0x98, "TYA", "imp", 2],
+];
+
+// Stores and read-modify-write instructions always take the extra cycle,
+// so it is already part of their base count.
+const noPageCrossPenalty = new Set(["STA", "STX", "STY", "ASL", "LSR", "ROL", "ROR", "INC", "DEC"]);
+
+export const opcodeTable: (OpcodeInfo | undefined)[] = new Array(256);
+for (const [opcode, mnemonic, mode, cycles] of definitions) {
+  opcodeTable[opcode] = {
+    opcode,
+    mnemonic,
+    mode,
+    cycles,
+    pageCrossPenalty:
+      (mode === "absx" || mode === "absy" || mode === "indy") &&
+      !noPageCrossPenalty.has(mnemonic),
+  };
+}
+
+export class IllegalOpcodeError extends Error {
+  constructor(
+    public readonly opcode: number,
+    public readonly address: number,
+  ) {
+    super(
+      `Illegal opcode $${opcode.toString(16).toUpperCase().padStart(2, "0")} at $${address
+        .toString(16)
+        .toUpperCase()
+        .padStart(4, "0")}`,
+    );
+    this.name = "IllegalOpcodeError";
+  }
+}
+
+export class Cpu6502 {
+  a = 0;
+  x = 0;
+  y = 0;
+  sp = 0xfd;
+  pc = 0;
+  p = Flag.U | Flag.I;
+  // Total cycles executed since construction
+  cycles = 0;
+
+  private nmiPending = false;
+  private irqLine = false;
+
+  constructor(private readonly bus: Bus) {}
+
+  // --- Interrupt lines ---
+
+  reset() {
+    this.a = 0;
+    this.x = 0;
+    this.y = 0;
+    this.sp = 0xfd;
+    this.p = Flag.U | Flag.I;
+    this.nmiPending = false;
+    this.irqLine = false;
+    this.pc = this.readWord(Vector.RESET);
+    this.cycles += 7;
+  }
+
+  // NMI is edge-triggered: it is serviced once before the next instruction
+  nmi() {
+    this.nmiPending = true;
+  }
+
+  // IRQ is level-triggered: it is serviced while held and I is clear
+  setIrq(active: boolean) {
+    this.irqLine = active;
+  }
+
+  // The interrupt the next `step()` services instead of an instruction
+  get pendingInterrupt(): "nmi" | "irq" | null {
+    if (this.nmiPending) return "nmi";
+    return this.irqLine && !this.getFlag(Flag.I) ? "irq" : null;
+  }
+
+  // --- Execution ---
+
+  // Executes a single instruction (or services a pending interrupt) and
+  // returns the number of cycles it took.
+  step(): number {
+    if (this.nmiPending) {
+      this.nmiPending = false;
+      return this.interrupt(Vector.NMI);
+    }
+    if (this.irqLine && !this.getFlag(Flag.I)) {
+      return this.interrupt(Vector.IRQ);
+    }
+
+    const address = this.pc;
+    const opcode = this.fetch();
+    const info = opcodeTable[opcode];
+    if (!info) {
+      this.pc = address;
+      throw new IllegalOpcodeError(opcode, address);
+    }
+
+    let cycles = info.cycles;
+    let operand = 0;
+    let crossed = false;
+
+    switch (info.mode) {
+      case "imm":
+        operand = this.pc;
+        this.pc = (this.pc + 1) & 0xffff;
+        break;
+      case "zp":
+        operand = this.fetch();
+        break;
+      case "zpx":
+        operand = (this.fetch() + this.x) & 0xff;
+        break;
+      case "zpy":
+        operand = (this.fetch() + this.y) & 0xff;
+        break;
+      case "abs":
+        operand = this.fetchWord();
+        break;
+      case "absx": {
+        const base = this.fetchWord();
+        operand = (base + this.x) & 0xffff;
+        crossed = (base & 0xff00) !== (operand & 0xff00);
+        break;
+      }
+      case "absy": {
+        const base = this.fetchWord();
+        operand = (base + this.y) & 0xffff;
+        crossed = (base & 0xff00) !== (operand & 0xff00);
+        break;
+      }
+      case "ind": {
+        // NMOS bug: the pointer high byte never carries into the next page
+        const pointer = this.fetchWord();
+        const lo = this.bus.read(pointer);
+        const hi = this.bus.read((pointer & 0xff00) | ((pointer + 1) & 0xff));
+        operand = lo | (hi << 8);
+        break;
+      }
+      case "indx": {
+        const zp = (this.fetch() + this.x) & 0xff;
+        operand = this.bus.read(zp) | (this.bus.read((zp + 1) & 0xff) << 8);
+        break;
+      }
+      case "indy": {
+        const zp = this.fetch();
+        const base = this.bus.read(zp) | (this.bus.read((zp + 1) & 0xff) << 8);
+        operand = (base + this.y) & 0xffff;
+        crossed = (base & 0xff00) !== (operand & 0xff00);
+        break;
+      }
+      case "rel": {
+        const offset = this.fetch();
+        operand = (this.pc + (offset < 0x80 ? offset : offset - 0x100)) & 0xffff;
+        break;
+      }
+    }
+
+    if (crossed && info.pageCrossPenalty) {
+      cycles++;
+    }
+    cycles += this.execute(info, operand);
+    this.cycles += cycles;
+    return cycles;
+  }
+
+  // Returns extra cycles spent (taken branches)
+  private execute(info: OpcodeInfo, address: number): number {
+    const accumulator = info.mode === "acc";
+
+    switch (info.mnemonic) {
+      // Loads and stores
+      case "LDA":
+        this.a = this.setNZ(this.bus.read(address));
+        break;
+      case "LDX":
+        this.x = this.setNZ(this.bus.read(address));
+        break;
+      case "LDY":
+        this.y = this.setNZ(this.bus.read(address));
+        break;
+      case "STA":
+        this.bus.write(address, this.a);
+        break;
+      case "STX":
+        this.bus.write(address, this.x);
+        break;
+      case "STY":
+        this.bus.write(address, this.y);
+        break;
+
+      // Transfers
+      case "TAX":
+        this.x = this.setNZ(this.a);
+        break;
+      case "TAY":
+        this.y = this.setNZ(this.a);
+        break;
+      case "TXA":
+        this.a = this.setNZ(this.x);
+        break;
+      case "TYA":
+        this.a = this.setNZ(this.y);
+        break;
+      case "TSX":
+        this.x = this.setNZ(this.sp);
+        break;
+      case "TXS":
+        this.sp = this.x;
+        break;
+
+      // Stack
+      case "PHA":
+        this.push(this.a);
+        break;
+      case "PHP":
+        this.push(this.p | Flag.B | Flag.U);
+        break;
+      case "PLA":
+        this.a = this.setNZ(this.pull());
+        break;
+      case "PLP":
+        this.p = (this.pull() & ~Flag.B) | Flag.U;
+        break;
+
+      // Logic and arithmetic
+      case "AND":
+        this.a = this.setNZ(this.a & this.bus.read(address));
+        break;
+      case "ORA":
+        this.a = this.setNZ(this.a | this.bus.read(address));
+        break;
+      case "EOR":
+        this.a = this.setNZ(this.a ^ this.bus.read(address));
+        break;
+      case "ADC":
+        this.adc(this.bus.read(address));
+        break;
+      case "SBC":
+        this.sbc(this.bus.read(address));
+        break;
+      case "CMP":
+        this.compare(this.a, this.bus.read(address));
+        break;
+      case "CPX":
+        this.compare(this.x, this.bus.read(address));
+        break;
+      case "CPY":
+        this.compare(this.y, this.bus.read(address));
+        break;
+      case "BIT": {
+        const value = this.bus.read(address);
+        this.setFlag(Flag.Z, (this.a & value) === 0);
+        this.setFlag(Flag.V, (value & 0x40) !== 0);
+        this.setFlag(Flag.N, (value & 0x80) !== 0);
+        break;
+      }
+
+      // Increments and decrements
+      case "INC":
+        this.bus.write(address, this.setNZ((this.bus.read(address) + 1) & 0xff));
+        break;
+      case "DEC":
+        this.bus.write(address, this.setNZ((this.bus.read(address) - 1) & 0xff));
+        break;
+      case "INX":
+        this.x = this.setNZ((this.x + 1) & 0xff);
+        break;
+      case "INY":
+        this.y = this.setNZ((this.y + 1) & 0xff);
+        break;
+      case "DEX":
+        this.x = this.setNZ((this.x - 1) & 0xff);
+        break;
+      case "DEY":
+        this.y = this.setNZ((this.y - 1) & 0xff);
+        break;
+
+      // Shifts and rotates
+      case "ASL":
+        this.modify(accumulator, address, (value) => {
+          this.setFlag(Flag.C, (value & 0x80) !== 0);
+          return (value << 1) & 0xff;
+        });
+        break;
+      case "LSR":
+        this.modify(accumulator, address, (value) => {
+          this.setFlag(Flag.C, (value & 0x01) !== 0);
+          return value >> 1;
+        });
+        break;
+      case "ROL":
+        this.modify(accumulator, address, (value) => {
+          const carry = this.getFlag(Flag.C) ? 1 : 0;
+          this.setFlag(Flag.C, (value & 0x80) !== 0);
+          return ((value << 1) | carry) & 0xff;
+        });
+        break;
+      case "ROR":
+        this.modify(accumulator, address, (value) => {
+          const carry = this.getFlag(Flag.C) ? 0x80 : 0;
+          this.setFlag(Flag.C, (value & 0x01) !== 0);
+          return (value >> 1) | carry;
+        });
+        break;
+
+      // Jumps and subroutines
+      case "JMP":
+        this.pc = address;
+        break;
+      case "JSR":
+        this.pushWord((this.pc - 1) & 0xffff);
+        this.pc = address;
+        break;
+      case "RTS":
+        this.pc = (this.pullWord() + 1) & 0xffff;
+        break;
+      case "RTI":
+        this.p = (this.pull() & ~Flag.B) | Flag.U;
+        this.pc = this.pullWord();
+        break;
+      case "BRK":
+        // BRK skips a padding byte after the opcode
+        this.pc = (this.pc + 1) & 0xffff;
+        this.pushWord(this.pc);
+        this.push(this.p | Flag.B | Flag.U);
+        this.setFlag(Flag.I, true);
+        this.pc = this.readWord(Vector.IRQ);
+        break;
+
+      // Branches
+      case "BCC":
+        return this.branch(!this.getFlag(Flag.C), address);
+      case "BCS":
+        return this.branch(this.getFlag(Flag.C), address);
+      case "BNE":
+        return this.branch(!this.getFlag(Flag.Z), address);
+      case "BEQ":
+        return this.branch(this.getFlag(Flag.Z), address);
+      case "BPL":
+        return this.branch(!this.getFlag(Flag.N), address);
+      case "BMI":
+        return this.branch(this.getFlag(Flag.N), address);
+      case "BVC":
+        return this.branch(!this.getFlag(Flag.V), address);
+      case "BVS":
+        return this.branch(this.getFlag(Flag.V), address);
+
+      // Flags
+      case "CLC":
+        this.setFlag(Flag.C, false);
+        break;
+      case "SEC":
+        this.setFlag(Flag.C, true);
+        break;
+      case "CLI":
+        this.setFlag(Flag.I, false);
+        break;
+      case "SEI":
+        this.setFlag(Flag.I, true);
+        break;
+      case "CLD":
+        this.setFlag(Flag.D, false);
+        break;
+      case "SED":
+        this.setFlag(Flag.D, true);
+        break;
+      case "CLV":
+        this.setFlag(Flag.V, false);
+        break;
+
+      case "NOP":
+        break;
+    }
+    return 0;
+  }
+
+  // --- Helpers ---
+
+  getFlag(flag: number): boolean {
+    return (this.p & flag) !== 0;
+  }
+
+  setFlag(flag: number, value: boolean) {
+    this.p = value ? this.p | flag : this.p & ~flag;
+  }
+
+  private setNZ(value: number): number {
+    this.setFlag(Flag.Z, value === 0);
+    this.setFlag(Flag.N, (value & 0x80) !== 0);
+    return value;
+  }
+
+  private fetch(): number {
+    const value = this.bus.read(this.pc);
+    this.pc = (this.pc + 1) & 0xffff;
+    return value;
+  }
+
+  private fetchWord(): number {
+    const lo = this.fetch();
+    return lo | (this.fetch() << 8);
+  }
+
+  private readWord(address: number): number {
+    return this.bus.read(address) | (this.bus.read((address + 1) & 0xffff) << 8);
+  }
+
+  private push(value: number) {
+    this.bus.write(0x100 | this.sp, value & 0xff);
+    this.sp = (this.sp - 1) & 0xff;
+  }
+
+  private pull(): number {
+    this.sp = (this.sp + 1) & 0xff;
+    return this.bus.read(0x100 | this.sp);
+  }
+
+  private pushWord(value: number) {
+    this.push(value >> 8);
+    this.push(value & 0xff);
+  }
+
+  private pullWord(): number {
+    const lo = this.pull();
+    return lo | (this.pull() << 8);
+  }
+
+  // Hardware interrupts push P with B clear, unlike BRK
+  private interrupt(vector: number): number {
+    this.pushWord(this.pc);
+    this.push((this.p | Flag.U) & ~Flag.B);
+    this.setFlag(Flag.I, true);
+    this.pc = this.readWord(vector);
+    this.cycles += 7;
+    return 7;
+  }
+
+  private modify(accumulator: boolean, address: number, operation: (value: number) => number) {
+    if (accumulator) {
+      this.a = this.setNZ(operation(this.a));
+    } else {
+      this.bus.write(address, this.setNZ(operation(this.bus.read(address))));
+    }
+  }
+
+  private branch(condition: boolean, target: number): number {
+    if (!condition) {
+      return 0;
+    }
+    const extra = (this.pc & 0xff00) !== (target & 0xff00) ? 2 : 1;
+    this.pc = target;
+    return extra;
+  }
+
+  private compare(register: number, value: number) {
+    const result = register - value;
+    this.setFlag(Flag.C, result >= 0);
+    this.setNZ(result & 0xff);
+  }
+
+  private adc(value: number) {
+    const carry = this.getFlag(Flag.C) ? 1 : 0;
+    const binary = this.a + value + carry;
+    this.setFlag(Flag.Z, (binary & 0xff) === 0);
+
+    if (this.getFlag(Flag.D)) {
+      // NMOS decimal mode: N and V come from the intermediate result,
+      // Z from the binary sum.
+      let lo = (this.a & 0x0f) + (value & 0x0f) + carry;
+      if (lo > 0x09) {
+        lo = ((lo + 0x06) & 0x0f) + 0x10;
+      }
+      let result = (this.a & 0xf0) + (value & 0xf0) + lo;
+      this.setFlag(Flag.N, (result & 0x80) !== 0);
+      this.setFlag(Flag.V, (~(this.a ^ value) & (this.a ^ result) & 0x80) !== 0);
+      if (result > 0x9f) {
+        result += 0x60;
+      }
+      this.setFlag(Flag.C, result > 0xff);
+      this.a = result & 0xff;
+    } else {
+      this.setFlag(Flag.N, (binary & 0x80) !== 0);
+      this.setFlag(Flag.V, (~(this.a ^ value) & (this.a ^ binary) & 0x80) !== 0);
+      this.setFlag(Flag.C, binary > 0xff);
+      this.a = binary & 0xff;
+    }
+  }
+
+  private sbc(value: number) {
+    const borrow = this.getFlag(Flag.C) ? 0 : 1;
+    const binary = this.a - value - borrow;
+
+    // Flags always follow the binary result on the NMOS part
+    this.setFlag(Flag.C, binary >= 0);
+    this.setFlag(Flag.Z, (binary & 0xff) === 0);
+    this.setFlag(Flag.N, (binary & 0x80) !== 0);
+    this.setFlag(Flag.V, ((this.a ^ value) & (this.a ^ binary) & 0x80) !== 0);
+
+    if (this.getFlag(Flag.D)) {
+      let lo = (this.a & 0x0f) - (value & 0x0f) - borrow;
+      let hi = (this.a >> 4) - (value >> 4);
+      if (lo < 0) {
+        lo -= 0x06;
+        hi--;
+      }
+      if (hi < 0) {
+        hi -= 0x06;
+      }
+      this.a = ((hi << 4) | (lo & 0x0f)) & 0xff;
+    } else {
+      this.a = binary & 0xff;
+    }
+  }
+}
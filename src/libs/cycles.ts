@@ -0,0 +1,183 @@
+import { opcodeTable as nmosOpcodes } from "./cpu6502";
+import { CPU_TYPES, DEFAULT_CPU, type CpuType } from "./opcodes.js";
+import type { SourceMapEntry } from "./asm6502.js";
+import { parse } from "./parser.js";
+
+// Cycle counts for the assembler's hints. The NMOS documented set comes
+// from the emulator core; the 65C02 and illegal opcodes are listed here.
+
+export interface InstructionTiming {
+  cycles: number;
+  // +1 when the indexed address crosses a page
+  pageCross: boolean;
+  // Conditional branches: +1 when taken, +2 when taken to another page
+  branch: boolean;
+  // BRA: a branch that is always taken
+  alwaysTaken?: boolean;
+}
+
+// [opcode, cycles, +1 on page cross]
+type TimingRow = [number, number, boolean?];
+
+/* prettier-ignore */
+const TIMINGS_65C02: TimingRow[] = [
+  // (zp)
+  [0x12, 5], [0x32, 5], [0x52, 5], [0x72, 5], [0x92, 5], [0xb2, 5], [0xd2, 5], [0xf2, 5],
+  [0x89, 2], [0x34, 4], [0x3c, 4, true], [0x1a, 2], [0x3a, 2],
+  [0x6c, 6], [0x7c, 6],
+  [0xda, 3], [0x5a, 3], [0xfa, 4], [0x7a, 4],
+  [0x64, 3], [0x74, 4], [0x9c, 4], [0x9e, 5],
+  [0x14, 5], [0x1c, 6], [0x04, 5], [0x0c, 6],
+  [0xcb, 3], [0xdb, 3],
+  // Shifts and rotates abs,x only take the extra cycle on a page cross
+  [0x1e, 6, true], [0x3e, 6, true], [0x5e, 6, true], [0x7e, 6, true],
+  // RMB0-7 and SMB0-7
+  ...[0, 1, 2, 3, 4, 5, 6, 7].flatMap((bit): TimingRow[] => [[0x07 + bit * 0x10, 5], [0x87 + bit * 0x10, 5]]),
+];
+
+// SLO RLA SRE RRA DCP ISC share their timings
+const readModifyWrite = (base: number): TimingRow[] => [
+  [base + 0x07, 5], [base + 0x17, 6], [base + 0x0f, 6], [base + 0x1f, 7],
+  [base + 0x1b, 7], [base + 0x03, 8], [base + 0x13, 8],
+];
+
+/* prettier-ignore */
+const TIMINGS_ILLEGAL: TimingRow[] = [
+  ...[0x00, 0x20, 0x40, 0x60, 0xc0, 0xe0].flatMap(readModifyWrite),
+  [0x87, 3], [0x97, 4], [0x8f, 4], [0x83, 6],
+  [0xa7, 3], [0xb7, 4], [0xaf, 4], [0xbf, 4, true], [0xa3, 6], [0xb3, 5, true],
+  [0x0b, 2], [0x4b, 2], [0x6b, 2], [0xcb, 2],
+  [0x80, 2], [0x04, 3], [0x14, 4], [0x0c, 4], [0x1c, 4, true],
+];
+
+// Branches of the 65C02
+const BRA = 0x80;
+const BIT_BRANCHES = new Set([0, 1, 2, 3, 4, 5, 6, 7].flatMap((bit) => [0x0f + bit * 0x10, 0x8f + bit * 0x10]));
+
+const tables = new Map<CpuType, (InstructionTiming | undefined)[]>();
+
+function timingTable(cpu: CpuType) {
+  if (!tables.has(cpu)) {
+    const table: (InstructionTiming | undefined)[] = nmosOpcodes.map((info) =>
+      info
+        ? { cycles: info.cycles, pageCross: info.pageCrossPenalty, branch: info.mode === "rel" }
+        : undefined,
+    );
+    const extra = cpu === "65c02" ? TIMINGS_65C02 : cpu === "6502x" ? TIMINGS_ILLEGAL : [];
+    for (const [opcode, cycles, pageCross = false] of extra) {
+      table[opcode] = { cycles, pageCross, branch: false };
+    }
+    if (cpu === "65c02") {
+      // BRA costs what a taken branch does; BBR/BBS are 5 cycles plus the same
+      table[BRA] = { cycles: 2, pageCross: false, branch: true, alwaysTaken: true };
+      BIT_BRANCHES.forEach((opcode) => (table[opcode] = { cycles: 5, pageCross: false, branch: true }));
+    }
+    tables.set(cpu, table);
+  }
+  return tables.get(cpu)!;
+}
+
+export function instructionTiming(
+  opcode: number,
+  cpu: CpuType = DEFAULT_CPU,
+): InstructionTiming | undefined {
+  return timingTable(cpu)[opcode];
+}
+
+// What the assembler produced for one source line
+export interface LineHint {
+  file: string;
+  line: number;
+  address: number;
+  length: number;
+  // Instructions only
+  cycles?: number;
+  // Most cycles the line can take, when more than `cycles`
+  maxCycles?: number;
+  note?: string;
+}
+
+// The fields of a parser node (see parser.pegjs) that the hints look at
+interface StatementNode {
+  instruction?: unknown;
+  directive?: string;
+  args?: { string?: unknown }[];
+}
+
+const isStatement = (node: unknown): node is StatementNode =>
+  typeof node === "object" && node !== null;
+
+// Hints for the lines that produced bytes; only instructions get cycles.
+// Lines are parsed again to tell instructions from data, and to follow
+// `.cpu`.
+export function lineHints(
+  sources: Record<string, string>,
+  sourceMap: SourceMapEntry[],
+  cpu: CpuType = DEFAULT_CPU,
+): LineHint[] {
+  const hints: LineHint[] = [];
+  for (const [file, code] of Object.entries(sources)) {
+    const entries = new Map<number, SourceMapEntry>();
+    for (const entry of sourceMap) {
+      if (entry.file === file && entry.bytes.length > 0 && !entries.has(entry.line)) {
+        entries.set(entry.line, entry);
+      }
+    }
+    if (entries.size === 0) continue;
+
+    let lineCpu = cpu;
+    code.split(/\r?\n/).forEach((text, index) => {
+      let nodes: StatementNode[] = [];
+      try {
+        nodes = parse(text).flat().filter(isStatement);
+      } catch {
+        // Reported by the assembler
+      }
+      const cpuDirective = nodes.find((node) => node.directive === ".cpu");
+      // A bare or unknown `.cpu` is reported by the assembler and changes nothing
+      const requested = String(cpuDirective?.args?.[0]?.string ?? "").toLowerCase();
+      if (Object.keys(CPU_TYPES).includes(requested)) {
+        lineCpu = requested as CpuType;
+      }
+      const entry = entries.get(index + 1);
+      if (!entry) return;
+      const hint: LineHint = { file, line: entry.line, address: entry.address, length: entry.bytes.length };
+      const isInstruction = nodes.some((node) => node.instruction);
+      const timing =
+        isInstruction && entry.bytes[0] !== null ? instructionTiming(entry.bytes[0], lineCpu) : undefined;
+      if (timing) {
+        Object.assign(hint, timingHint(timing, entry));
+      }
+      hints.push(hint);
+    });
+  }
+  return hints;
+}
+
+function timingHint(timing: InstructionTiming, entry: SourceMapEntry) {
+  if (timing.branch) {
+    // The target is known, so is whether a taken branch changes page
+    const next = entry.address + entry.bytes.length;
+    const offset = entry.bytes[entry.bytes.length - 1];
+    const target = offset === null ? next : (next + ((offset << 24) >> 24)) & 0xffff;
+    const extra = (next & 0xff00) === (target & 0xff00) ? 1 : 2;
+    if (timing.alwaysTaken) {
+      return { cycles: timing.cycles + extra };
+    }
+    return { cycles: timing.cycles, maxCycles: timing.cycles + extra, note: `+${extra} if taken` };
+  }
+  if (timing.pageCross) {
+    return { cycles: timing.cycles, maxCycles: timing.cycles + 1, note: "+1 if page crossed" };
+  }
+  return { cycles: timing.cycles };
+}
+
+// e.g. `$8003  3 bytes  4 cycles (+1 if page crossed)`
+export function formatLineHint(hint: LineHint): string {
+  const address = "$" + hint.address.toString(16).toUpperCase().padStart(4, "0");
+  const bytes = `${hint.length} byte${hint.length === 1 ? "" : "s"}`;
+  if (hint.cycles === undefined) {
+    return `${address}  ${bytes}`;
+  }
+  return `${address}  ${bytes}  ${hint.cycles} cycles${hint.note ? ` (${hint.note})` : ""}`;
+}
@@ -0,0 +1,257 @@
+// The board's serial debug protocol.
+//
+// Commands are ASCII. Single-letter commands act immediately; the others
+// carry arguments and are terminated by a newline:
+//
+//   s                      switch to single-step mode, or step once
+//   c                      continue automatic execution
+//   l                      toggle debug logging
+//   u                      step back one instruction (emulator only)
+//   f<hz>\n                set the clock frequency in Hz (0 = maximum speed)
+//   d<addr>,<b1>,<b2>...\n deposit hex bytes starting at hex <addr>
+//   r<addr>,<len>\n        read <len> (decimal) bytes starting at hex <addr>
+//   n\n                    reset RAM (the device must be reset afterwards)
+//   b<a1>,<a2>...\n        replace the breakpoint list with hex addresses
+//                          (emulator only; `b\n` clears it)
+//
+// Replies are CRLF-terminated lines. Newline-terminated commands end with
+// `OK` or `ERR <message>`. A step prints the CPU state, e.g.
+//
+//   PC=8005 OP=E8 A=48 X=00 Y=00 SP=FD P=24 CYC=19
+//
+// where OP is the opcode about to execute and CYC the cycle counter. When
+// execution reaches a breakpoint the device stops and prints `BREAK`
+// followed by the state line. A read
+// prints one memory line per 16 bytes before its `OK`:
+//
+//   8000: A2 00 BD 11 80 8D F1 FF E8 BD 11 80 F0 F2 4C 05
+
+export type DebugCommand =
+  | { type: "step" }
+  | { type: "stepBack" }
+  | { type: "continue" }
+  | { type: "toggleLogging" }
+  | { type: "frequency"; hz: number }
+  | { type: "deposit"; address: number; bytes: number[] }
+  | { type: "read"; address: number; length: number }
+  | { type: "resetRam" }
+  | { type: "breakpoints"; addresses: number[] };
+
+export interface CpuState {
+  pc: number;
+  opcode: number;
+  a: number;
+  x: number;
+  y: number;
+  sp: number;
+  p: number;
+  cycles: number;
+}
+
+export const MEMORY_LINE_WIDTH = 16;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+export const hex = (value: number, digits: number) =>
+  value.toString(16).toUpperCase().padStart(digits, "0");
+
+// --- Commands ---
+
+export function encodeCommand(command: DebugCommand): string {
+  switch (command.type) {
+    case "step":
+      return "s";
+    case "stepBack":
+      return "u";
+    case "continue":
+      return "c";
+    case "toggleLogging":
+      return "l";
+    case "frequency":
+      return `f${command.hz}\n`;
+    case "deposit":
+      return `d${hex(command.address, 1)},${command.bytes.map((b) => hex(b, 2)).join(",")}\n`;
+    case "read":
+      return `r${hex(command.address, 1)},${command.length}\n`;
+    case "resetRam":
+      return "n\n";
+    case "breakpoints":
+      return `b${command.addresses.map((address) => hex(address, 1)).join(",")}\n`;
+  }
+}
+
+// Commands that are complete as soon as their letter arrives
+export const isImmediateCommand = (char: string) =>
+  char === "s" || char === "u" || char === "c" || char === "l";
+
+// Commands whose arguments run up to the next newline
+export const isLineCommand = (char: string) =>
+  char === "f" || char === "d" || char === "r" || char === "n" || char === "b";
+
+const parseHex = (text: string, max: number, what: string): number => {
+  const value = text.trim();
+  if (!/^[0-9A-Fa-f]+$/.test(value) || parseInt(value, 16) > max) {
+    throw new ProtocolError(`Invalid ${what}: ${text}`);
+  }
+  return parseInt(value, 16);
+};
+
+// Parses one command (without its newline) as the device sees it
+export function parseCommand(line: string): DebugCommand {
+  const letter = line[0];
+  const body = line.slice(1).trim();
+
+  switch (letter) {
+    case "s":
+      return { type: "step" };
+    case "u":
+      return { type: "stepBack" };
+    case "c":
+      return { type: "continue" };
+    case "l":
+      return { type: "toggleLogging" };
+    case "n":
+      return { type: "resetRam" };
+    case "f": {
+      const hz = body === "" ? 0 : Number(body);
+      if (!Number.isInteger(hz) || hz < 0) {
+        throw new ProtocolError(`Invalid frequency: ${body}`);
+      }
+      return { type: "frequency", hz };
+    }
+    case "d": {
+      const [address, ...bytes] = body.split(",");
+      if (bytes.length === 0) {
+        throw new ProtocolError("Deposit needs at least one byte");
+      }
+      return {
+        type: "deposit",
+        address: parseHex(address, 0xffff, "address"),
+        bytes: bytes.map((b) => parseHex(b, 0xff, "byte")),
+      };
+    }
+    case "r": {
+      const [address, length] = body.split(",");
+      const count = Number(length);
+      if (!Number.isInteger(count) || count < 1 || count > 0x10000) {
+        throw new ProtocolError(`Invalid length: ${length}`);
+      }
+      return { type: "read", address: parseHex(address, 0xffff, "address"), length: count };
+    }
+    case "b":
+      return {
+        type: "breakpoints",
+        addresses: body === "" ? [] : body.split(",").map((a) => parseHex(a, 0xffff, "address")),
+      };
+    default:
+      throw new ProtocolError(`Unknown command: ${line}`);
+  }
+}
+
+// --- Replies ---
+
+export const OK_REPLY = "OK";
+export const ERROR_REPLY_PREFIX = "ERR ";
+export const BREAK_REPLY = "BREAK";
+
+export function formatState(state: CpuState): string {
+  return (
+    `PC=${hex(state.pc, 4)} OP=${hex(state.opcode, 2)} A=${hex(state.a, 2)} ` +
+    `X=${hex(state.x, 2)} Y=${hex(state.y, 2)} SP=${hex(state.sp, 2)} ` +
+    `P=${hex(state.p, 2)} CYC=${state.cycles}`
+  );
+}
+
+export function formatMemoryLine(address: number, bytes: ArrayLike<number>): string {
+  return `${hex(address, 4)}: ${Array.from(bytes, (b) => hex(b, 2)).join(" ")}`;
+}
+
+export interface MemoryLine {
+  address: number;
+  bytes: number[];
+}
+
+// Memory and state lines are matched at the end of the line: program
+// output without a newline, such as a character a stepped instruction
+// wrote, arrives in front of them
+const MEMORY_LINE = /([0-9A-Fa-f]{4}):((?: [0-9A-Fa-f]{2})+)\s*$/;
+const STATE_LINE =
+  /PC=([0-9A-F]{4}) OP=([0-9A-F]{2}) A=([0-9A-F]{2}) X=([0-9A-F]{2}) Y=([0-9A-F]{2}) SP=([0-9A-F]{2}) P=([0-9A-F]{2}) CYC=(\d+)\s*$/i;
+
+const toMemoryLine = (match: RegExpExecArray): MemoryLine => ({
+  address: parseInt(match[1], 16),
+  bytes: match[2].trim().split(" ").map((b) => parseInt(b, 16)),
+});
+
+const toState = (match: RegExpExecArray): CpuState => {
+  const [pc, opcode, a, x, y, sp, p] = match.slice(1, 8).map((field) => parseInt(field, 16));
+  return { pc, opcode, a, x, y, sp, p, cycles: Number(match[8]) };
+};
+
+// Parses a memory line from a read; null for any other line
+export function parseMemoryLine(line: string): MemoryLine | null {
+  const match = MEMORY_LINE.exec(line);
+  return match ? toMemoryLine(match) : null;
+}
+
+// Parses a step or trace line; null for any other line
+export function parseState(line: string): CpuState | null {
+  const match = STATE_LINE.exec(line);
+  return match ? toState(match) : null;
+}
+
+export type DeviceReply =
+  | { type: "state"; state: CpuState }
+  | { type: "memory"; line: MemoryLine }
+  | { type: "ok" }
+  | { type: "error"; message: string }
+  | { type: "break" }
+  // Program output and anything else the device prints
+  | { type: "text"; text: string };
+
+// The replies of one line. A state or memory line can have program output
+// in front of it, which comes first as text.
+export function parseReplies(line: string): DeviceReply[] {
+  const trimmed = line.trim();
+  if (trimmed === OK_REPLY) {
+    return [{ type: "ok" }];
+  }
+  if (trimmed.startsWith(ERROR_REPLY_PREFIX)) {
+    return [{ type: "error", message: trimmed.slice(ERROR_REPLY_PREFIX.length) }];
+  }
+  if (trimmed === BREAK_REPLY) {
+    return [{ type: "break" }];
+  }
+  const withOutput = (match: RegExpExecArray, reply: DeviceReply): DeviceReply[] => {
+    const text = line.slice(0, match.index);
+    return text ? [{ type: "text", text }, reply] : [reply];
+  };
+  const state = STATE_LINE.exec(line);
+  if (state) {
+    return withOutput(state, { type: "state", state: toState(state) });
+  }
+  const memory = MEMORY_LINE.exec(line);
+  if (memory) {
+    return withOutput(memory, { type: "memory", line: toMemoryLine(memory) });
+  }
+  return [{ type: "text", text: line }];
+}
+
+// Splits the device's byte stream into reply lines. Partial lines are kept
+// until the rest arrives.
+export class LineSplitter {
+  private pending = "";
+  private readonly decoder = new TextDecoder();
+
+  push(data: Uint8Array): string[] {
+    this.pending += this.decoder.decode(data, { stream: true });
+    const lines = this.pending.split(/\r?\n/);
+    this.pending = lines.pop() ?? "";
+    return lines;
+  }
+}
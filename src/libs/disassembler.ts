@@ -0,0 +1,466 @@
+import { hex } from "./debug-protocol";
+import { DEFAULT_CPU, opcodeTable, type CpuType, type OpcodeRow } from "./opcodes.js";
+
+// Turns bytes back into source the assembler accepts. The output is meant
+// to re-assemble to the same bytes, so anything the assembler would encode
+// differently (e.g. an absolute operand below $100) is kept as `.byte`.
+
+export type AddressingMode =
+  | "immediate"
+  | "zeropage"
+  | "zeropageX"
+  | "zeropageY"
+  | "absolute"
+  | "absoluteX"
+  | "absoluteY"
+  | "indirect"
+  | "indirectX"
+  | "indirectY"
+  | "implied"
+  | "relative"
+  // 65C02 only
+  | "zeropageIndirect"
+  | "absoluteIndexedIndirect"
+  | "zeropageRelative";
+
+export interface DecodedOpcode {
+  mnemonic: string;
+  mode: AddressingMode;
+  // The row the opcode came from, to see which other modes exist
+  row: OpcodeRow;
+}
+
+export interface DisassemblyOptions {
+  // Address of the first byte
+  origin: number;
+  // Where execution starts. When given, only bytes reachable from these
+  // addresses are decoded as code; otherwise every byte that decodes is.
+  entryPoints?: number[];
+  // Names for addresses, e.g. the assembler's labels
+  labels?: Record<string, number>;
+  // Name jump and branch targets that have no label
+  autoLabels?: boolean;
+  // Instruction set to decode; the 6502 by default
+  cpu?: CpuType;
+}
+
+export interface DisassemblyLine {
+  address: number;
+  bytes: number[];
+  kind: "code" | "data";
+  // Source text, e.g. `lda test_str,x` or `.byte "Hi", $0d`
+  text: string;
+  label?: string;
+  // For `.byte` lines that stand for an instruction
+  comment?: string;
+}
+
+export interface Disassembly {
+  origin: number;
+  cpu: CpuType;
+  lines: DisassemblyLine[];
+  // Names used by operands that are not the address of a line
+  equates: { name: string; address: number }[];
+}
+
+// Column order of the Opcodes table, after the name
+const MODES: AddressingMode[] = [
+  "immediate",
+  "zeropage",
+  "zeropageX",
+  "zeropageY",
+  "absolute",
+  "absoluteX",
+  "absoluteY",
+  "indirect",
+  "indirectX",
+  "indirectY",
+  "implied",
+  "relative",
+  "zeropageIndirect",
+  "absoluteIndexedIndirect",
+  "zeropageRelative",
+];
+
+const OPERAND_SIZE: Record<AddressingMode, number> = {
+  immediate: 1,
+  zeropage: 1,
+  zeropageX: 1,
+  zeropageY: 1,
+  absolute: 2,
+  absoluteX: 2,
+  absoluteY: 2,
+  indirect: 2,
+  indirectX: 1,
+  indirectY: 1,
+  implied: 0,
+  relative: 1,
+  zeropageIndirect: 1,
+  absoluteIndexedIndirect: 2,
+  // Zero page address, then the branch offset
+  zeropageRelative: 2,
+};
+
+// The zero page column the assembler prefers for small absolute operands
+const ZEROPAGE_COLUMN: Partial<Record<AddressingMode, number>> = {
+  absolute: 2,
+  absoluteX: 3,
+  absoluteY: 4,
+};
+
+const BYTES_PER_DATA_LINE = 8;
+// Printable runs at least this long are shown as strings in data
+const MIN_STRING_LENGTH = 4;
+// Without entry points, runs this long are taken for text rather than code
+const MIN_SWEEP_STRING_LENGTH = 6;
+
+// Opcode → mnemonic and mode, the reverse of the Opcodes table
+export function buildDecodeTable(
+  rows: OpcodeRow[] = opcodeTable(DEFAULT_CPU),
+): (DecodedOpcode | undefined)[] {
+  const table: (DecodedOpcode | undefined)[] = new Array(256);
+  for (const row of rows) {
+    row.slice(1).forEach((opcode, column) => {
+      if (typeof opcode === "number" && !table[opcode]) {
+        table[opcode] = { mnemonic: row[0].toLowerCase(), mode: MODES[column], row };
+      }
+    });
+  }
+  return table;
+}
+
+const decodeTables = new Map<CpuType, (DecodedOpcode | undefined)[]>();
+
+const decodeTableFor = (cpu: CpuType) => {
+  if (!decodeTables.has(cpu)) {
+    decodeTables.set(cpu, buildDecodeTable(opcodeTable(cpu)));
+  }
+  return decodeTables.get(cpu)!;
+};
+
+export const instructionLength = (mode: AddressingMode) => 1 + OPERAND_SIZE[mode];
+
+// Names the assembler can parse back as an operand
+const isUsableName = (name: string, decodeTable: (DecodedOpcode | undefined)[]) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) &&
+  !/^[axy]$/i.test(name) &&
+  !decodeTable.some((entry) => entry?.mnemonic === name.toLowerCase());
+
+// Instructions after which execution does not fall through
+const FLOW_STOPS = new Set(["jmp", "rts", "rti", "brk", "bra", "stp"]);
+
+const isPrintable = (byte: number) => byte >= 0x20 && byte < 0x7f && byte !== 0x22;
+
+export function disassemble(
+  input: ArrayLike<number>,
+  options: DisassemblyOptions,
+  decodeTable = decodeTableFor(options.cpu ?? DEFAULT_CPU),
+): Disassembly {
+  const bytes = Array.from(input, (byte) => byte & 0xff);
+  const { origin, entryPoints, labels = {}, autoLabels = true, cpu = DEFAULT_CPU } = options;
+  const end = origin + bytes.length;
+  const inRange = (address: number) => address >= origin && address < end;
+
+  // Decodes the instruction at an offset, if it is valid and fits
+  const decodeAt = (offset: number) => {
+    const decoded = decodeTable[bytes[offset]];
+    if (!decoded || offset + instructionLength(decoded.mode) > bytes.length) {
+      return null;
+    }
+    const operand =
+      decoded.mode === "zeropageRelative"
+        ? bytes[offset + 1]
+        : OPERAND_SIZE[decoded.mode] === 2
+          ? bytes[offset + 1] | (bytes[offset + 2] << 8)
+          : OPERAND_SIZE[decoded.mode] === 1
+            ? bytes[offset + 1]
+            : 0;
+    const address = origin + offset;
+    const branchTarget =
+      decoded.mode === "relative"
+        ? address + 2 + ((operand << 24) >> 24)
+        : decoded.mode === "zeropageRelative"
+          ? address + 3 + ((bytes[offset + 2] << 24) >> 24)
+          : null;
+    const target =
+      branchTarget !== null
+        ? branchTarget & 0xffff
+        : decoded.mode === "absolute" || decoded.mode === "indirect"
+          ? operand
+          : null;
+    // A branch past either end of memory, which the assembler cannot write
+    const wraps = branchTarget !== null && branchTarget !== target;
+    return { ...decoded, operand, target, wraps, length: instructionLength(decoded.mode) };
+  };
+  type Instruction = NonNullable<ReturnType<typeof decodeAt>>;
+
+  // --- Code or data ---
+  const instructions = new Map<number, Instruction>();
+  const claimed = new Uint8Array(bytes.length);
+  const claim = (offset: number, instruction: Instruction) => {
+    instructions.set(offset, instruction);
+    claimed.fill(1, offset, offset + instruction.length);
+  };
+
+  if (entryPoints) {
+    // Follow the flow of control from each entry point
+    const pending = entryPoints.filter(inRange).map((address) => address - origin);
+    while (pending.length > 0) {
+      let offset = pending.pop()!;
+      while (offset < bytes.length && !instructions.has(offset)) {
+        const instruction = decodeAt(offset);
+        if (!instruction || claimed.subarray(offset, offset + instruction.length).some(Boolean)) {
+          break;
+        }
+        claim(offset, instruction);
+        const { mnemonic, mode, target } = instruction;
+        const followsTarget =
+          mode === "relative" ||
+          mode === "zeropageRelative" ||
+          ((mnemonic === "jmp" || mnemonic === "jsr") && mode === "absolute");
+        if (followsTarget && target !== null && inRange(target)) {
+          pending.push(target - origin);
+        }
+        if (FLOW_STOPS.has(mnemonic)) {
+          break;
+        }
+        offset += instruction.length;
+      }
+    }
+  } else {
+    let offset = 0;
+    while (offset < bytes.length) {
+      const text = printableRun(bytes, offset, bytes.length);
+      if (text >= MIN_SWEEP_STRING_LENGTH) {
+        offset += text;
+        continue;
+      }
+      const instruction = decodeAt(offset);
+      if (instruction) {
+        claim(offset, instruction);
+        offset += instruction.length;
+      } else {
+        offset++;
+      }
+    }
+  }
+
+  // --- Names ---
+  const names = new Map<number, string>();
+  for (const [name, address] of Object.entries(labels)) {
+    if (isUsableName(name, decodeTable) && !names.has(address)) {
+      names.set(address, name);
+    }
+  }
+  // Addresses operands refer to within the range start a line of their own
+  const referenced = new Set<number>();
+  for (const instruction of instructions.values()) {
+    if (instruction.target !== null && inRange(instruction.target)) {
+      referenced.add(instruction.target);
+    }
+    if (
+      instruction.mode === "absoluteX" ||
+      instruction.mode === "absoluteY" ||
+      instruction.mode === "absoluteIndexedIndirect"
+    ) {
+      if (inRange(instruction.operand)) referenced.add(instruction.operand);
+    }
+  }
+  const lineBreaks = new Set<number>(referenced);
+  for (const address of names.keys()) {
+    if (inRange(address)) lineBreaks.add(address);
+  }
+
+  // --- Lines ---
+  const lines: DisassemblyLine[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const address = origin + offset;
+    const instruction = instructions.get(offset);
+    if (instruction) {
+      lines.push({
+        address,
+        bytes: bytes.slice(offset, offset + instruction.length),
+        kind: "code",
+        text: "",
+      });
+      offset += instruction.length;
+      continue;
+    }
+    // Data runs up to the next code or named address
+    let limit = offset + 1;
+    while (limit < bytes.length && !claimed[limit] && !lineBreaks.has(origin + limit)) {
+      limit++;
+    }
+    let length = printableRun(bytes, offset, limit);
+    if (length < MIN_STRING_LENGTH) {
+      // Bytes up to the line limit, or to a string that starts later
+      length = 1;
+      while (
+        offset + length < limit &&
+        length < BYTES_PER_DATA_LINE &&
+        printableRun(bytes, offset + length, limit) < MIN_STRING_LENGTH
+      ) {
+        length++;
+      }
+    }
+    lines.push({ address, bytes: bytes.slice(offset, offset + length), kind: "data", text: "" });
+    offset += length;
+  }
+
+  const lineStarts = new Set(lines.map((line) => line.address));
+  if (autoLabels) {
+    const taken = new Set(names.values());
+    for (const address of referenced) {
+      const name = `L${address.toString(16).toUpperCase().padStart(4, "0")}`;
+      if (!names.has(address) && lineStarts.has(address) && !taken.has(name)) {
+        names.set(address, name);
+      }
+    }
+  }
+
+  // Labels at the start of a line are defined there; the rest become
+  // equates at the top. Zero page operands only use equates, because a
+  // label defined after its use is always encoded as absolute.
+  const inline = (address: number) => inRange(address) && lineStarts.has(address);
+  const equates = new Map<string, number>();
+  const nameFor = (address: number, zeropage: boolean) => {
+    const name = names.get(address);
+    if (name === undefined || (zeropage && inline(address))) {
+      return undefined;
+    }
+    if (!inline(address)) {
+      equates.set(name, address);
+    }
+    return name;
+  };
+
+  for (const line of lines) {
+    const label = names.get(line.address);
+    if (label !== undefined && inRange(line.address)) {
+      line.label = label;
+    }
+    if (line.kind === "data") {
+      line.text = formatData(line.bytes);
+      continue;
+    }
+    const instruction = instructions.get(line.address - origin)!;
+    const text = formatInstruction(instruction, nameFor);
+    const zeropageColumn = ZEROPAGE_COLUMN[instruction.mode];
+    if (
+      instruction.wraps ||
+      (zeropageColumn !== undefined &&
+        instruction.operand < 0x100 &&
+        instruction.row[zeropageColumn] !== null)
+    ) {
+      // The assembler would pick the shorter zero page form, or reject
+      // the branch
+      line.text = formatData(line.bytes);
+      line.comment = text;
+    } else {
+      line.text = text;
+    }
+  }
+
+  return {
+    origin,
+    cpu,
+    lines,
+    equates: [...equates]
+      .map(([name, address]) => ({ name, address }))
+      .sort((a, b) => a.address - b.address),
+  };
+}
+
+// Length of the run of string-safe characters starting at `offset`
+function printableRun(bytes: number[], offset: number, end: number) {
+  let length = 0;
+  while (offset + length < end && isPrintable(bytes[offset + length])) {
+    length++;
+  }
+  return length;
+}
+
+function formatData(bytes: number[]) {
+  if (bytes.length >= MIN_STRING_LENGTH && bytes.every(isPrintable)) {
+    return `.byte "${String.fromCharCode(...bytes)}"`;
+  }
+  return ".byte " + bytes.map((byte) => "$" + hex(byte, 2)).join(", ");
+}
+
+function formatInstruction(
+  instruction: { mnemonic: string; mode: AddressingMode; operand: number; target: number | null },
+  nameFor: (address: number, zeropage: boolean) => string | undefined,
+) {
+  const { mnemonic, mode, operand } = instruction;
+  const zp = () => nameFor(operand, true) ?? "$" + hex(operand, 2);
+  const abs = (address: number) => nameFor(address, false) ?? "$" + hex(address, 4);
+  switch (mode) {
+    case "implied":
+      return mnemonic;
+    case "immediate":
+      return `${mnemonic} #$${hex(operand, 2)}`;
+    case "zeropage":
+      return `${mnemonic} ${zp()}`;
+    case "zeropageX":
+      return `${mnemonic} ${zp()},x`;
+    case "zeropageY":
+      return `${mnemonic} ${zp()},y`;
+    case "absolute":
+      return `${mnemonic} ${abs(operand)}`;
+    case "absoluteX":
+      return `${mnemonic} ${abs(operand)},x`;
+    case "absoluteY":
+      return `${mnemonic} ${abs(operand)},y`;
+    case "indirect":
+      return `${mnemonic} (${abs(operand)})`;
+    case "indirectX":
+      return `${mnemonic} (${zp()},x)`;
+    case "indirectY":
+      return `${mnemonic} (${zp()}),y`;
+    case "relative":
+      return `${mnemonic} ${abs(instruction.target!)}`;
+    case "zeropageIndirect":
+      return `${mnemonic} (${zp()})`;
+    case "absoluteIndexedIndirect":
+      return `${mnemonic} (${abs(operand)},x)`;
+    case "zeropageRelative":
+      return `${mnemonic} ${zp()},${abs(instruction.target!)}`;
+  }
+}
+
+// Source that re-assembles to the same bytes
+export function disassemblyToSource(disassembly: Disassembly): string {
+  const out = [`.org $${hex(disassembly.origin, 4)}`, ""];
+  if (disassembly.cpu !== DEFAULT_CPU) {
+    out.unshift(`.cpu ${disassembly.cpu}`);
+  }
+  for (const { name, address } of disassembly.equates) {
+    out.push(`${name} = $${hex(address, address < 0x100 ? 2 : 4)}`);
+  }
+  if (disassembly.equates.length > 0) {
+    out.push("");
+  }
+  for (const line of disassembly.lines) {
+    if (line.label) {
+      out.push(`${line.label}:`);
+    }
+    out.push("    " + line.text + (line.comment ? `  ; ${line.comment}` : ""));
+  }
+  return out.join("\n") + "\n";
+}
+
+// Address, bytes and source side by side, for reading
+export function formatDisassembly(disassembly: Disassembly): string {
+  const out: string[] = [];
+  for (const line of disassembly.lines) {
+    if (line.label) {
+      out.push(`${line.label}:`);
+    }
+    const address = line.address.toString(16).toUpperCase().padStart(4, "0");
+    const shown = line.bytes.slice(0, 3).map((byte) => hex(byte, 2));
+    const bytes = (shown.join(" ") + (line.bytes.length > 3 ? "+" : "")).padEnd(10);
+    out.push(`${address}  ${bytes}  ${line.text}${line.comment ? `  ; ${line.comment}` : ""}`);
+  }
+  return out.join("\n");
+}
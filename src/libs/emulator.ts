@@ -0,0 +1,251 @@
+import { Cpu6502, Vector, opcodeTable, operandLength, type Bus } from "./cpu6502";
+import { PeripheralBus } from "./peripherals";
+import { TraceBuffer, type MemoryWrite, type TraceEntry } from "./trace";
+
+// Memory-mapped serial port, matching the addresses used on the board
+export const SERIAL_IN_ADDR = 0xfff0; // read: next received byte, 0 if none
+export const SERIAL_OUT_ADDR = 0xfff1; // write: transmit a byte
+
+export const DEFAULT_CLOCK_HZ = 1_000_000;
+
+// How often the run loop hands control back to the browser
+const TICK_MS = 16;
+// Cycle budget per tick when running at maximum speed (clock of 0 Hz)
+const MAX_SPEED_CYCLES_PER_TICK = 200_000;
+
+export interface EmulatorOptions {
+  clockHz?: number;
+  // Memory-mapped devices; none unless configured
+  peripherals?: PeripheralBus;
+  onSerialOutput?: (data: Uint8Array) => void;
+  onStop?: (reason: string | null) => void;
+  // Called after every instruction executed by the run loop
+  onStep?: () => void;
+  // Called when the run loop stops at a breakpoint
+  onBreakpoint?: () => void;
+}
+
+// A 64 KiB RAM machine around the 6502 core with the board's serial I/O
+// and any virtual peripherals mapped over the RAM.
+export class Emulator implements Bus {
+  readonly memory = new Uint8Array(0x10000);
+  readonly cpu: Cpu6502;
+  readonly peripherals: PeripheralBus;
+  clockHz: number;
+  // Addresses where the run loop stops before executing the instruction
+  readonly breakpoints = new Set<number>();
+  // The last instructions executed, while `tracing` is on
+  readonly trace = new TraceBuffer();
+  tracing = true;
+
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastTick = 0;
+  private entryPoint: number | null = null;
+  // The first instruction after starting runs even if it has a breakpoint
+  private resuming = false;
+  private serialInput: number[] = [];
+  private serialOutput: number[] = [];
+  // Writes of the instruction being traced
+  private writes: MemoryWrite[] | null = null;
+  private readonly onSerialOutput?: (data: Uint8Array) => void;
+  private readonly onStop?: (reason: string | null) => void;
+  private readonly onStep?: () => void;
+  private readonly onBreakpoint?: () => void;
+
+  constructor(options: EmulatorOptions = {}) {
+    this.cpu = new Cpu6502(this);
+    this.clockHz = options.clockHz ?? DEFAULT_CLOCK_HZ;
+    this.peripherals = options.peripherals ?? new PeripheralBus();
+    this.onSerialOutput = options.onSerialOutput;
+    this.onStop = options.onStop;
+    this.onStep = options.onStep;
+    this.onBreakpoint = options.onBreakpoint;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  // --- Bus ---
+
+  read(address: number): number {
+    if (address === SERIAL_IN_ADDR) {
+      return this.serialInput.shift() ?? 0;
+    }
+    return this.peripherals.read(address) ?? this.memory[address];
+  }
+
+  write(address: number, value: number) {
+    this.writes?.push({ address, previous: this.memory[address], value });
+    if (address === SERIAL_OUT_ADDR) {
+      this.serialOutput.push(value);
+      return;
+    }
+    if (!this.peripherals.write(address, value)) {
+      this.memory[address] = value;
+    }
+  }
+
+  // --- Program loading ---
+
+  // Copies bytes into memory. The lowest address loaded since the last
+  // `clearMemory()` is where a reset starts when no reset vector is set.
+  load(bytes: number[], address: number) {
+    bytes.forEach((byte, i) => {
+      this.memory[(address + i) & 0xffff] = byte ?? 0;
+    });
+    this.entryPoint = Math.min(this.entryPoint ?? address, address);
+    this.trace.clear();
+  }
+
+  clearMemory() {
+    this.memory.fill(0);
+    this.entryPoint = null;
+    this.trace.clear();
+  }
+
+  reset() {
+    this.serialInput = [];
+    this.flushSerialOutput();
+    this.peripherals.reset();
+    this.trace.clear();
+    this.cpu.reset();
+    const vector = this.memory[Vector.RESET] | (this.memory[Vector.RESET + 1] << 8);
+    if (vector === 0 && this.entryPoint !== null) {
+      this.cpu.pc = this.entryPoint;
+    }
+  }
+
+  sendSerialInput(data: Uint8Array | string) {
+    const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+    this.serialInput.push(...bytes);
+  }
+
+  // --- Execution ---
+
+  step(): number {
+    const cycles = this.execute();
+    this.flushSerialOutput();
+    return cycles;
+  }
+
+  // Undoes the last traced instruction: the registers and the memory it
+  // wrote are restored. Devices, including the serial port, are not.
+  // False when the trace is empty.
+  stepBack(): boolean {
+    const entry = this.trace.pop();
+    if (!entry) return false;
+    for (let i = entry.writes.length - 1; i >= 0; i--) {
+      const write = entry.writes[i];
+      this.memory[write.address] = write.previous;
+    }
+    const cpu = this.cpu;
+    cpu.pc = entry.pc;
+    cpu.a = entry.a;
+    cpu.x = entry.x;
+    cpu.y = entry.y;
+    cpu.sp = entry.sp;
+    cpu.p = entry.p;
+    cpu.cycles = entry.cycles;
+    return true;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.resuming = true;
+    this.lastTick = performance.now();
+    this.scheduleTick();
+  }
+
+  stop(reason: string | null = null) {
+    if (!this.running) return;
+    this.running = false;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.flushSerialOutput();
+    this.onStop?.(reason);
+  }
+
+  private scheduleTick() {
+    this.timer = setTimeout(() => this.tick(), TICK_MS);
+  }
+
+  private tick() {
+    const now = performance.now();
+    const elapsed = now - this.lastTick;
+    this.lastTick = now;
+
+    // Never try to catch up on more than a second, e.g. after a hidden tab
+    const budget =
+      this.clockHz > 0
+        ? Math.floor((this.clockHz * Math.min(elapsed, 1000)) / 1000)
+        : MAX_SPEED_CYCLES_PER_TICK;
+
+    try {
+      let spent = 0;
+      while (spent < budget && this.running) {
+        if (this.breakpoints.has(this.cpu.pc) && !this.resuming) {
+          this.stop();
+          this.onBreakpoint?.();
+          return;
+        }
+        this.resuming = false;
+        spent += this.execute();
+        this.onStep?.();
+      }
+    } catch (error) {
+      this.stop(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    this.flushSerialOutput();
+    if (this.running) {
+      this.scheduleTick();
+    }
+  }
+
+  // One instruction, with the time it took passed on to the devices
+  private execute(): number {
+    const entry = this.tracing ? this.traceEntry() : null;
+    this.writes = entry?.writes ?? null;
+    let cycles: number;
+    try {
+      cycles = this.cpu.step();
+    } finally {
+      this.writes = null;
+    }
+    if (entry) {
+      this.trace.push(entry);
+    }
+    this.peripherals.tick(cycles);
+    this.cpu.setIrq(this.peripherals.irq);
+    return cycles;
+  }
+
+  // Operands are read from RAM directly so devices do not see the reads
+  private traceEntry(): TraceEntry {
+    const { pc, a, x, y, sp, p, cycles } = this.cpu;
+    const opcode = this.memory[pc];
+    const info = opcodeTable[opcode];
+    const length = info ? operandLength[info.mode] : 0;
+    const operands = Array.from({ length }, (_, i) => this.memory[(pc + 1 + i) & 0xffff]);
+    const entry: TraceEntry = { pc, opcode, operands, a, x, y, sp, p, cycles, writes: [] };
+    const interrupt = this.cpu.pendingInterrupt;
+    if (interrupt) {
+      entry.interrupt = interrupt;
+    }
+    return entry;
+  }
+
+  // Output is batched so the terminal gets one write per tick
+  private flushSerialOutput() {
+    if (this.serialOutput.length === 0) return;
+    const data = Uint8Array.from(this.serialOutput);
+    this.serialOutput = [];
+    this.onSerialOutput?.(data);
+  }
+}
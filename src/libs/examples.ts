@@ -0,0 +1,443 @@
+import type { Project } from "./project-bundle";
+
+// The example gallery: small complete programs, each a project with the
+// devices it uses, that open into the editor as a starting point.
+
+export type ExampleCategory = "serial" | "delay" | "math" | "interrupts" | "graphics";
+
+export const EXAMPLE_CATEGORIES: Record<ExampleCategory, string> = {
+  serial: "Serial I/O",
+  delay: "Delay loops",
+  math: "16-bit math",
+  interrupts: "Interrupts",
+  graphics: "Graphics",
+};
+
+export interface Example {
+  id: string;
+  title: string;
+  category: ExampleCategory;
+  description: string;
+  project: Project;
+}
+
+const HELLO_WORLD = `; Prints a message over the serial port once, then waits
+
+SERIAL_OUT = $fff1      ; write: transmit a byte
+
+.segment "CODE"
+reset:
+    ldx #$ff
+    txs
+    ldx #0
+@next:
+    lda message,x       ; the string ends with a zero byte
+    beq done
+    sta SERIAL_OUT
+    inx
+    bne @next
+done:
+    jmp done
+
+.segment "RODATA"
+message:
+    .byte "Hello from the 6502!", $0d, $0a, 0
+
+.segment "VECTORS"
+    .word reset, reset, reset   ; NMI, RESET, IRQ
+`;
+
+const ECHO = `; Sends back every character typed in the terminal, in upper case.
+; Return also starts a new line.
+
+SERIAL_IN = $fff0       ; read: next received byte, 0 if none
+SERIAL_OUT = $fff1      ; write: transmit a byte
+
+.segment "CODE"
+reset:
+    ldx #$ff
+    txs
+wait:
+    lda SERIAL_IN
+    beq wait
+    cmp #$61            ; 'a'
+    bcc @send
+    cmp #$7b            ; after 'z'
+    bcs @send
+    and #$df            ; clearing bit 5 makes a letter upper case
+@send:
+    sta SERIAL_OUT
+    cmp #$0d            ; return
+    bne wait
+    lda #$0a            ; line feed
+    sta SERIAL_OUT
+    jmp wait
+
+.segment "VECTORS"
+    .word reset, reset, reset   ; NMI, RESET, IRQ
+`;
+
+const BLINK = `; Walks a light along the LEDs, waiting in a delay loop between steps
+
+LEDS = $6000
+
+.segment "CODE"
+reset:
+    ldx #$ff
+    txs
+    lda #%00000001
+@step:
+    sta LEDS
+    jsr delay
+    asl a               ; the light moves one LED to the left
+    bne @step
+    lda #%00000001      ; back to the first LED once it has left the last
+    jmp @step
+
+; Waits about 100 ms at 1 MHz by counting down in two nested loops.
+; A is kept; X and Y are not.
+delay:
+    ldy #100            ; 100 times the inner loop
+@outer:
+    ldx #198            ; 198 x 5 cycles: about 1 ms
+@inner:
+    dex                 ; 2 cycles
+    bne @inner          ; 3 cycles when taken
+    dey
+    bne @outer
+    rts
+
+.segment "VECTORS"
+    .word reset, reset, reset   ; NMI, RESET, IRQ
+`;
+
+const ADD_SUB = `; 16-bit addition and subtraction of little-endian words in the zero
+; page. The tests in math.test check them: press "Run tests".
+
+.segment "ZEROPAGE"
+num1:   .dsb 2
+num2:   .dsb 2
+result: .dsb 2
+
+.segment "CODE"
+reset:
+    ldx #$ff
+    txs
+    lda #<1234          ; 1234 + 4321
+    sta num1
+    lda #>1234
+    sta num1+1
+    lda #<4321
+    sta num2
+    lda #>4321
+    sta num2+1
+    jsr add16           ; result = 5555 ($15B3)
+@halt:
+    jmp @halt
+
+; result = num1 + num2; carry set when it does not fit in 16 bits
+add16:
+    clc
+    lda num1
+    adc num2
+    sta result
+    lda num1+1          ; the carry of the low bytes goes into the high bytes
+    adc num2+1
+    sta result+1
+    rts
+
+; result = num1 - num2; carry clear when num2 is larger
+sub16:
+    sec
+    lda num1
+    sbc num2
+    sta result
+    lda num1+1          ; and the borrow likewise
+    sbc num2+1
+    sta result+1
+    rts
+
+.segment "VECTORS"
+    .word reset, reset, reset   ; NMI, RESET, IRQ
+`;
+
+const ADD_SUB_TESTS = `test add16 adds the low and high bytes
+  memory num1 $34 $12
+  memory num2 $21 $43
+  call add16
+  expect memory result $55 $55
+  expect c=0
+
+test add16 carries into the high byte
+  memory num1 $ff $00
+  memory num2 $01 $00
+  call add16
+  expect memory result $00 $01
+
+test add16 sets the carry on overflow
+  memory num1 $ff $ff
+  memory num2 $01 $00
+  call add16
+  expect memory result $00 $00
+  expect c=1
+
+test sub16 borrows from the high byte
+  memory num1 $00 $01
+  memory num2 $01 $00
+  call sub16
+  expect memory result $ff $00
+  expect c=1
+
+test sub16 clears the carry when the result is negative
+  memory num1 $00 $00
+  memory num2 $01 $00
+  call sub16
+  expect memory result $ff $ff
+  expect c=0
+`;
+
+const MULTIPLY = `; Multiplies two bytes into a 16-bit product and prints it in hex
+
+SERIAL_OUT = $fff1
+
+.segment "ZEROPAGE"
+factor1: .dsb 1
+factor2: .dsb 1
+product: .dsb 2
+
+.segment "CODE"
+reset:
+    ldx #$ff
+    txs
+    lda #200
+    sta factor1
+    lda #123
+    sta factor2
+    jsr multiply        ; 200 x 123 = 24600
+    lda product+1
+    jsr print_hex
+    lda product
+    jsr print_hex       ; prints 6018
+    lda #$0d
+    sta SERIAL_OUT
+    lda #$0a
+    sta SERIAL_OUT
+@halt:
+    jmp @halt
+
+; product = factor1 x factor2, adding factor2 for each bit of factor1.
+; factor1 is lost.
+multiply:
+    lda #0              ; A holds the high byte of the product
+    ldx #8
+@bit:
+    lsr factor1         ; the next bit of factor1, lowest first
+    bcc @shift
+    clc
+    adc factor2
+@shift:
+    ror a               ; the product moves right, the carry into its top
+    ror product
+    dex
+    bne @bit
+    sta product+1
+    rts
+
+; Prints A as two hex digits
+print_hex:
+    pha
+    lsr a
+    lsr a
+    lsr a
+    lsr a
+    jsr @digit          ; the high nibble, then falls through for the low one
+    pla
+    and #$0f
+@digit:
+    cmp #10
+    bcc @number
+    adc #6              ; the carry is set: 'A' comes 7 after '9' + 1
+@number:
+    adc #$30            ; '0'
+    sta SERIAL_OUT
+    rts
+
+.segment "VECTORS"
+    .word reset, reset, reset   ; NMI, RESET, IRQ
+`;
+
+const TIMER_IRQ = `; Timer 1 of the VIA interrupts 20 times a second; the interrupt
+; handler counts in binary on the LEDs while the main program idles.
+
+VIA_T1CL = $6004        ; reading it acknowledges the interrupt
+VIA_T1CH = $6005        ; writing it starts the timer
+VIA_ACR = $600b
+VIA_IER = $600e
+LEDS = $6100
+
+PERIOD = 50000 - 2      ; cycles between interrupts at 1 MHz
+
+.segment "ZEROPAGE"
+count: .dsb 1
+
+.segment "CODE"
+reset:
+    ldx #$ff
+    txs
+    lda #0
+    sta count
+    lda #%01000000      ; timer 1 restarts by itself
+    sta VIA_ACR
+    lda #<PERIOD
+    sta VIA_T1CL
+    lda #>PERIOD
+    sta VIA_T1CH
+    lda #%11000000      ; enable the timer 1 interrupt
+    sta VIA_IER
+    cli
+@idle:
+    jmp @idle
+
+irq:
+    pha
+    lda VIA_T1CL
+    inc count
+    lda count
+    sta LEDS
+    pla
+    rti
+
+nmi:
+    rti
+
+.segment "VECTORS"
+    .word nmi, reset, irq
+`;
+
+const PIXELS = `; Draws a diagonal line on the framebuffer, then blinks its top and
+; bottom rows by toggling their pixels
+
+SCREEN = $7000          ; 32 x 32 pixels, one byte each
+WIDTH = 32
+WHITE = 1
+GREEN = 5
+
+.segment "ZEROPAGE"
+pixel: .dsb 2
+
+.segment "CODE"
+reset:
+    ldx #$ff
+    txs
+    lda #<SCREEN
+    sta pixel
+    lda #>SCREEN
+    sta pixel+1
+    ldx #WIDTH
+    ldy #0
+@diagonal:
+    lda #WHITE
+    sta (pixel),y
+    clc                 ; one row down and one pixel right
+    lda pixel
+    adc #WIDTH + 1
+    sta pixel
+    bcc @same_page
+    inc pixel+1
+@same_page:
+    dex
+    bne @diagonal
+
+@blink:
+    ldx #WIDTH - 1
+@column:
+    lda SCREEN,x
+    eor #GREEN
+    sta SCREEN,x
+    lda SCREEN + WIDTH * 31,x
+    eor #GREEN
+    sta SCREEN + WIDTH * 31,x
+    dex
+    bpl @column
+    jsr delay
+    jmp @blink
+
+; Waits about 250 ms at 1 MHz
+delay:
+    ldy #250
+@outer:
+    ldx #198
+@inner:
+    dex
+    bne @inner
+    dey
+    bne @outer
+    rts
+
+.segment "VECTORS"
+    .word reset, reset, reset   ; NMI, RESET, IRQ
+`;
+
+const example = (
+  id: string,
+  title: string,
+  category: ExampleCategory,
+  description: string,
+  files: Record<string, string>,
+  options: Omit<Project, "entryFile" | "files"> = {},
+): Example => ({
+  id,
+  title,
+  category,
+  description,
+  project: {
+    entryFile: Object.keys(files)[0],
+    files: Object.entries(files).map(([name, content]) => ({ name, content })),
+    ...options,
+  },
+});
+
+export const EXAMPLES: Example[] = [
+  example("hello", "Hello world", "serial", "Prints a string to the terminal", {
+    "main.s": HELLO_WORLD,
+  }),
+  example("echo", "Echo in upper case", "serial", "Reads the terminal and answers", {
+    "main.s": ECHO,
+  }),
+  example(
+    "blink",
+    "Running light",
+    "delay",
+    "Nested countdown loops pace a light on the LEDs",
+    { "main.s": BLINK },
+    { peripherals: [{ kind: "leds", address: 0x6000 }] },
+  ),
+  example("add-sub", "Add and subtract", "math", "16-bit arithmetic with unit tests", {
+    "main.s": ADD_SUB,
+    "math.test": ADD_SUB_TESTS,
+  }),
+  example("multiply", "Multiply", "math", "8 x 8 bit shift-and-add multiplication", {
+    "main.s": MULTIPLY,
+  }),
+  example(
+    "timer-irq",
+    "Timer interrupt",
+    "interrupts",
+    "A VIA timer drives an IRQ handler",
+    { "main.s": TIMER_IRQ },
+    {
+      peripherals: [
+        { kind: "via", address: 0x6000 },
+        { kind: "leds", address: 0x6100 },
+      ],
+    },
+  ),
+  example(
+    "pixels",
+    "Toggle pixels",
+    "graphics",
+    "Plots and blinks pixels on a framebuffer",
+    { "main.s": PIXELS },
+    { peripherals: [{ kind: "framebuffer", address: 0x7000, width: 32, height: 32 }] },
+  ),
+];
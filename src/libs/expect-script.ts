@@ -0,0 +1,224 @@
+// Expect/send scripts for repeatable terminal sessions. One command per
+// line; `#` starts a comment line:
+//
+//   expect READY>       wait until the text has been received
+//   send RUN\n          send text; \n \r \t \\ and \xNN are escapes
+//   sendline RUN        send text followed by a carriage return
+//   sleep 500           wait 500 ms
+//   timeout 10000       how long later `expect`s wait, in ms (default 5000)
+//
+// `expect` only matches text received after the previous match, so the
+// same prompt can be waited for again.
+
+export type ScriptStep =
+  | { type: "expect"; text: string; line: number }
+  | { type: "send"; text: string; line: number }
+  | { type: "sleep"; ms: number; line: number }
+  | { type: "timeout"; ms: number; line: number };
+
+export const DEFAULT_EXPECT_TIMEOUT_MS = 5000;
+
+export class ScriptError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = "ScriptError";
+  }
+}
+
+// Shared with the test files of `program-tests.ts`
+export function unescapeText(text: string): string {
+  return text.replace(/\\(x[0-9A-Fa-f]{2}|.)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case "n":
+        return "\n";
+      case "r":
+        return "\r";
+      case "t":
+        return "\t";
+      case "\\":
+        return "\\";
+      case "x":
+        return String.fromCharCode(parseInt(escape.slice(1), 16));
+      default:
+        throw new SyntaxError(`Unknown escape \\${escape}`);
+    }
+  });
+}
+
+export function parseScript(source: string): ScriptStep[] {
+  const steps: ScriptStep[] = [];
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const text = raw.trim();
+    if (text === "" || text.startsWith("#")) return;
+    const [, command, rest = ""] = /^(\S+)\s?(.*)$/.exec(text)!;
+    const number = () => {
+      const value = Number(rest.trim());
+      if (!Number.isInteger(value) || value < 0) {
+        throw new ScriptError(`${command} needs a number of milliseconds`, line);
+      }
+      return value;
+    };
+    const unescape = (value: string) => {
+      try {
+        return unescapeText(value);
+      } catch (error) {
+        throw new ScriptError((error as Error).message, line);
+      }
+    };
+    switch (command.toLowerCase()) {
+      case "expect":
+        if (rest === "") throw new ScriptError("expect needs the text to wait for", line);
+        steps.push({ type: "expect", text: unescape(rest), line });
+        break;
+      case "send":
+        steps.push({ type: "send", text: unescape(rest), line });
+        break;
+      case "sendline":
+        steps.push({ type: "send", text: unescape(rest) + "\r", line });
+        break;
+      case "sleep":
+        steps.push({ type: "sleep", ms: number(), line });
+        break;
+      case "timeout":
+        steps.push({ type: "timeout", ms: number(), line });
+        break;
+      default:
+        throw new ScriptError(`Unknown command: ${command}`, line);
+    }
+  });
+  return steps;
+}
+
+export interface ScriptIo {
+  send(text: string): Promise<void>;
+  // Returns a function that removes the listener again
+  onData(listener: (data: Uint8Array) => void): () => void;
+}
+
+const abortError = () => new DOMException("Script stopped", "AbortError");
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", stop);
+      resolve();
+    }, ms);
+    const stop = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", stop, { once: true });
+  });
+
+export async function runScript(
+  steps: ScriptStep[],
+  io: ScriptIo,
+  options: { signal?: AbortSignal; onStep?: (step: ScriptStep) => void } = {},
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let received = "";
+  // Set while waiting for data
+  let wake: (() => void) | null = null;
+  const removeListener = io.onData((data) => {
+    received += decoder.decode(data, { stream: true });
+    wake?.();
+  });
+
+  // Resolves when data arrives or after `ms`, whichever is first
+  const waitForData = (ms: number) =>
+    new Promise<void>((resolve, reject) => {
+      const done = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", stop);
+        wake = null;
+      };
+      const timer = setTimeout(() => {
+        done();
+        resolve();
+      }, ms);
+      const stop = () => {
+        done();
+        reject(abortError());
+      };
+      wake = () => {
+        done();
+        resolve();
+      };
+      if (options.signal?.aborted) {
+        stop();
+      } else {
+        options.signal?.addEventListener("abort", stop, { once: true });
+      }
+    });
+
+  const expect = async (text: string, timeoutMs: number, line: number) => {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const index = received.indexOf(text);
+      if (index >= 0) {
+        received = received.slice(index + text.length);
+        return;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new ScriptError(`Timed out waiting for "${text}"`, line);
+      }
+      await waitForData(remaining);
+    }
+  };
+
+  let timeoutMs = DEFAULT_EXPECT_TIMEOUT_MS;
+  try {
+    for (const step of steps) {
+      if (options.signal?.aborted) throw abortError();
+      options.onStep?.(step);
+      switch (step.type) {
+        case "expect":
+          await expect(step.text, timeoutMs, step.line);
+          break;
+        case "send":
+          await io.send(step.text);
+          break;
+        case "sleep":
+          await sleep(step.ms, options.signal);
+          break;
+        case "timeout":
+          timeoutMs = step.ms;
+          break;
+      }
+    }
+  } finally {
+    removeListener();
+  }
+}
+
+// Sends bytes one at a time with a pause between them, for boards that
+// cannot keep up with a whole file at once
+export async function sendPaced(
+  send: (data: Uint8Array) => Promise<void>,
+  bytes: Uint8Array,
+  delayMs: number,
+  options: { signal?: AbortSignal; onProgress?: (sent: number) => void } = {},
+): Promise<void> {
+  if (delayMs <= 0) {
+    await send(bytes);
+    options.onProgress?.(bytes.length);
+    return;
+  }
+  for (let i = 0; i < bytes.length; i++) {
+    if (options.signal?.aborted) throw abortError();
+    await send(bytes.subarray(i, i + 1));
+    options.onProgress?.(i + 1);
+    if (i < bytes.length - 1) {
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
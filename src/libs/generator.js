@@ -1,16 +1,138 @@
-import { parse } from "./parser.js";
-import { Opcodes } from "./opcodes.js";
+import { parse, SyntaxError } from "./parser.js";
+import { CPU_TYPES, DEFAULT_CPU, opcodeTable } from "./opcodes.js";
+
+// Syntax errors reported before giving up on the rest of the file
+const MAX_SYNTAX_ERRORS = 50;
+// Limits runaway recursive macros and includes
+const MAX_EXPANSION_DEPTH = 64;
+const MAX_REPEAT_COUNT = 0x10000;
+// Pass 1 is repeated while segments move, e.g. after `.align`
+const MAX_LAYOUT_PASSES = 4;
+
+// Name given to the assembled source when the caller does not name it
+export const DEFAULT_FILE_NAME = "main.s";
+
+// Directives that open a block and the directive that closes it
+const BLOCK_ENDS = { ".macro": ".endm", ".rept": ".endr" };
+const CONDITIONAL_DIRECTIVES = new Set([".if", ".ifdef", ".ifndef", ".elseif", ".else", ".endif"]);
 
 let globalEnv = {};
 export let labels = {};
 let PC = 0;
-let PCSet = false;
 let enumSaveAdr = 0;
 let pass = 1;
 
 let localLabels = {};
 let currentLabel = null;
 
+// Symbol definitions currently being evaluated, to catch circular ones
+let resolvingSymbols = new Set();
+// Address of the node being assembled, the value of `*` in expressions
+let nodeAddress = 0;
+// Instructions, by position in assembly order, whose operand was still
+// unknown in pass 1
+let forwardReferences = new Set();
+let instructionIndex = 0;
+
+// Project files available to .include and .incbin, by name
+let files = {};
+let mainFile = DEFAULT_FILE_NAME;
+// Included files are parsed once and shared by both passes
+let includedPrograms = new Map();
+let includeStack = [];
+let macros = {};
+// Symbols and labels defined so far in this pass, for .ifdef
+let definedSymbols = new Set();
+let expansionCount = 0;
+let expansionDepth = 0;
+// Outermost macro call being expanded; its line gets the macro's bytes
+let macroCallSite = null;
+
+// CPU selected by the caller, and the one in effect after any `.cpu`.
+// `Opcodes` is that CPU's table.
+let defaultCpu = DEFAULT_CPU;
+let cpu = DEFAULT_CPU;
+let Opcodes = opcodeTable(DEFAULT_CPU);
+
+let diagnostics = [];
+// Per-line record of the address and bytes each source line produced
+let sourceMap = [];
+// Runs of consecutive bytes with the address they are loaded at
+let blocks = [];
+// The node being assembled, used to locate diagnostics
+let currentNode = null;
+
+// Regions of memory and the segments placed in them, from the caller
+let memoryMap = null;
+// Where each segment starts, from the sizes its region's earlier segments
+// had in the last pass
+let segmentBases = {};
+// Segments selected in this pass: their PC when not selected, their size
+// and the `.segment` that first selected them
+let segments = {};
+// null while code is placed by .org
+let currentSegment = null;
+
+function report(severity, message, loc = currentNode && currentNode.loc, source = "assembler") {
+  const start = loc ? loc.start : { line: 1, column: 1 };
+  const end = loc ? loc.end : start;
+  diagnostics.push({
+    severity,
+    message,
+    file: (loc && loc.source) || mainFile,
+    startLine: start.line,
+    startColumn: start.column,
+    endLine: end.line,
+    endColumn: end.column,
+    source,
+  });
+}
+
+// Symbols can only be missing once every label has been seen
+function reportUnresolved(value) {
+  if (pass !== 2) {
+    return;
+  }
+  const names = [...new Set(undefinedSymbols(value))];
+  if (names.length > 0) {
+    report("error", "Undefined symbol: " + names.join(", "));
+  } else if (divisionByZero(value)) {
+    report("error", "Division by zero in expression");
+  } else {
+    report("error", "Expression cannot be evaluated");
+  }
+}
+
+function undefinedSymbols(arg) {
+  if (typeof arg === "string") {
+    return resolveSymbol(arg) === undefined ? [arg] : [];
+  }
+  if (typeof arg !== "object" || arg === null || !arg.expression) {
+    return [];
+  }
+  const { left, right, operand } = arg.expression;
+  return [left, right, operand].flatMap(undefinedSymbols);
+}
+
+function divisionByZero(arg) {
+  if (typeof arg !== "object" || arg === null || !arg.expression) {
+    return false;
+  }
+  const { operator, left, right, operand } = arg.expression;
+  return (
+    (operator === "/" && evaluate(right) === 0) ||
+    [left, right, operand].some(divisionByZero)
+  );
+}
+
+// Operands that must fit in a byte; negative values are two's complement
+function checkByte(value, what) {
+  if ((value < -128 || value > 255) && pass === 2) {
+    report("error", `${what} out of range: ${value} (must be -128 to 255)`);
+  }
+  return value & 0xff;
+}
+
 function isSymbolDef(node) {
   return (
     Object.hasOwn(node, "expression") &&
@@ -31,64 +153,41 @@ function isDirective(node) {
   return Object.hasOwn(node, "directive");
 }
 
+function isMacroCall(node) {
+  return Object.hasOwn(node, "macro");
+}
+
+function isConditional(node) {
+  return isDirective(node) && CONDITIONAL_DIRECTIVES.has(node.directive);
+}
+
 function generateDirective(node) {
   switch (node.directive) {
     case ".byte":
       let bytes = [];
-      let totalBytesGenerated = 0; // Use a separate counter for PC increment
-      for (var i = 0; i < node.args.length; i++) {
-        const arg = node.args[i]; // Get the original argument from the parser node
-
-        if (typeof arg === "string") {
-          // It's a string. Is it a symbol/label or a string literal?
-          // Try resolving it first.
-          const resolvedValue = resolveArg(arg);
-
-          // If resolveArg returns the original string, it's likely a literal
-          // or an unresolved symbol. We'll assume literals for .byte here.
-          // A more robust parser would explicitly tag literals vs symbols.
-          if (resolvedValue === arg) {
-            // Assume it's a string literal. Iterate through its characters.
-            // Basic quote stripping (if parser includes them - adjust if needed)
-            let literalContent = arg;
-            if (literalContent.length >= 2 && ((literalContent.startsWith('"') && literalContent.endsWith('"')) || (literalContent.startsWith("'") && literalContent.endsWith("'")))) {
-               literalContent = literalContent.substring(1, literalContent.length - 1);
-            }
-
-            for (let j = 0; j < literalContent.length; j++) {
-              bytes.push(literalContent.charCodeAt(j)); // Push ASCII code
-              totalBytesGenerated++;
-            }
-          } else if (typeof resolvedValue === 'number') {
-             // It was a symbol/label that resolved to a number
-             bytes.push(resolvedValue & 0xFF); // Ensure it's a byte
-             totalBytesGenerated++;
-          } else {
-             // Unresolved symbol/label in pass 2, or other issue
-             bytes.push(null); // Keep null placeholder for unresolved symbols
-             totalBytesGenerated++;
+      for (const arg of node.args) {
+        if (typeof arg === "object" && arg !== null && Object.hasOwn(arg, "string")) {
+          for (let j = 0; j < arg.string.length; j++) {
+            bytes.push(arg.string.charCodeAt(j) & 0xff);
           }
-
+          continue;
+        }
+        const val = resolveArg(arg);
+        if (typeof val === "number") {
+          bytes.push(checkByte(val, "Byte value"));
         } else {
-          // Argument is likely a number or an expression object
-          const val = resolveArg(arg); // Resolve numbers, expressions
-          if (typeof val === 'number') {
-               bytes.push(val & 0xFF); // Ensure it's a byte
-               totalBytesGenerated++;
-          } else {
-              // Unresolved expression or other non-numeric result
-              bytes.push(null);
-              totalBytesGenerated++;
-          }
+          reportUnresolved(val);
+          bytes.push(null);
         }
       }
-      PC += totalBytesGenerated; // Update PC based on actual bytes generated
+      PC += bytes.length;
       return bytes;
     case ".word":
       let words = [];
       for (var i = 0; i < node.args.length; i++) {
         const val = resolveArg(node.args[i]);
-        if (typeof val === "string") {
+        if (typeof val !== "number") {
+          reportUnresolved(val);
           words.push(null, null);
         } else {
           words.push(val & 0xff, (val >> 8) & 0xff);
@@ -98,38 +197,184 @@ function generateDirective(node) {
       PC += node.args.length * 2;
       return words;
     case ".enum":
-      enumSaveAdr = PC;
-      PC = node.args[0];
+      const enumAddress = layoutValue(node);
+      if (enumAddress !== undefined) {
+        enumSaveAdr = PC;
+        PC = enumAddress;
+      }
       break;
     case ".org":
-      if (PCSet === false) {
-        PC = node.args[0];
-        PCSet = true;
+      const origin = layoutValue(node);
+      if (origin === undefined) {
         break;
-      } else {
-        const currentPC = PC;
-        PC = node.args[0];
-        //console.log(node.args[0])
-        //console.log(new Array(node.args[0] - currentPC).fill(0))
-        return new Array(node.args[0] - currentPC).fill(0);
       }
+      // Starts a new block; overlapping an earlier one is an error
+      leaveSegment();
+      PC = origin;
+      break;
+    case ".segment":
+      const segmentName = String(node.args[0]?.string ?? node.args[0] ?? "");
+      if (!memoryMap || !memoryMap.segments.some((segment) => segment.name === segmentName)) {
+        if (pass === 1) {
+          report(
+            "error",
+            memoryMap
+              ? `Unknown segment: ${segmentName || "(none)"}. Expected ${memoryMap.segments.map((segment) => segment.name).join(", ")}`
+              : ".segment needs a memory map"
+          );
+        }
+        break;
+      }
+      leaveSegment();
+      if (!Object.hasOwn(segments, segmentName)) {
+        segments[segmentName] = { pc: segmentBases[segmentName], size: 0, loc: node.loc };
+      }
+      currentSegment = segmentName;
+      PC = segments[segmentName].pc;
+      break;
     case ".align":
-      const padding = new Array((PC % node.args[0]) - PC).fill(0);
+      const alignment = layoutValue(node);
+      if (alignment === undefined || alignment <= 0) {
+        break;
+      }
+      const padding = new Array((alignment - (PC % alignment)) % alignment).fill(0);
       PC += padding.length;
       return padding;
     case ".ende":
       PC = enumSaveAdr;
       break;
     case ".dsb":
-      PC += node.args[0];
+      const size = layoutValue(node);
+      if (size !== undefined) {
+        PC += size;
+      }
+      break;
+    case ".incbin":
+      const name = fileArgument(node);
+      const content = name === undefined ? undefined : readFile(name);
+      if (content === undefined) {
+        break;
+      }
+      const data =
+        typeof content === "string"
+          ? Array.from(content, (char) => char.charCodeAt(0) & 0xff)
+          : Array.from(content);
+      PC += data.length;
+      return data;
+    case ".cpu":
+      const requested = String(node.args[0]?.string ?? node.args[0] ?? "").toLowerCase();
+      if (Object.hasOwn(CPU_TYPES, requested)) {
+        selectCpu(requested);
+      } else if (pass === 1) {
+        report("error", `Unknown CPU: ${requested || "(none)"}. Expected ${Object.keys(CPU_TYPES).join(", ")}`);
+      }
       break;
+    case ".endm":
+    case ".endr":
+      if (pass === 1) {
+        report("error", `${node.directive} without a matching block`);
+      }
+      break;
+    default:
+      if (pass === 1) {
+        report("warning", "Unsupported directive ignored: " + node.directive);
+      }
+  }
+}
+
+// Remembers where the current segment got to
+function leaveSegment() {
+  if (currentSegment === null) {
+    return;
   }
+  const segment = segments[currentSegment];
+  segment.pc = PC;
+  segment.size = Math.max(segment.size, PC - segmentBases[currentSegment]);
+  currentSegment = null;
+}
+
+// The segments of each region follow each other in the order of the map
+function layoutSegments() {
+  const bases = {};
+  for (const region of memoryMap?.regions ?? []) {
+    let address = region.start;
+    for (const placement of memoryMap.segments) {
+      if (placement.region === region.name) {
+        bases[placement.name] = address;
+        address += Object.hasOwn(segments, placement.name) ? segments[placement.name].size : 0;
+      }
+    }
+  }
+  return bases;
+}
+
+function checkSegmentsFit() {
+  for (const placement of memoryMap?.segments ?? []) {
+    const segment = segments[placement.name];
+    const region = memoryMap.regions.find((r) => r.name === placement.region);
+    if (!segment || !region) {
+      continue;
+    }
+    const start = segmentBases[placement.name];
+    const over = start + segment.size - (region.start + region.size);
+    if (over > 0) {
+      report(
+        "error",
+        `Segment ${placement.name} overflows ${region.name} by ${Math.min(over, segment.size)} byte(s)`,
+        segment.loc
+      );
+    }
+  }
+}
+
+// Segments used, in the order of the map
+function segmentInfo() {
+  return (memoryMap?.segments ?? [])
+    .filter((placement) => Object.hasOwn(segments, placement.name))
+    .map((placement) => ({
+      name: placement.name,
+      region: placement.region,
+      start: segmentBases[placement.name],
+      size: segments[placement.name].size,
+    }));
+}
+
+function selectCpu(name) {
+  cpu = name;
+  Opcodes = opcodeTable(name);
+}
+
+// Values that decide where code goes (.org, .dsb, ...) have to be known
+// in pass 1, so they cannot refer to labels further down
+function layoutValue(node) {
+  const value = resolveArg(node.args[0]);
+  if (typeof value === "number") {
+    return value;
+  }
+  if (pass === 1) {
+    const names = undefinedSymbols(value);
+    report(
+      "error",
+      names.length > 0
+        ? `${node.directive} needs a value defined before use: ${names.join(", ")}`
+        : `${node.directive} needs a numeric argument`
+    );
+  }
+  return undefined;
+}
+
+function defineSymbol(name, expression) {
+  definedSymbols.add(name);
+  const value = resolveArg(expression);
+  // Definitions that refer to later symbols are evaluated when used
+  globalEnv[name] = typeof value === "number" ? value : expression;
 }
 
 function assignLabel(node) {
   if (pass == 1 && Object.hasOwn(labels, node.label)) {
-    throw new Error("Duplicate label: " + node.label);
+    report("error", "Duplicate label: " + node.label);
   }
+  definedSymbols.add(node.label);
   labels[node.label] = PC;
 }
 
@@ -140,9 +385,25 @@ function assignLocalLabel(node) {
   localLabels[currentLabel][node.label] = PC;
 }
 
+// An operand that is still unknown in pass 1 is assumed to be a 16-bit
+// address. This is remembered by instruction position, since macro
+// expansions are rebuilt every pass, so that pass 2 gives the instruction
+// the same size even if the symbol turns out to be in the zero page.
+function isForwardReference(arg) {
+  if (pass === 1 && typeof resolveArg(arg) !== "number") {
+    forwardReferences.add(instructionIndex);
+  }
+  return forwardReferences.has(instructionIndex);
+}
+
 function isZeropage(instruction) {
   const value = resolveArg(instruction.arg);
-  return value >= 0 && value < 256;
+  return (
+    typeof value === "number" &&
+    value >= 0 &&
+    value < 256 &&
+    !isForwardReference(instruction.arg)
+  );
 }
 
 function isIndirectY(instruction) {
@@ -162,7 +423,8 @@ function isImmediate(instruction) {
 }
 
 function isAbsolute(instruction) {
-  if (instruction.mode === "indirect") {
+  // Immediate and indirect operands have their own modes
+  if (instruction.mode) {
     return false;
   }
   if (instruction.opcode.toUpperCase() === "JSR") {
@@ -171,8 +433,14 @@ function isAbsolute(instruction) {
   if (instruction.opcode.toUpperCase() === "JMP") {
     return true;
   }
+  if (Array.isArray(instruction.arg)) {
+    return false;
+  }
   let val = resolveArg(instruction.arg);
-  return typeof val === "number" && val > 255;
+  return (
+    isForwardReference(instruction.arg) ||
+    (typeof val === "number" && (val < 0 || val > 255))
+  );
 }
 
 function isImplied(instruction) {
@@ -203,10 +471,11 @@ function isImplied(instruction) {
     "php",
     "plp",
   ]);
+  // Accumulator mode, e.g. `asl a`, or `inc a` on the 65C02
   if (
-    instruction.arg !== null &&
-    instruction.opcode.toLowerCase() === "asl" &&
-    instruction.arg.toLowerCase() === "a"
+    typeof instruction.arg === "string" &&
+    instruction.arg.toLowerCase() === "a" &&
+    ["asl", "lsr", "rol", "ror", "inc", "dec"].includes(instruction.opcode.toLowerCase())
   ) {
     return true;
   }
@@ -224,6 +493,7 @@ function isBranch(instruction) {
     "bcs",
     "bne",
     "beq",
+    "bra",
   ]);
   return branch.has(instruction.opcode.toLowerCase());
 }
@@ -238,35 +508,111 @@ function isIndexed(instruction) {
   );
 }
 
-function evaluateExpression(exp) {
-  //console.log(exp)
-  const left = resolveLabel(exp.expression.left);
-  const right = resolveLabel(exp.expression.right);
-  if (typeof left === "string" || typeof right === "string") {
-    return exp;
+// Returns the value of an operand, or undefined while a symbol in it is
+// not yet known
+function evaluate(arg) {
+  if (typeof arg === "number") {
+    return arg;
+  }
+  if (typeof arg === "string") {
+    return resolveSymbol(arg);
+  }
+  if (typeof arg !== "object" || arg === null || Array.isArray(arg)) {
+    return undefined;
   }
-  if (exp.expression.operator === "+") {
-    return left + right;
+  if (arg.pc) {
+    return nodeAddress;
   }
-  return exp;
+  if (!arg.expression) {
+    return undefined;
+  }
+  const { operator } = arg.expression;
+  if (Object.hasOwn(arg.expression, "operand")) {
+    const operand = evaluate(arg.expression.operand);
+    if (operand === undefined) {
+      return undefined;
+    }
+    switch (operator) {
+      case "-":
+        return -operand;
+      case "~":
+        return ~operand;
+      case "!":
+        return operand === 0 ? 1 : 0;
+      case "<":
+        return operand & 0xff;
+      case ">":
+        return (operand >> 8) & 0xff;
+    }
+    return undefined;
+  }
+  const left = evaluate(arg.expression.left);
+  const right = evaluate(arg.expression.right);
+  if (left === undefined || right === undefined) {
+    return undefined;
+  }
+  switch (operator) {
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return right === 0 ? undefined : Math.trunc(left / right);
+    case "<<":
+      return left << right;
+    case ">>":
+      return left >> right;
+    case "&":
+      return left & right;
+    case "^":
+      return left ^ right;
+    case "|":
+      return left | right;
+    case "==":
+      return left === right ? 1 : 0;
+    case "!=":
+      return left !== right ? 1 : 0;
+    case "<":
+      return left < right ? 1 : 0;
+    case ">":
+      return left > right ? 1 : 0;
+    case "<=":
+      return left <= right ? 1 : 0;
+    case ">=":
+      return left >= right ? 1 : 0;
+    case "&&":
+      return left !== 0 && right !== 0 ? 1 : 0;
+    case "||":
+      return left !== 0 || right !== 0 ? 1 : 0;
+  }
+  return undefined;
 }
 
+// Evaluates an operand. Unresolved operands are returned unchanged so
+// that they can be reported in pass 2.
 function resolveArg(arg) {
   if (arg === null) {
     return null;
   }
-  if (typeof arg === "string") {
-    if (Object.hasOwn(globalEnv, arg)) {
-      return globalEnv[arg];
+  const value = evaluate(arg);
+  return value === undefined ? arg : value;
+}
+
+function resolveSymbol(name) {
+  if (Object.hasOwn(globalEnv, name)) {
+    const value = globalEnv[name];
+    if (typeof value === "number" || resolvingSymbols.has(name)) {
+      return typeof value === "number" ? value : undefined;
     }
-    return resolveLabel(arg);
-  }
-  if (typeof arg === "object" && !Array.isArray(arg)) {
-    return (arg = evaluateExpression(arg));
-  }
-  if (typeof arg === "number") {
-    return arg;
+    resolvingSymbols.add(name);
+    const result = evaluate(value);
+    resolvingSymbols.delete(name);
+    return result;
   }
+  const label = resolveLabel(name);
+  return typeof label === "number" ? label : undefined;
 }
 
 function resolveLabel(arg) {
@@ -282,6 +628,15 @@ function resolveLabel(arg) {
   }
 }
 
+// Looks up the opcode for an addressing mode column of the Opcodes table
+function opcodeFor(row, column, modeName) {
+  const opcode = row[column];
+  if ((opcode === null || opcode === undefined) && pass === 2) {
+    report("error", `Invalid addressing mode for ${row[0]}: ${modeName}`);
+  }
+  return opcode;
+}
+
 function generateInstruction(node) {
   //console.log(node)
   let mode, opcode, arg;
@@ -315,28 +670,36 @@ function generateInstruction(node) {
   if (isBranch(node.instruction)) {
     mode = "branch";
   }
+  if (node.instruction.mode === "zeropageRelative") {
+    mode = "zeropageRelative";
+  }
   //console.log(node, "mode: " + mode)
   for (var o = 0; o < Opcodes.length; o++) {
     if (Opcodes[o][0] === node.instruction.opcode.toUpperCase()) {
       switch (mode) {
         case "immediate":
-          opcode = Opcodes[o][1];
+          opcode = opcodeFor(Opcodes[o], 1, "immediate");
           arg = resolveArg(node.instruction.arg);
           PC += 2;
-          return typeof arg === "string" ? node : [opcode, arg];
+          if (typeof arg !== "number") {
+            reportUnresolved(arg);
+            return [opcode, null];
+          }
+          return [opcode, checkByte(arg, "Immediate value")];
         case "zeropage":
-          opcode = Opcodes[o][2];
+          opcode = opcodeFor(Opcodes[o], 2, "zero page");
           arg = resolveArg(node.instruction.arg);
           PC += 2;
           return [opcode, arg];
         case "absolute":
-          opcode = Opcodes[o][5];
+          opcode = opcodeFor(Opcodes[o], 5, "absolute");
           arg = resolveArg(node.instruction.arg);
           //console.log(arg)
           PC += 3;
           // If label is unresolved, we can partially assemble it
           // because we know it is a 16-bit address.
           if (typeof arg === "string" || typeof arg === "object") {
+            reportUnresolved(arg);
             return [opcode, null, null];
           } else {
             return [opcode, arg & 0xff, (arg >> 8) & 0xff];
@@ -346,52 +709,119 @@ function generateInstruction(node) {
           //console.log(node.instruction.arg)
           const arg1 = resolveArg(node.instruction.arg[0]);
           const arg2 = node.instruction.arg[1];
-          if (typeof arg1 === "string") {
+          // STX zp,y and STY zp,x have no absolute form to fall back to,
+          // and LDA/STA/... abs,y have no zero page form
+          const zeropageOnly = Opcodes[o][arg2 === "x" ? 6 : 7] === null;
+          const absoluteOnly = Opcodes[o][arg2 === "x" ? 3 : 4] === null;
+          const forward = isForwardReference(node.instruction.arg[0]);
+          if (typeof arg1 !== "number" && zeropageOnly) {
+            reportUnresolved(arg1);
+            PC += 2;
+            return [
+              arg2 === "x"
+                ? opcodeFor(Opcodes[o], 3, "zero page,x")
+                : opcodeFor(Opcodes[o], 4, "zero page,y"),
+              null,
+            ];
+          } else if (typeof arg1 !== "number") {
+            reportUnresolved(arg1);
             PC += 3;
-            return node;
+            return [
+              arg2 === "x"
+                ? opcodeFor(Opcodes[o], 6, "absolute,x")
+                : opcodeFor(Opcodes[o], 7, "absolute,y"),
+              null,
+              null,
+            ];
           } else {
-            if (arg1 >= 0 && arg1 < 256) {
+            if ((arg1 >= 0 && arg1 < 256 && !forward && !absoluteOnly) || zeropageOnly) {
               // zero page x or y
               PC += 2;
               return [
-                arg2 === "x" ? (Opcodes[o][3], arg1) : (Opcodes[o][4], arg1),
+                arg2 === "x"
+                  ? opcodeFor(Opcodes[o], 3, "zero page,x")
+                  : opcodeFor(Opcodes[o], 4, "zero page,y"),
+                checkByte(arg1, "Zero page address"),
               ];
             } else {
               // absolute x or y
               PC += 3;
               if (arg2 === "x") {
-                return [Opcodes[o][6], arg1 & 0xff, (arg1 >> 8) & 0xff];
+                return [opcodeFor(Opcodes[o], 6, "absolute,x"), arg1 & 0xff, (arg1 >> 8) & 0xff];
               } else {
                 //console.log(arg1)
-                return [Opcodes[o][7], arg1 & 0xff, (arg1 >> 8) & 0xff];
+                return [opcodeFor(Opcodes[o], 7, "absolute,y"), arg1 & 0xff, (arg1 >> 8) & 0xff];
               }
             }
           }
           break;
         case "indirect":
+          // The 65C02 (zp) mode, for instructions without (abs)
+          if (Opcodes[o][8] === null && Opcodes[o][13] !== null) {
+            PC += 2;
+            arg = resolveArg(node.instruction.arg);
+            if (typeof arg !== "number") {
+              reportUnresolved(arg);
+              return [Opcodes[o][13], null];
+            }
+            return [Opcodes[o][13], checkByte(arg, "Zero page address")];
+          }
           PC += 3;
           arg = resolveArg(node.instruction.arg);
+          if (typeof arg !== "number") {
+            reportUnresolved(arg);
+            return [opcodeFor(Opcodes[o], 8, "indirect"), null, null];
+          }
           const arg_lo = arg & 0xff;
           const arg_hi = (arg >> 8) & 0xff;
-          return [Opcodes[o][8], arg_lo, arg_hi];
+          return [opcodeFor(Opcodes[o], 8, "indirect"), arg_lo, arg_hi];
           break;
         case "indirectX":
+          // The 65C02 `jmp (abs,x)`
+          if (Opcodes[o][9] === null && Opcodes[o][14] !== null) {
+            PC += 3;
+            arg = resolveArg(node.instruction.arg);
+            if (typeof arg !== "number") {
+              reportUnresolved(arg);
+              return [Opcodes[o][14], null, null];
+            }
+            return [Opcodes[o][14], arg & 0xff, (arg >> 8) & 0xff];
+          }
           PC += 2;
-          return [Opcodes[o][9], resolveArg(node.instruction.arg)];
+          arg = resolveArg(node.instruction.arg);
+          if (typeof arg !== "number") {
+            reportUnresolved(arg);
+            return [opcodeFor(Opcodes[o], 9, "(indirect,x)"), null];
+          }
+          return [opcodeFor(Opcodes[o], 9, "(indirect,x)"), checkByte(arg, "Zero page address")];
           break;
         case "indirectY":
           //console.log(node.instruction.arg)
           PC += 2;
-          return [Opcodes[o][10], resolveArg(node.instruction.arg)];
+          arg = resolveArg(node.instruction.arg);
+          if (typeof arg !== "number") {
+            reportUnresolved(arg);
+            return [opcodeFor(Opcodes[o], 10, "(indirect),y"), null];
+          }
+          return [opcodeFor(Opcodes[o], 10, "(indirect),y"), checkByte(arg, "Zero page address")];
           break;
         case "implied":
-          opcode = Opcodes[o][11];
+          opcode = opcodeFor(Opcodes[o], 11, "implied");
           PC++;
           return [opcode];
         case "branch":
-          opcode = Opcodes[o][12];
+          opcode = opcodeFor(Opcodes[o], 12, "relative");
           arg = resolveArg(node.instruction.arg);
           PC++;
+          if (typeof arg !== "number") {
+            reportUnresolved(arg);
+            PC++;
+            return [opcode, null];
+          }
+          const offset = arg - (PC + 1);
+          if ((offset < -128 || offset > 127) && pass === 2) {
+            report("error", `Branch target out of range (${offset} bytes, must be -128 to 127)`);
+          }
           let val;
           if (arg < PC) {
             // Backwards?
@@ -401,27 +831,102 @@ function generateInstruction(node) {
           }
           PC++;
           return [opcode, val];
+        case "zeropageRelative": {
+          opcode = opcodeFor(Opcodes[o], 15, "zero page,relative");
+          const address = resolveArg(node.instruction.arg[0]);
+          const target = resolveArg(node.instruction.arg[1]);
+          PC += 3;
+          const zp = typeof address === "number" ? checkByte(address, "Zero page address") : null;
+          if (typeof address !== "number") {
+            reportUnresolved(address);
+          }
+          if (typeof target !== "number") {
+            reportUnresolved(target);
+            return [opcode, zp, null];
+          }
+          const distance = target - PC;
+          if ((distance < -128 || distance > 127) && pass === 2) {
+            report("error", `Branch target out of range (${distance} bytes, must be -128 to 127)`);
+          }
+          return [opcode, zp, distance & 0xff];
+        }
         default:
-          return node;
+          if (pass === 2) {
+            if (typeof arg === "number") {
+              report("error", "Invalid addressing mode for " + Opcodes[o][0]);
+            } else {
+              reportUnresolved(arg);
+            }
+          }
+          return [];
       }
     }
   }
+  if (pass === 2) {
+    const name = node.instruction.opcode.toUpperCase();
+    const other = Object.keys(CPU_TYPES).find((type) => opcodeTable(type).some((row) => row[0] === name));
+    report(
+      "error",
+      other
+        ? `${name} is not available on the ${CPU_TYPES[cpu]}; select another CPU with .cpu ${other}`
+        : "Unsupported instruction: " + name,
+    );
+  }
+  return [];
 }
 
-// The global `labels` object will be modified,
-// and the returned AST will have instructions
-// converted to bytecode when possible
+// Assembles a list of nodes. Macros, repeats, includes and conditional
+// blocks are expanded as they are reached. The global `labels` object
+// will be modified, and the returned list holds the bytecode of every node.
 function process(code) {
   let result = [];
+  const conditions = [];
   for (var i = 0; i < code.length; i++) {
+    currentNode = code[i];
+    if (isConditional(code[i])) {
+      updateConditions(conditions, code[i]);
+      continue;
+    }
+    if (!conditions.every((condition) => condition.active)) {
+      continue;
+    }
+    if (isDirective(code[i]) && Object.hasOwn(BLOCK_ENDS, code[i].directive)) {
+      const end = findBlockEnd(code, i);
+      if (end === -1) {
+        if (pass === 1) {
+          report("error", `Missing ${BLOCK_ENDS[code[i].directive]} for ${code[i].directive}`);
+        }
+        break;
+      }
+      const body = code.slice(i + 1, end);
+      if (code[i].directive === ".macro") {
+        defineMacro(code[i], body);
+      } else {
+        result.push(...repeat(code[i], body));
+      }
+      i = end;
+      continue;
+    }
+    if (isDirective(code[i]) && code[i].directive === ".include") {
+      result.push(...includeFile(code[i]));
+      continue;
+    }
+    if (isMacroCall(code[i])) {
+      result.push(...expandMacro(code[i]));
+      continue;
+    }
+
+    const address = PC;
+    nodeAddress = PC;
+    let output;
     if (isDirective(code[i])) {
-      const output = generateDirective(code[i]);
+      output = generateDirective(code[i]);
       if (typeof output !== "undefined") {
         result.push(output);
       }
     }
     if (isSymbolDef(code[i])) {
-      globalEnv[code[i].expression.left] = code[i].expression.right;
+      defineSymbol(code[i].expression.left, code[i].expression.right);
     }
     if (isLabel(code[i])) {
       if (code[i].label[0] === "@") {
@@ -432,26 +937,357 @@ function process(code) {
       }
     }
     if (isInstruction(code[i])) {
-      const instruction = generateInstruction(code[i]);
-      //console.log(instruction)
-      result.push(instruction);
+      output = generateInstruction(code[i]);
+      instructionIndex++;
+      result.push(output);
+    }
+    if (pass === 2 && output) {
+      recordBlock(address, output.flat());
+    }
+    if (pass === 2 && code[i].loc && !isSymbolDef(code[i])) {
+      const loc = (macroCallSite || code[i]).loc;
+      recordSourceLine(loc.source || mainFile, loc.start.line, address, output || []);
     }
   }
+  if (conditions.length > 0 && pass === 1) {
+    report("error", `Missing .endif for ${conditions[0].node.directive}`, conditions[0].node.loc);
+  }
   return result;
 }
 
-function gen1(code) {
-  PC = 0;
-  PCSet = false;
-  const ast = parse(code);
+// Lines that emit nothing (labels, .org) are mapped to the current PC
+function recordSourceLine(file, line, address, bytes) {
+  bytes = bytes.flat();
+  const last = sourceMap[sourceMap.length - 1];
+  if (last && last.file === file && last.line === line) {
+    if (last.bytes.length === 0) {
+      last.address = address;
+    }
+    last.bytes.push(...bytes);
+    return;
+  }
+  sourceMap.push({ file: file, line: line, address: bytes.length > 0 ? address : PC, bytes: bytes });
+}
+
+function recordBlock(address, bytes) {
+  if (bytes.length === 0) {
+    return;
+  }
+  const end = address + bytes.length;
+  const earlier = blocks.find((block) => address < block.address + block.bytes.length && end > block.address);
+  if (earlier) {
+    report("error", `Overwrites bytes already assembled at $${Math.max(address, earlier.address).toString(16).toUpperCase()}`);
+  }
+  const last = blocks[blocks.length - 1];
+  if (last && last.address + last.bytes.length === address) {
+    last.bytes.push(...bytes);
+  } else {
+    blocks.push({ address: address, bytes: bytes });
+  }
+}
+
+// Tracks .if/.elseif/.else/.endif. Each open block records whether its
+// current branch is assembled and whether an earlier branch already was.
+function updateConditions(conditions, node) {
+  const top = conditions[conditions.length - 1];
+  switch (node.directive) {
+    case ".if":
+    case ".ifdef":
+    case ".ifndef":
+      const enclosingActive = conditions.every((condition) => condition.active);
+      const active = enclosingActive && testCondition(node);
+      conditions.push({ node: node, active: active, taken: active || !enclosingActive, hasElse: false });
+      break;
+    case ".elseif":
+    case ".else":
+      if (!top || top.hasElse) {
+        if (pass === 1) {
+          report("error", `${node.directive} without a matching .if`);
+        }
+        break;
+      }
+      top.hasElse = node.directive === ".else";
+      top.active = !top.taken && (top.hasElse || testCondition(node));
+      top.taken = top.taken || top.active;
+      break;
+    case ".endif":
+      if (!top) {
+        if (pass === 1) {
+          report("error", ".endif without a matching .if");
+        }
+        break;
+      }
+      conditions.pop();
+      break;
+  }
+}
+
+// `.ifdef` only sees symbols defined above it, so that both passes agree
+function testCondition(node) {
+  if (node.directive === ".ifdef" || node.directive === ".ifndef") {
+    const name = node.args[0];
+    if (typeof name !== "string") {
+      if (pass === 1) {
+        report("error", `${node.directive} needs a symbol name`);
+      }
+      return false;
+    }
+    return definedSymbols.has(name) === (node.directive === ".ifdef");
+  }
+  const value = layoutValue(node);
+  return value !== undefined && value !== 0;
+}
+
+// Index of the directive closing the block opened at `start`, or -1
+function findBlockEnd(code, start) {
+  const open = code[start].directive;
+  let depth = 0;
+  for (let i = start + 1; i < code.length; i++) {
+    if (!isDirective(code[i])) {
+      continue;
+    }
+    if (code[i].directive === open) {
+      depth++;
+    } else if (code[i].directive === BLOCK_ENDS[open]) {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    }
+  }
+  return -1;
+}
+
+function defineMacro(node, body) {
+  const [name, ...params] = node.args;
+  if (pass === 1 && Object.hasOwn(macros, name)) {
+    report("error", "Duplicate macro: " + name);
+  }
+  macros[name] = { params: params, body: body };
+}
+
+function expandMacro(node) {
+  if (!Object.hasOwn(macros, node.macro)) {
+    if (pass === 2) {
+      report("error", "Unknown instruction or macro: " + node.macro);
+    }
+    return [];
+  }
+  const macro = macros[node.macro];
+  if (node.args.length !== macro.params.length && pass === 2) {
+    report(
+      "error",
+      `Macro ${node.macro} expects ${macro.params.length} argument(s), got ${node.args.length}`
+    );
+  }
+  const bindings = localLabelBindings(macro.body);
+  macro.params.forEach((param, index) => {
+    if (index < node.args.length) {
+      bindings[param] = node.args[index];
+    }
+  });
+  return expand(
+    macro.body.map((bodyNode) => substituteNode(bodyNode, bindings)),
+    node
+  );
+}
+
+function repeat(node, body) {
+  const count = layoutValue(node);
+  if (count === undefined) {
+    return [];
+  }
+  if (count < 0 || count > MAX_REPEAT_COUNT) {
+    if (pass === 1) {
+      report("error", `.rept count out of range: ${count}`);
+    }
+    return [];
+  }
   let result = [];
-  for (var i = 0; i < ast.length; i++) {
-    result.push(process(ast[i]));
+  for (let n = 0; n < count; n++) {
+    const bindings = localLabelBindings(body);
+    result.push(...expand(body.map((bodyNode) => substituteNode(bodyNode, bindings))));
+  }
+  return result;
+}
+
+function includeFile(node) {
+  const name = fileArgument(node);
+  if (name === undefined) {
+    return [];
+  }
+  if (includeStack.includes(name)) {
+    if (pass === 1) {
+      report("error", "Recursive include: " + name);
+    }
+    return [];
+  }
+  if (!includedPrograms.has(name)) {
+    const content = readFile(name);
+    const text =
+      content === undefined || typeof content === "string"
+        ? content
+        : new TextDecoder().decode(content);
+    includedPrograms.set(
+      name,
+      text === undefined ? null : parseProgram(text.replace(/\r\n?/g, "\n"), name).flat()
+    );
+  }
+  const program = includedPrograms.get(name);
+  if (program === null) {
+    return [];
+  }
+  includeStack.push(name);
+  try {
+    return expand(program);
+  } finally {
+    includeStack.pop();
+  }
+}
+
+// Assembles nodes from a macro, .rept body or included file. Bytes from a
+// macro are attributed to the line that called it.
+function expand(nodes, callSite = null) {
+  if (expansionDepth >= MAX_EXPANSION_DEPTH) {
+    if (pass === 1) {
+      report("error", "Macros or includes nested too deeply");
+    }
+    return [];
+  }
+  const outerCallSite = macroCallSite;
+  macroCallSite = macroCallSite || callSite;
+  expansionDepth++;
+  try {
+    return process(nodes);
+  } finally {
+    expansionDepth--;
+    macroCallSite = outerCallSite;
+  }
+}
+
+// Gives the `@` labels of a macro or .rept body a name of their own for
+// every expansion, so that the body can be used more than once
+function localLabelBindings(body) {
+  expansionCount++;
+  const bindings = {};
+  for (const node of body) {
+    if (isLabel(node) && node.label[0] === "@") {
+      bindings[node.label] = `${node.label}_${expansionCount}`;
+    }
+  }
+  return bindings;
+}
+
+// Copies a node, replacing names bound to macro arguments or renamed labels
+function substituteNode(node, bindings) {
+  if (isInstruction(node)) {
+    return { ...node, instruction: { ...node.instruction, arg: substituteArg(node.instruction.arg, bindings) } };
+  }
+  if (isDirective(node) || isMacroCall(node)) {
+    return { ...node, args: node.args.map((arg) => substituteArg(arg, bindings)) };
+  }
+  if (isSymbolDef(node)) {
+    return { ...node, expression: { ...node.expression, right: substituteArg(node.expression.right, bindings) } };
+  }
+  if (isLabel(node) && Object.hasOwn(bindings, node.label)) {
+    return { ...node, label: bindings[node.label] };
+  }
+  return node;
+}
+
+function substituteArg(arg, bindings) {
+  if (typeof arg === "string") {
+    return Object.hasOwn(bindings, arg) ? bindings[arg] : arg;
+  }
+  if (Array.isArray(arg)) {
+    // Indexed operand: the register name is left alone
+    return [substituteArg(arg[0], bindings), arg[1]];
+  }
+  if (typeof arg === "object" && arg !== null && arg.expression) {
+    const expression = { ...arg.expression };
+    for (const key of ["left", "right", "operand"]) {
+      if (Object.hasOwn(expression, key)) {
+        expression[key] = substituteArg(expression[key], bindings);
+      }
+    }
+    return { expression: expression };
+  }
+  return arg;
+}
+
+// The quoted file name of .include and .incbin
+function fileArgument(node) {
+  const arg = node.args[0];
+  if (typeof arg === "object" && arg !== null && Object.hasOwn(arg, "string")) {
+    return arg.string.replace(/^\.\//, "");
+  }
+  if (pass === 1) {
+    report("error", `${node.directive} needs a file name in quotes`);
+  }
+  return undefined;
+}
+
+function readFile(name) {
+  if (Object.hasOwn(files, name)) {
+    return files[name];
+  }
+  if (pass === 1) {
+    report("error", "File not found: " + name);
+  }
+  return undefined;
+}
+
+// Parses the whole program, reporting every syntax error. Each failing line
+// is blanked out and parsing restarts, so later lines are still checked.
+function parseProgram(code, fileName) {
+  let lines = code.split("\n");
+  for (let attempt = 0; attempt < MAX_SYNTAX_ERRORS; attempt++) {
+    try {
+      return parse(lines.join("\n"), { grammarSource: fileName });
+    } catch (e) {
+      if (!(e instanceof SyntaxError)) {
+        throw e;
+      }
+      const message =
+        e.found === null
+          ? "Syntax error: unexpected end of input"
+          : e.found === "\n"
+            ? "Syntax error: unexpected end of line"
+            : `Syntax error: unexpected ${JSON.stringify(e.found)}`;
+      const line = e.location.start.line;
+      if (lines[line - 1] === "" && attempt > 0) {
+        // Nothing left to blank out, e.g. after an unterminated string
+        break;
+      }
+      report("error", message, {
+        source: fileName,
+        start: e.location.start,
+        end: { line, column: Math.max(lines[line - 1].length + 1, e.location.start.column + 1) },
+      }, "parser");
+      lines[line - 1] = "";
+    }
   }
+  return [];
+}
+
+function gen1(ast) {
+  PC = 0;
+  currentNode = null;
+  instructionIndex = 0;
+  selectCpu(defaultCpu);
+  macros = {};
+  definedSymbols = new Set();
+  expansionCount = 0;
+  segments = {};
+  currentSegment = null;
+  const result = process(ast.flat());
+  leaveSegment();
   return result;
 }
 
-function mesenLabels(labels, localLabels) {
+// Local labels also go in `labels`: as `@name`, or as `@scope_name` when
+// an earlier scope already has a label of that name
+function addLocalLabels(labels, localLabels) {
   for (const scope in localLabels) {
     for (const label in localLabels[scope]) {
       if (Object.hasOwn(labels, label)) {
@@ -461,32 +1297,69 @@ function mesenLabels(labels, localLabels) {
       }
     }
   }
-  let result = "";
-  for (const label in labels) {
-    if (labels[label] >= 0x8000) {
-      const val = labels[label] - 0x8000;
-      const adr = String(val.toString(16)).padStart(4, "0");
-      result += "NesPrgRom:" + adr + ":" + label + "\n";
-    } else {
-      const val = labels[label];
-      const adr = String(val.toString(16)).padStart(4, "0");
-      result += "NesInternalRam:" + adr + ":" + label + "\n";
+}
+
+// Values of the `name = value` symbols that resolve to a number
+function symbolValues() {
+  const values = {};
+  for (const name in globalEnv) {
+    const value = resolveSymbol(name);
+    if (typeof value === "number") {
+      values[name] = value;
     }
   }
-  return result;
+  return values;
 }
 
-export function generate(code) {
-  labels = {};
-  localLabels = {};
-  currentLabel = null;
+export function generate(code, options = {}) {
+  files = options.files || {};
+  mainFile = options.fileName || DEFAULT_FILE_NAME;
+  defaultCpu = Object.hasOwn(CPU_TYPES, options.cpu) ? options.cpu : DEFAULT_CPU;
+  memoryMap = options.memoryMap || null;
+  includedPrograms = new Map();
+  forwardReferences = new Set();
+  resolvingSymbols = new Set();
+  diagnostics = [];
+  sourceMap = [];
+  blocks = [];
+  segments = {};
+  segmentBases = layoutSegments();
+  const ast = parseProgram(code.replace(/\r\n?/g, "\n"), mainFile);
   pass = 1;
-  gen1(code, 1);
+  let firstPassDiagnostics = 0;
+  for (let layout = 1; ; layout++) {
+    labels = {};
+    globalEnv = {};
+    localLabels = {};
+    currentLabel = null;
+    gen1(ast);
+    // Later runs would only report the same problems again
+    if (layout === 1) {
+      firstPassDiagnostics = diagnostics.length;
+    } else {
+      diagnostics.length = firstPassDiagnostics;
+    }
+    const bases = layoutSegments();
+    const moved = Object.keys(bases).some((name) => bases[name] !== segmentBases[name]);
+    segmentBases = bases;
+    if (!moved || layout === MAX_LAYOUT_PASSES) {
+      break;
+    }
+  }
   pass = 2;
-  const bytecode = gen1(code, 2).flat(2);
+  const bytecode = gen1(ast).flat(2);
+  checkSegmentsFit();
+  addLocalLabels(labels, localLabels);
   return {
     bytecode: bytecode,
     labels: labels,
-    mesenLabels: mesenLabels(labels, localLabels)
+    localLabels: localLabels,
+    symbols: symbolValues(),
+    sourceMap: sourceMap,
+    blocks: blocks,
+    segments: segmentInfo(),
+    diagnostics: diagnostics.sort(
+      (a, b) => a.file.localeCompare(b.file) || a.startLine - b.startLine || a.startColumn - b.startColumn
+    )
   };
 }
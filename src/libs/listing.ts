@@ -0,0 +1,49 @@
+import type { SourceMapEntry } from "./asm6502.js";
+import { hex } from "./debug-protocol";
+
+// Bytes shown per listing row; longer data continues on extra rows
+const BYTES_PER_ROW = 4;
+
+const formatBytes = (bytes: (number | null)[]) =>
+  bytes.map((b) => (b === null ? "??" : hex(b, 2))).join(" ");
+
+// Builds a classic assembler listing: line number, address, bytes and
+// source text for every line, followed by the symbol table.
+export function formatListing(
+  code: string,
+  sourceMap: SourceMapEntry[],
+  labels: Record<string, number>,
+): string {
+  const entries = new Map(sourceMap.map((entry) => [entry.line, entry]));
+  const bytesWidth = BYTES_PER_ROW * 3 - 1;
+  const rows: string[] = [];
+
+  code.split(/\r\n?|\n/).forEach((text, index) => {
+    const lineNumber = String(index + 1).padStart(5, " ");
+    const entry = entries.get(index + 1);
+    if (!entry) {
+      rows.push(`${lineNumber}  ${" ".repeat(4)}  ${" ".repeat(bytesWidth)}  ${text}`);
+      return;
+    }
+
+    const first = entry.bytes.slice(0, BYTES_PER_ROW);
+    rows.push(
+      `${lineNumber}  ${hex(entry.address, 4)}  ${formatBytes(first).padEnd(bytesWidth)}  ${text}`,
+    );
+    for (let offset = BYTES_PER_ROW; offset < entry.bytes.length; offset += BYTES_PER_ROW) {
+      const chunk = entry.bytes.slice(offset, offset + BYTES_PER_ROW);
+      rows.push(`${" ".repeat(5)}  ${hex((entry.address + offset) & 0xffff, 4)}  ${formatBytes(chunk)}`);
+    }
+  });
+
+  const symbols = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  if (symbols.length > 0) {
+    const width = Math.max(...symbols.map(([name]) => name.length));
+    rows.push("", "Symbol table:", "");
+    for (const [name, address] of symbols) {
+      rows.push(`  ${name.padEnd(width)}  $${hex(address, 4)}`);
+    }
+  }
+
+  return rows.join("\n") + "\n";
+}
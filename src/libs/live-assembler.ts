@@ -0,0 +1,70 @@
+import type { AssembleOptions, AssemblyResult } from "./asm6502.js";
+import type { LineHint } from "./cycles";
+
+// Assembles while the user types, in a Web Worker so that large programs
+// do not stall the editor. Edits are debounced, and replies to requests
+// that a newer one has replaced are dropped.
+
+export const LIVE_ASSEMBLY_DELAY_MS = 300;
+
+export interface LiveAssemblyRequest {
+  id: number;
+  code: string;
+  options: AssembleOptions;
+}
+
+export interface LiveAssembly {
+  result: AssemblyResult;
+  hints: LineHint[];
+}
+
+export type LiveAssemblyReply = { id: number } & ({ assembly: LiveAssembly } | { error: string });
+
+export class LiveAssembler {
+  private worker: Worker | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private latest = 0;
+
+  constructor(
+    private readonly onAssembly: (assembly: LiveAssembly) => void,
+    private readonly delayMs = LIVE_ASSEMBLY_DELAY_MS,
+  ) {}
+
+  schedule(code: string, options: AssembleOptions) {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.send(code, options);
+    }, this.delayMs);
+  }
+
+  dispose() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private send(code: string, options: AssembleOptions) {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./assembler.worker.ts", import.meta.url), {
+        type: "module",
+      });
+      this.worker.onmessage = (event: MessageEvent<LiveAssemblyReply>) => {
+        const reply = event.data;
+        if (reply.id !== this.latest) return;
+        if ("error" in reply) {
+          console.error("Live assembly failed:", reply.error);
+        } else {
+          this.onAssembly(reply.assembly);
+        }
+      };
+    }
+    const request: LiveAssemblyRequest = { id: ++this.latest, code, options };
+    this.worker.postMessage(request);
+  }
+}
@@ -0,0 +1,159 @@
+import type { AssemblyResult, SegmentInfo } from "./asm6502.js";
+import { hex } from "./debug-protocol";
+
+// Where the segments of `.segment` go. Each segment is placed in a region;
+// segments sharing a region follow each other in the order listed here.
+// Code placed with `.org` stays where it is put.
+
+export type RegionKind = "rom" | "ram";
+
+export interface MemoryRegion {
+  name: string;
+  kind: RegionKind;
+  start: number;
+  size: number;
+  // Byte for the unused part of ROM images
+  fill: number;
+}
+
+export interface SegmentPlacement {
+  name: string;
+  region: string;
+}
+
+export interface MemoryMap {
+  regions: MemoryRegion[];
+  segments: SegmentPlacement[];
+}
+
+// The board: 16 KiB of RAM from $0000 with the stack at $0100, and 32 KiB
+// of ROM from $8000 with the serial port at $FFF0-$FFF1 below the vectors
+export const DEFAULT_MEMORY_MAP: MemoryMap = {
+  regions: [
+    { name: "ZP", kind: "ram", start: 0x0000, size: 0x100, fill: 0x00 },
+    { name: "RAM", kind: "ram", start: 0x0200, size: 0x3e00, fill: 0x00 },
+    { name: "ROM", kind: "rom", start: 0x8000, size: 0x7ff0, fill: 0xff },
+    { name: "VECTORS", kind: "rom", start: 0xfffa, size: 6, fill: 0xff },
+  ],
+  segments: [
+    { name: "ZEROPAGE", region: "ZP" },
+    { name: "BSS", region: "RAM" },
+    { name: "CODE", region: "ROM" },
+    { name: "RODATA", region: "ROM" },
+    { name: "VECTORS", region: "VECTORS" },
+  ],
+};
+
+export const copyMemoryMap = (map: MemoryMap): MemoryMap => ({
+  regions: map.regions.map((region) => ({ ...region })),
+  segments: map.segments.map((segment) => ({ ...segment })),
+});
+
+export const sameMemoryMap = (a: MemoryMap, b: MemoryMap) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const NAME = /^[A-Za-z_]\w*$/;
+
+export const formatRange = (start: number, size: number) =>
+  `$${hex(start, 4)}-$${hex(start + size - 1, 4)}`;
+
+// The message to show for a map that cannot be used, or null
+export function memoryMapError(map: MemoryMap): string | null {
+  const names = new Set<string>();
+  for (const region of map.regions) {
+    if (!NAME.test(region.name)) {
+      return `Invalid region name: ${region.name}`;
+    }
+    if (names.has(region.name)) {
+      return `There are two regions named ${region.name}`;
+    }
+    names.add(region.name);
+    if (region.kind !== "rom" && region.kind !== "ram") {
+      return `${region.name} must be ROM or RAM`;
+    }
+    if (
+      !Number.isInteger(region.start) ||
+      !Number.isInteger(region.size) ||
+      region.start < 0 ||
+      region.size < 1 ||
+      region.start + region.size > 0x10000
+    ) {
+      return `${region.name} does not fit in memory`;
+    }
+    if (!Number.isInteger(region.fill) || region.fill < 0 || region.fill > 0xff) {
+      return `The fill byte of ${region.name} must be $00-$FF`;
+    }
+  }
+  const sorted = [...map.regions].sort((a, b) => a.start - b.start);
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    if (sorted[i].start < previous.start + previous.size) {
+      return `${sorted[i].name} overlaps ${previous.name}`;
+    }
+  }
+  const segments = new Set<string>();
+  for (const segment of map.segments) {
+    if (!NAME.test(segment.name)) {
+      return `Invalid segment name: ${segment.name}`;
+    }
+    if (segments.has(segment.name)) {
+      return `There are two segments named ${segment.name}`;
+    }
+    segments.add(segment.name);
+    if (!names.has(segment.region)) {
+      return `Segment ${segment.name} is in an unknown region: ${segment.region}`;
+    }
+  }
+  return null;
+}
+
+// --- Usage ---
+
+export interface RegionUsage {
+  region: MemoryRegion;
+  // Addresses holding code or data, or reserved with .dsb in a segment
+  used: number;
+  segments: SegmentInfo[];
+}
+
+export function memoryUsage(
+  map: MemoryMap,
+  result: Pick<AssemblyResult, "blocks" | "segments">,
+): RegionUsage[] {
+  const used = new Uint8Array(0x10000);
+  for (const block of result.blocks) {
+    used.fill(1, block.address, Math.min(block.address + block.bytes.length, 0x10000));
+  }
+  for (const segment of result.segments) {
+    used.fill(1, segment.start, Math.min(segment.start + segment.size, 0x10000));
+  }
+  return map.regions.map((region) => ({
+    region,
+    used: used.subarray(region.start, region.start + region.size).reduce((sum, bit) => sum + bit, 0),
+    segments: result.segments.filter((segment) => segment.region === region.name),
+  }));
+}
+
+const percent = (used: number, size: number) => `${((used * 100) / size).toFixed(1)}%`;
+
+// For the assembler output:
+//   ROM      $8000-$FFEF   1234 / 32752 bytes   3.8%
+//     CODE   $8000-$84C1   1218 bytes
+export function formatMemoryUsage(usage: RegionUsage[]): string {
+  return usage
+    .map(({ region, used, segments }) => {
+      const lines = [
+        `${region.name.padEnd(10)} ${formatRange(region.start, region.size)}  ` +
+          `${String(used).padStart(5)} / ${region.size} bytes  ${percent(used, region.size)}`,
+      ];
+      for (const segment of segments) {
+        lines.push(
+          `  ${segment.name.padEnd(8)} ` +
+            (segment.size > 0 ? formatRange(segment.start, segment.size) : "(empty)".padEnd(11)) +
+            `  ${String(segment.size).padStart(5)} bytes`,
+        );
+      }
+      return lines.join("\n");
+    })
+    .join("\n");
+}
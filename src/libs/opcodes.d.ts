@@ -0,0 +1,16 @@
+// One row per mnemonic: the name, then the opcode for each addressing mode
+// column, or null where the mode does not exist:
+// Imm, ZP, ZPX, ZPY, ABS, ABSX, ABSY, IND, INDX, INDY, SNGL, BRA,
+// and for 65C02 rows ZPI, IAX, ZPR. Trailing null columns may be left out.
+export type OpcodeRow = [string, ...(number | null)[]];
+
+export type CpuType = "6502" | "65c02" | "6502x";
+
+export declare const Opcodes: OpcodeRow[];
+export declare const Opcodes65C02: OpcodeRow[];
+export declare const IllegalOpcodes: OpcodeRow[];
+
+export declare const DEFAULT_CPU: CpuType;
+export declare const CPU_TYPES: Record<CpuType, string>;
+
+export declare function opcodeTable(cpu?: CpuType): OpcodeRow[];
@@ -856,3 +856,99 @@ export const Opcodes = [
     null,
   ],
 ];
+
+// Columns after BRA, used only by the extension tables below:
+// ZPI = (zp) indirect, IAX = (abs,x) indirect, ZPR = zp,relative
+
+// WDC 65C02 additions. Rows for existing mnemonics add addressing modes.
+/* prettier-ignore */
+export const Opcodes65C02 = [
+  /* Name, Imm,  ZP,   ZPX,  ZPY,  ABS,  ABSX, ABSY, IND,  INDX, INDY, SNGL, BRA,  ZPI,  IAX,  ZPR */
+  ["ADC", null, null, null, null, null, null, null, null, null, null, null, null, 0x72],
+  ["AND", null, null, null, null, null, null, null, null, null, null, null, null, 0x32],
+  ["CMP", null, null, null, null, null, null, null, null, null, null, null, null, 0xd2],
+  ["EOR", null, null, null, null, null, null, null, null, null, null, null, null, 0x52],
+  ["LDA", null, null, null, null, null, null, null, null, null, null, null, null, 0xb2],
+  ["ORA", null, null, null, null, null, null, null, null, null, null, null, null, 0x12],
+  ["SBC", null, null, null, null, null, null, null, null, null, null, null, null, 0xf2],
+  ["STA", null, null, null, null, null, null, null, null, null, null, null, null, 0x92],
+  ["BIT", 0x89, null, 0x34, null, null, 0x3c],
+  ["DEC", null, null, null, null, null, null, null, null, null, null, 0x3a],
+  ["INC", null, null, null, null, null, null, null, null, null, null, 0x1a],
+  ["JMP", null, null, null, null, null, null, null, null, null, null, null, null, null, 0x7c],
+  ["BRA", null, null, null, null, null, null, null, null, null, null, null, 0x80],
+  ["PHX", null, null, null, null, null, null, null, null, null, null, 0xda],
+  ["PHY", null, null, null, null, null, null, null, null, null, null, 0x5a],
+  ["PLX", null, null, null, null, null, null, null, null, null, null, 0xfa],
+  ["PLY", null, null, null, null, null, null, null, null, null, null, 0x7a],
+  ["STZ", null, 0x64, 0x74, null, 0x9c, 0x9e],
+  ["TRB", null, 0x14, null, null, 0x1c],
+  ["TSB", null, 0x04, null, null, 0x0c],
+  ["WAI", null, null, null, null, null, null, null, null, null, null, 0xcb],
+  ["STP", null, null, null, null, null, null, null, null, null, null, 0xdb],
+  // RMB0-7 and SMB0-7 take a zero page address, BBR0-7 and BBS0-7 a
+  // zero page address and a branch target
+  ...[0, 1, 2, 3, 4, 5, 6, 7].flatMap((bit) => [
+    ["RMB" + bit, null, 0x07 + bit * 0x10],
+    ["SMB" + bit, null, 0x87 + bit * 0x10],
+    ["BBR" + bit, null, null, null, null, null, null, null, null, null, null, null, null, null, null, 0x0f + bit * 0x10],
+    ["BBS" + bit, null, null, null, null, null, null, null, null, null, null, null, null, null, null, 0x8f + bit * 0x10],
+  ]),
+];
+
+// The stable undocumented opcodes of the NMOS 6502
+/* prettier-ignore */
+export const IllegalOpcodes = [
+  /* Name, Imm,  ZP,   ZPX,  ZPY,  ABS,  ABSX, ABSY, IND,  INDX, INDY */
+  ["SLO", null, 0x07, 0x17, null, 0x0f, 0x1f, 0x1b, null, 0x03, 0x13],
+  ["RLA", null, 0x27, 0x37, null, 0x2f, 0x3f, 0x3b, null, 0x23, 0x33],
+  ["SRE", null, 0x47, 0x57, null, 0x4f, 0x5f, 0x5b, null, 0x43, 0x53],
+  ["RRA", null, 0x67, 0x77, null, 0x6f, 0x7f, 0x7b, null, 0x63, 0x73],
+  ["SAX", null, 0x87, null, 0x97, 0x8f, null, null, null, 0x83, null],
+  ["LAX", null, 0xa7, null, 0xb7, 0xaf, null, 0xbf, null, 0xa3, 0xb3],
+  ["DCP", null, 0xc7, 0xd7, null, 0xcf, 0xdf, 0xdb, null, 0xc3, 0xd3],
+  ["ISC", null, 0xe7, 0xf7, null, 0xef, 0xff, 0xfb, null, 0xe3, 0xf3],
+  ["ANC", 0x0b],
+  ["ALR", 0x4b],
+  ["ARR", 0x6b],
+  ["SBX", 0xcb],
+  ["NOP", 0x80, 0x04, 0x14, null, 0x0c, 0x1c],
+];
+
+export const DEFAULT_CPU = "6502";
+
+// Selectable with the `.cpu` directive or the project setting
+export const CPU_TYPES = {
+  6502: "6502 (NMOS)",
+  "65c02": "65C02 (WDC)",
+  "6502x": "6502 with illegal opcodes",
+};
+
+const EXTENSIONS = { 6502: [], "65c02": Opcodes65C02, "6502x": IllegalOpcodes };
+// Name plus every column up to ZPR
+const ROW_LENGTH = 16;
+const tables = new Map();
+
+const padRow = (row) => [...row, ...new Array(ROW_LENGTH - row.length).fill(null)];
+
+// The Opcodes table with the rows of a CPU's extension merged in. Every
+// row has all columns, so a missing mode is always null.
+export function opcodeTable(cpu = DEFAULT_CPU) {
+  if (!tables.has(cpu)) {
+    const rows = Opcodes.map(padRow);
+    for (const extension of EXTENSIONS[cpu] ?? []) {
+      const row = rows.find((candidate) => candidate[0] === extension[0]);
+      if (!row) {
+        rows.push(padRow(extension));
+        continue;
+      }
+      extension.forEach((opcode, column) => {
+        if (column > 0 && opcode !== null) {
+          row[column] = opcode;
+        }
+      });
+    }
+    tables.set(cpu, rows);
+  }
+  return tables.get(cpu);
+}
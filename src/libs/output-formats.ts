@@ -0,0 +1,136 @@
+import type { MemoryBlock } from "./asm6502.js";
+import { hex } from "./debug-protocol";
+
+// Writers for the files EEPROM programmers and other tools accept. They
+// take the memory blocks of a successful assembly, so every byte is known.
+
+export class OutputFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutputFormatError";
+  }
+}
+
+export interface ImageOptions {
+  // First address in the image
+  base: number;
+  size: number;
+  // Value of bytes the program does not set
+  fill: number;
+}
+
+// Lowest address and one past the highest address the program uses
+export function programRange(blocks: MemoryBlock[]): { start: number; end: number } | null {
+  const used = blocks.filter((block) => block.bytes.length > 0);
+  if (used.length === 0) {
+    return null;
+  }
+  return {
+    start: Math.min(...used.map((block) => block.address)),
+    end: Math.max(...used.map((block) => block.address + block.bytes.length)),
+  };
+}
+
+// A flat image, e.g. 32 KiB at $8000 for a 28C256 including the vectors
+export function toBinaryImage(blocks: MemoryBlock[], options: ImageOptions): Uint8Array {
+  const { base, size, fill } = options;
+  if (size <= 0) {
+    throw new OutputFormatError("Image size must be greater than zero");
+  }
+  const image = new Uint8Array(size).fill(fill & 0xff);
+  for (const block of blocks) {
+    block.bytes.forEach((byte, index) => {
+      const offset = block.address + index - base;
+      if (offset < 0 || offset >= size) {
+        throw new OutputFormatError(
+          `Byte at $${hex(block.address + index, 4)} is outside the image ($${hex(base, 4)}-$${hex(base + size - 1, 4)})`,
+        );
+      }
+      image[offset] = byte ?? fill;
+    });
+  }
+  return image;
+}
+
+// Splits the blocks into records of at most `recordSize` bytes
+function* records(blocks: MemoryBlock[], recordSize: number) {
+  for (const block of blocks) {
+    for (let offset = 0; offset < block.bytes.length; offset += recordSize) {
+      yield {
+        address: (block.address + offset) & 0xffff,
+        bytes: block.bytes.slice(offset, offset + recordSize).map((byte) => byte ?? 0),
+      };
+    }
+  }
+}
+
+function intelHexRecord(type: number, address: number, bytes: number[]) {
+  const fields = [bytes.length, address >> 8, address & 0xff, type, ...bytes];
+  const checksum = -fields.reduce((sum, value) => sum + value, 0) & 0xff;
+  return ":" + [...fields, checksum].map((value) => hex(value, 2)).join("");
+}
+
+export function toIntelHex(blocks: MemoryBlock[], recordSize = 16): string {
+  const lines = [];
+  for (const record of records(blocks, recordSize)) {
+    lines.push(intelHexRecord(0x00, record.address, record.bytes));
+  }
+  lines.push(intelHexRecord(0x01, 0, []));
+  return lines.join("\n") + "\n";
+}
+
+function sRecord(type: number, address: number, bytes: number[]) {
+  const fields = [bytes.length + 3, address >> 8, address & 0xff, ...bytes];
+  const checksum = ~fields.reduce((sum, value) => sum + value, 0) & 0xff;
+  return "S" + type + [...fields, checksum].map((value) => hex(value, 2)).join("");
+}
+
+// Motorola S-record with 16-bit addresses (S1 data, S9 start address)
+export function toSRecord(
+  blocks: MemoryBlock[],
+  startAddress: number,
+  header = "6502-playground",
+  recordSize = 16,
+): string {
+  const lines = [sRecord(0, 0, Array.from(header, (char) => char.charCodeAt(0) & 0xff))];
+  let count = 0;
+  for (const record of records(blocks, recordSize)) {
+    lines.push(sRecord(1, record.address, record.bytes));
+    count++;
+  }
+  if (count <= 0xffff) {
+    lines.push(sRecord(5, count, []));
+  }
+  lines.push(sRecord(9, startAddress & 0xffff, []));
+  return lines.join("\n") + "\n";
+}
+
+// A header declaring the image as a byte array, for loaders written in C
+export function toCArray(image: Uint8Array, name: string, base: number): string {
+  const identifier = name.replace(/[^A-Za-z0-9_]/g, "_").replace(/^(?=\d)/, "_");
+  const guard = identifier.toUpperCase() + "_H";
+  const rows = [];
+  for (let offset = 0; offset < image.length; offset += 12) {
+    rows.push(
+      "  " +
+        Array.from(image.subarray(offset, offset + 12), (byte) => "0x" + hex(byte, 2)).join(", ") +
+        ",",
+    );
+  }
+  return [
+    `#ifndef ${guard}`,
+    `#define ${guard}`,
+    "",
+    "#include <stdint.h>",
+    "",
+    `#define ${identifier.toUpperCase()}_BASE 0x${hex(base, 4)}`,
+    `#define ${identifier.toUpperCase()}_SIZE ${image.length}`,
+    "",
+    `const uint8_t ${identifier}[${image.length}] = {`,
+    ...rows,
+    "};",
+    "",
+    `#endif /* ${guard} */`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,21 @@
+// Generated by Peggy from parser.pegjs, which documents the node shapes
+
+export interface SourcePosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface SourceLocation {
+  source?: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export declare class SyntaxError extends Error {
+  location: SourceLocation;
+  found: string | null;
+}
+
+// One array of nodes per source line
+export function parse(input: string, options?: { grammarSource?: string }): unknown[][];
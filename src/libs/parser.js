@@ -1,11 +1,18 @@
-// @generated by Peggy 4.0.3.
+// @generated by Peggy 4.2.0.
 //
 // https://peggyjs.org/
 
-function peg$subclass(child, parent) {
-  function C() {
-    this.constructor = child;
+
+
+  function binary(head, tail) {
+    return tail.reduce(
+      (left, [operator, right]) => ({ expression: { operator, left, right } }),
+      head
+    );
   }
+
+function peg$subclass(child, parent) {
+  function C() { this.constructor = child; }
   C.prototype = parent.prototype;
   child.prototype = new C();
 }
@@ -27,15 +34,13 @@ peg$subclass(peg$SyntaxError, Error);
 
 function peg$padEnd(str, targetLength, padString) {
   padString = padString || " ";
-  if (str.length > targetLength) {
-    return str;
-  }
+  if (str.length > targetLength) { return str; }
   targetLength -= str.length;
   padString += padString.repeat(targetLength);
   return str + padString.slice(0, targetLength);
 }
 
-peg$SyntaxError.prototype.format = function (sources) {
+peg$SyntaxError.prototype.format = function(sources) {
   var str = "Error: " + this.message;
   if (this.location) {
     var src = null;
@@ -47,32 +52,21 @@ peg$SyntaxError.prototype.format = function (sources) {
       }
     }
     var s = this.location.start;
-    var offset_s =
-      this.location.source && typeof this.location.source.offset === "function"
-        ? this.location.source.offset(s)
-        : s;
-    var loc =
-      this.location.source + ":" + offset_s.line + ":" + offset_s.column;
+    var offset_s = (this.location.source && (typeof this.location.source.offset === "function"))
+      ? this.location.source.offset(s)
+      : s;
+    var loc = this.location.source + ":" + offset_s.line + ":" + offset_s.column;
     if (src) {
       var e = this.location.end;
-      var filler = peg$padEnd("", offset_s.line.toString().length, " ");
+      var filler = peg$padEnd("", offset_s.line.toString().length, ' ');
       var line = src[s.line - 1];
       var last = s.line === e.line ? e.column : line.length + 1;
-      var hatLen = last - s.column || 1;
-      str +=
-        "\n --> " +
-        loc +
-        "\n" +
-        filler +
-        " |\n" +
-        offset_s.line +
-        " | " +
-        line +
-        "\n" +
-        filler +
-        " | " +
-        peg$padEnd("", s.column - 1, " ") +
-        peg$padEnd("", hatLen, "^");
+      var hatLen = (last - s.column) || 1;
+      str += "\n --> " + loc + "\n"
+          + filler + " |\n"
+          + offset_s.line + " | " + line + "\n"
+          + filler + " | " + peg$padEnd("", s.column - 1, ' ')
+          + peg$padEnd("", hatLen, "^");
     } else {
       str += "\n at " + loc;
     }
@@ -80,35 +74,33 @@ peg$SyntaxError.prototype.format = function (sources) {
   return str;
 };
 
-peg$SyntaxError.buildMessage = function (expected, found) {
+peg$SyntaxError.buildMessage = function(expected, found) {
   var DESCRIBE_EXPECTATION_FNS = {
-    literal: function (expectation) {
-      return '"' + literalEscape(expectation.text) + '"';
+    literal: function(expectation) {
+      return "\"" + literalEscape(expectation.text) + "\"";
     },
 
-    class: function (expectation) {
-      var escapedParts = expectation.parts.map(function (part) {
+    class: function(expectation) {
+      var escapedParts = expectation.parts.map(function(part) {
         return Array.isArray(part)
           ? classEscape(part[0]) + "-" + classEscape(part[1])
           : classEscape(part);
       });
 
-      return (
-        "[" + (expectation.inverted ? "^" : "") + escapedParts.join("") + "]"
-      );
+      return "[" + (expectation.inverted ? "^" : "") + escapedParts.join("") + "]";
     },
 
-    any: function () {
+    any: function() {
       return "any character";
     },
 
-    end: function () {
+    end: function() {
       return "end of input";
     },
 
-    other: function (expectation) {
+    other: function(expectation) {
       return expectation.description;
-    },
+    }
   };
 
   function hex(ch) {
@@ -118,17 +110,13 @@ peg$SyntaxError.buildMessage = function (expected, found) {
   function literalEscape(s) {
     return s
       .replace(/\\/g, "\\\\")
-      .replace(/"/g, '\\"')
+      .replace(/"/g,  "\\\"")
       .replace(/\0/g, "\\0")
       .replace(/\t/g, "\\t")
       .replace(/\n/g, "\\n")
       .replace(/\r/g, "\\r")
-      .replace(/[\x00-\x0F]/g, function (ch) {
-        return "\\x0" + hex(ch);
-      })
-      .replace(/[\x10-\x1F\x7F-\x9F]/g, function (ch) {
-        return "\\x" + hex(ch);
-      });
+      .replace(/[\x00-\x0F]/g,          function(ch) { return "\\x0" + hex(ch); })
+      .replace(/[\x10-\x1F\x7F-\x9F]/g, function(ch) { return "\\x"  + hex(ch); });
   }
 
   function classEscape(s) {
@@ -136,17 +124,13 @@ peg$SyntaxError.buildMessage = function (expected, found) {
       .replace(/\\/g, "\\\\")
       .replace(/\]/g, "\\]")
       .replace(/\^/g, "\\^")
-      .replace(/-/g, "\\-")
+      .replace(/-/g,  "\\-")
       .replace(/\0/g, "\\0")
       .replace(/\t/g, "\\t")
       .replace(/\n/g, "\\n")
       .replace(/\r/g, "\\r")
-      .replace(/[\x00-\x0F]/g, function (ch) {
-        return "\\x0" + hex(ch);
-      })
-      .replace(/[\x10-\x1F\x7F-\x9F]/g, function (ch) {
-        return "\\x" + hex(ch);
-      });
+      .replace(/[\x00-\x0F]/g,          function(ch) { return "\\x0" + hex(ch); })
+      .replace(/[\x10-\x1F\x7F-\x9F]/g, function(ch) { return "\\x"  + hex(ch); });
   }
 
   function describeExpectation(expectation) {
@@ -177,25 +161,17 @@ peg$SyntaxError.buildMessage = function (expected, found) {
         return descriptions[0] + " or " + descriptions[1];
 
       default:
-        return (
-          descriptions.slice(0, -1).join(", ") +
-          ", or " +
-          descriptions[descriptions.length - 1]
-        );
+        return descriptions.slice(0, -1).join(", ")
+          + ", or "
+          + descriptions[descriptions.length - 1];
     }
   }
 
   function describeFound(found) {
-    return found ? '"' + literalEscape(found) + '"' : "end of input";
+    return found ? "\"" + literalEscape(found) + "\"" : "end of input";
   }
 
-  return (
-    "Expected " +
-    describeExpected(expected) +
-    " but " +
-    describeFound(found) +
-    " found."
-  );
+  return "Expected " + describeExpected(expected) + " but " + describeFound(found) + " found.";
 };
 
 function peg$parse(input, options) {
@@ -212,223 +188,290 @@ function peg$parse(input, options) {
   var peg$c2 = "(";
   var peg$c3 = ")";
   var peg$c4 = ",";
-  var peg$c5 = ".";
-  var peg$c6 = ";";
-  var peg$c7 = ":";
-  var peg$c8 = '"';
-  var peg$c9 = "%";
-  var peg$c10 = "$";
-  var peg$c11 = "adc";
-  var peg$c12 = "and";
-  var peg$c13 = "asl";
-  var peg$c14 = "bcc";
-  var peg$c15 = "bcs";
-  var peg$c16 = "beq";
-  var peg$c17 = "bit";
-  var peg$c18 = "bmi";
-  var peg$c19 = "bne";
-  var peg$c20 = "bpl";
-  var peg$c21 = "bra";
-  var peg$c22 = "brk";
-  var peg$c23 = "bvc";
-  var peg$c24 = "bvs";
-  var peg$c25 = "clc";
-  var peg$c26 = "cld";
-  var peg$c27 = "cli";
-  var peg$c28 = "clv";
-  var peg$c29 = "cmp";
-  var peg$c30 = "cpx";
-  var peg$c31 = "cpy";
-  var peg$c32 = "dec";
-  var peg$c33 = "dex";
-  var peg$c34 = "dey";
-  var peg$c35 = "eor";
-  var peg$c36 = "inc";
-  var peg$c37 = "inx";
-  var peg$c38 = "iny";
-  var peg$c39 = "jmp";
-  var peg$c40 = "jsr";
-  var peg$c41 = "lda";
-  var peg$c42 = "ldy";
-  var peg$c43 = "ldx";
-  var peg$c44 = "lsr";
-  var peg$c45 = "nop";
-  var peg$c46 = "ora";
-  var peg$c47 = "pha";
-  var peg$c48 = "phx";
-  var peg$c49 = "phy";
-  var peg$c50 = "php";
-  var peg$c51 = "pla";
-  var peg$c52 = "plp";
-  var peg$c53 = "ply";
-  var peg$c54 = "rol";
-  var peg$c55 = "ror";
-  var peg$c56 = "rti";
-  var peg$c57 = "rts";
-  var peg$c58 = "sbc";
-  var peg$c59 = "sec";
-  var peg$c60 = "sed";
-  var peg$c61 = "sei";
-  var peg$c62 = "sta";
-  var peg$c63 = "stx";
-  var peg$c64 = "sty";
-  var peg$c65 = "stz";
-  var peg$c66 = "tax";
-  var peg$c67 = "tay";
-  var peg$c68 = "tsx";
-  var peg$c69 = "txa";
-  var peg$c70 = "txs";
-  var peg$c71 = "tya";
-
-  var peg$r0 = /^[x]/;
-  var peg$r1 = /^[y]/;
-  var peg$r2 = /^[+=*]/;
-  var peg$r3 = /^[^\n]/;
-  var peg$r4 = /^[xy]/;
-  var peg$r5 = /^[@A-Z0-9_]/i;
-  var peg$r6 = /^[^"]/;
-  var peg$r7 = /^[0-1]/;
-  var peg$r8 = /^[0-9]/;
-  var peg$r9 = /^[0-9A-F]/i;
-  var peg$r10 = /^[ \t]/;
+  var peg$c5 = "x";
+  var peg$c6 = "y";
+  var peg$c7 = ".";
+  var peg$c8 = ".cpu";
+  var peg$c9 = ".macro";
+  var peg$c10 = "=";
+  var peg$c11 = "||";
+  var peg$c12 = "&&";
+  var peg$c13 = "==";
+  var peg$c14 = "!=";
+  var peg$c15 = "<=";
+  var peg$c16 = ">=";
+  var peg$c17 = "|";
+  var peg$c18 = "^";
+  var peg$c19 = "&";
+  var peg$c20 = "<<";
+  var peg$c21 = ">>";
+  var peg$c22 = "*";
+  var peg$c23 = ";";
+  var peg$c24 = ":";
+  var peg$c25 = "\"";
+  var peg$c26 = "'";
+  var peg$c27 = "%";
+  var peg$c28 = "$";
+  var peg$c29 = "rmb";
+  var peg$c30 = "smb";
+  var peg$c31 = "adc";
+  var peg$c32 = "and";
+  var peg$c33 = "asl";
+  var peg$c34 = "bcc";
+  var peg$c35 = "bcs";
+  var peg$c36 = "beq";
+  var peg$c37 = "bit";
+  var peg$c38 = "bmi";
+  var peg$c39 = "bne";
+  var peg$c40 = "bpl";
+  var peg$c41 = "bra";
+  var peg$c42 = "brk";
+  var peg$c43 = "bvc";
+  var peg$c44 = "bvs";
+  var peg$c45 = "clc";
+  var peg$c46 = "cld";
+  var peg$c47 = "cli";
+  var peg$c48 = "clv";
+  var peg$c49 = "cmp";
+  var peg$c50 = "cpx";
+  var peg$c51 = "cpy";
+  var peg$c52 = "dec";
+  var peg$c53 = "dex";
+  var peg$c54 = "dey";
+  var peg$c55 = "eor";
+  var peg$c56 = "inc";
+  var peg$c57 = "inx";
+  var peg$c58 = "iny";
+  var peg$c59 = "jmp";
+  var peg$c60 = "jsr";
+  var peg$c61 = "lda";
+  var peg$c62 = "ldy";
+  var peg$c63 = "ldx";
+  var peg$c64 = "lsr";
+  var peg$c65 = "nop";
+  var peg$c66 = "ora";
+  var peg$c67 = "pha";
+  var peg$c68 = "phx";
+  var peg$c69 = "phy";
+  var peg$c70 = "php";
+  var peg$c71 = "pla";
+  var peg$c72 = "plp";
+  var peg$c73 = "ply";
+  var peg$c74 = "rol";
+  var peg$c75 = "ror";
+  var peg$c76 = "rti";
+  var peg$c77 = "rts";
+  var peg$c78 = "sbc";
+  var peg$c79 = "sec";
+  var peg$c80 = "sed";
+  var peg$c81 = "sei";
+  var peg$c82 = "sta";
+  var peg$c83 = "stx";
+  var peg$c84 = "sty";
+  var peg$c85 = "stz";
+  var peg$c86 = "tax";
+  var peg$c87 = "tay";
+  var peg$c88 = "tsx";
+  var peg$c89 = "txa";
+  var peg$c90 = "txs";
+  var peg$c91 = "tya";
+  var peg$c92 = "plx";
+  var peg$c93 = "trb";
+  var peg$c94 = "tsb";
+  var peg$c95 = "wai";
+  var peg$c96 = "stp";
+  var peg$c97 = "slo";
+  var peg$c98 = "rla";
+  var peg$c99 = "sre";
+  var peg$c100 = "rra";
+  var peg$c101 = "sax";
+  var peg$c102 = "lax";
+  var peg$c103 = "dcp";
+  var peg$c104 = "isc";
+  var peg$c105 = "anc";
+  var peg$c106 = "alr";
+  var peg$c107 = "arr";
+  var peg$c108 = "sbx";
+  var peg$c109 = "bbr";
+  var peg$c110 = "bbs";
+
+  var peg$r0 = /^[\n;]/;
+  var peg$r1 = /^[0-9A-Z]/i;
+  var peg$r2 = /^[<>]/;
+  var peg$r3 = /^[+\-]/;
+  var peg$r4 = /^[*\/]/;
+  var peg$r5 = /^[\-~!<>]/;
+  var peg$r6 = /^[^\n]/;
+  var peg$r7 = /^[xy]/i;
+  var peg$r8 = /^[@A-Z0-9_]/i;
+  var peg$r9 = /^[^"\n]/;
+  var peg$r10 = /^[^'\n]/;
+  var peg$r11 = /^[0-1]/;
+  var peg$r12 = /^[0-9]/;
+  var peg$r13 = /^[0-9A-F]/i;
+  var peg$r14 = /^[ \t]/;
+  var peg$r15 = /^[0-7]/;
 
   var peg$e0 = peg$literalExpectation("\n", false);
   var peg$e1 = peg$literalExpectation("#", false);
   var peg$e2 = peg$literalExpectation("(", false);
   var peg$e3 = peg$literalExpectation(")", false);
   var peg$e4 = peg$literalExpectation(",", false);
-  var peg$e5 = peg$classExpectation(["x"], false, false);
-  var peg$e6 = peg$classExpectation(["y"], false, false);
-  var peg$e7 = peg$literalExpectation(".", false);
-  var peg$e8 = peg$classExpectation(["+", "=", "*"], false, false);
-  var peg$e9 = peg$literalExpectation(";", false);
-  var peg$e10 = peg$classExpectation(["\n"], true, false);
-  var peg$e11 = peg$classExpectation(["x", "y"], false, false);
-  var peg$e12 = peg$literalExpectation(":", false);
-  var peg$e13 = peg$classExpectation(
-    ["@", ["A", "Z"], ["0", "9"], "_"],
-    false,
-    true,
-  );
-  var peg$e14 = peg$literalExpectation('"', false);
-  var peg$e15 = peg$classExpectation(['"'], true, false);
-  var peg$e16 = peg$literalExpectation("%", false);
-  var peg$e17 = peg$classExpectation([["0", "1"]], false, false);
-  var peg$e18 = peg$classExpectation([["0", "9"]], false, false);
-  var peg$e19 = peg$literalExpectation("$", false);
-  var peg$e20 = peg$classExpectation(
-    [
-      ["0", "9"],
-      ["A", "F"],
-    ],
-    false,
-    true,
-  );
-  var peg$e21 = peg$classExpectation([" ", "\t"], false, false);
-  var peg$e22 = peg$literalExpectation("ADC", true);
-  var peg$e23 = peg$literalExpectation("AND", true);
-  var peg$e24 = peg$literalExpectation("ASL", true);
-  var peg$e25 = peg$literalExpectation("BCC", true);
-  var peg$e26 = peg$literalExpectation("BCS", true);
-  var peg$e27 = peg$literalExpectation("BEQ", true);
-  var peg$e28 = peg$literalExpectation("BIT", true);
-  var peg$e29 = peg$literalExpectation("BMI", true);
-  var peg$e30 = peg$literalExpectation("BNE", true);
-  var peg$e31 = peg$literalExpectation("BPL", true);
-  var peg$e32 = peg$literalExpectation("BRA", true);
-  var peg$e33 = peg$literalExpectation("BRK", true);
-  var peg$e34 = peg$literalExpectation("BVC", true);
-  var peg$e35 = peg$literalExpectation("BVS", true);
-  var peg$e36 = peg$literalExpectation("CLC", true);
-  var peg$e37 = peg$literalExpectation("CLD", true);
-  var peg$e38 = peg$literalExpectation("CLI", true);
-  var peg$e39 = peg$literalExpectation("CLV", true);
-  var peg$e40 = peg$literalExpectation("CMP", true);
-  var peg$e41 = peg$literalExpectation("CPX", true);
-  var peg$e42 = peg$literalExpectation("CPY", true);
-  var peg$e43 = peg$literalExpectation("DEC", true);
-  var peg$e44 = peg$literalExpectation("DEX", true);
-  var peg$e45 = peg$literalExpectation("DEY", true);
-  var peg$e46 = peg$literalExpectation("EOR", true);
-  var peg$e47 = peg$literalExpectation("INC", true);
-  var peg$e48 = peg$literalExpectation("INX", true);
-  var peg$e49 = peg$literalExpectation("INY", true);
-  var peg$e50 = peg$literalExpectation("JMP", true);
-  var peg$e51 = peg$literalExpectation("JSR", true);
-  var peg$e52 = peg$literalExpectation("LDA", true);
-  var peg$e53 = peg$literalExpectation("LDY", true);
-  var peg$e54 = peg$literalExpectation("LDX", true);
-  var peg$e55 = peg$literalExpectation("LSR", true);
-  var peg$e56 = peg$literalExpectation("NOP", true);
-  var peg$e57 = peg$literalExpectation("ORA", true);
-  var peg$e58 = peg$literalExpectation("PHA", true);
-  var peg$e59 = peg$literalExpectation("PHX", true);
-  var peg$e60 = peg$literalExpectation("PHY", true);
-  var peg$e61 = peg$literalExpectation("PHP", true);
-  var peg$e62 = peg$literalExpectation("PLA", true);
-  var peg$e63 = peg$literalExpectation("PLP", true);
-  var peg$e64 = peg$literalExpectation("PLY", true);
-  var peg$e65 = peg$literalExpectation("ROL", true);
-  var peg$e66 = peg$literalExpectation("ROR", true);
-  var peg$e67 = peg$literalExpectation("RTI", true);
-  var peg$e68 = peg$literalExpectation("RTS", true);
-  var peg$e69 = peg$literalExpectation("SBC", true);
-  var peg$e70 = peg$literalExpectation("SEC", true);
-  var peg$e71 = peg$literalExpectation("SED", true);
-  var peg$e72 = peg$literalExpectation("SEI", true);
-  var peg$e73 = peg$literalExpectation("STA", true);
-  var peg$e74 = peg$literalExpectation("STX", true);
-  var peg$e75 = peg$literalExpectation("STY", true);
-  var peg$e76 = peg$literalExpectation("STZ", true);
-  var peg$e77 = peg$literalExpectation("TAX", true);
-  var peg$e78 = peg$literalExpectation("TAY", true);
-  var peg$e79 = peg$literalExpectation("TSX", true);
-  var peg$e80 = peg$literalExpectation("TXA", true);
-  var peg$e81 = peg$literalExpectation("TXS", true);
-  var peg$e82 = peg$literalExpectation("TYA", true);
-
-  var peg$f0 = function (o, a) {
-    return { instruction: { opcode: o, arg: a } };
-  };
-  var peg$f1 = function (o, a) {
-    return { instruction: { mode: "immediate", opcode: o, arg: a } };
-  };
-  var peg$f2 = function (o, a) {
-    return { instruction: { mode: "indirect", opcode: o, arg: a } };
-  };
-  var peg$f3 = function (o, a) {
-    return { instruction: { mode: "indirectX", opcode: o, arg: a } };
-  };
-  var peg$f4 = function (o, a) {
-    return { instruction: { mode: "indirectY", opcode: o, arg: a } };
-  };
-  var peg$f5 = function (d, a) {
-    return { directive: d.join(""), args: a };
-  };
-  var peg$f6 = function (l, o, r) {
-    return { expression: { operator: o, left: l, right: r } };
-  };
-  var peg$f7 = function (c) {
-    return { comment: c.join("") };
-  };
-  var peg$f8 = function (n) {
-    return { label: n };
-  };
-  var peg$f9 = function (s) {
-    return s.join("");
-  };
-  var peg$f10 = function (s) {
-    return s.join("");
-  };
-  var peg$f11 = function (n) {
-    return parseInt(n.join(""), 2);
-  };
-  var peg$f12 = function (n) {
-    return parseInt(n.join(""));
-  };
-  var peg$f13 = function (n) {
-    return parseInt(n.join(""), 16);
-  };
+  var peg$e5 = peg$literalExpectation("x", true);
+  var peg$e6 = peg$literalExpectation("y", true);
+  var peg$e7 = peg$classExpectation(["\n", ";"], false, false);
+  var peg$e8 = peg$anyExpectation();
+  var peg$e9 = peg$literalExpectation(".", false);
+  var peg$e10 = peg$literalExpectation(".cpu", true);
+  var peg$e11 = peg$classExpectation([["0", "9"], ["A", "Z"]], false, true);
+  var peg$e12 = peg$literalExpectation(".macro", true);
+  var peg$e13 = peg$literalExpectation("=", false);
+  var peg$e14 = peg$literalExpectation("||", false);
+  var peg$e15 = peg$literalExpectation("&&", false);
+  var peg$e16 = peg$literalExpectation("==", false);
+  var peg$e17 = peg$literalExpectation("!=", false);
+  var peg$e18 = peg$literalExpectation("<=", false);
+  var peg$e19 = peg$literalExpectation(">=", false);
+  var peg$e20 = peg$classExpectation(["<", ">"], false, false);
+  var peg$e21 = peg$literalExpectation("|", false);
+  var peg$e22 = peg$literalExpectation("^", false);
+  var peg$e23 = peg$literalExpectation("&", false);
+  var peg$e24 = peg$literalExpectation("<<", false);
+  var peg$e25 = peg$literalExpectation(">>", false);
+  var peg$e26 = peg$classExpectation(["+", "-"], false, false);
+  var peg$e27 = peg$classExpectation(["*", "/"], false, false);
+  var peg$e28 = peg$classExpectation(["-", "~", "!", "<", ">"], false, false);
+  var peg$e29 = peg$literalExpectation("*", false);
+  var peg$e30 = peg$literalExpectation(";", false);
+  var peg$e31 = peg$classExpectation(["\n"], true, false);
+  var peg$e32 = peg$classExpectation(["x", "y"], false, true);
+  var peg$e33 = peg$literalExpectation(":", false);
+  var peg$e34 = peg$classExpectation(["@", ["A", "Z"], ["0", "9"], "_"], false, true);
+  var peg$e35 = peg$literalExpectation("\"", false);
+  var peg$e36 = peg$classExpectation(["\"", "\n"], true, false);
+  var peg$e37 = peg$literalExpectation("'", false);
+  var peg$e38 = peg$classExpectation(["'", "\n"], true, false);
+  var peg$e39 = peg$literalExpectation("%", false);
+  var peg$e40 = peg$classExpectation([["0", "1"]], false, false);
+  var peg$e41 = peg$classExpectation([["0", "9"]], false, false);
+  var peg$e42 = peg$literalExpectation("$", false);
+  var peg$e43 = peg$classExpectation([["0", "9"], ["A", "F"]], false, true);
+  var peg$e44 = peg$classExpectation([" ", "\t"], false, false);
+  var peg$e45 = peg$literalExpectation("RMB", true);
+  var peg$e46 = peg$literalExpectation("SMB", true);
+  var peg$e47 = peg$classExpectation([["0", "7"]], false, false);
+  var peg$e48 = peg$literalExpectation("ADC", true);
+  var peg$e49 = peg$literalExpectation("AND", true);
+  var peg$e50 = peg$literalExpectation("ASL", true);
+  var peg$e51 = peg$literalExpectation("BCC", true);
+  var peg$e52 = peg$literalExpectation("BCS", true);
+  var peg$e53 = peg$literalExpectation("BEQ", true);
+  var peg$e54 = peg$literalExpectation("BIT", true);
+  var peg$e55 = peg$literalExpectation("BMI", true);
+  var peg$e56 = peg$literalExpectation("BNE", true);
+  var peg$e57 = peg$literalExpectation("BPL", true);
+  var peg$e58 = peg$literalExpectation("BRA", true);
+  var peg$e59 = peg$literalExpectation("BRK", true);
+  var peg$e60 = peg$literalExpectation("BVC", true);
+  var peg$e61 = peg$literalExpectation("BVS", true);
+  var peg$e62 = peg$literalExpectation("CLC", true);
+  var peg$e63 = peg$literalExpectation("CLD", true);
+  var peg$e64 = peg$literalExpectation("CLI", true);
+  var peg$e65 = peg$literalExpectation("CLV", true);
+  var peg$e66 = peg$literalExpectation("CMP", true);
+  var peg$e67 = peg$literalExpectation("CPX", true);
+  var peg$e68 = peg$literalExpectation("CPY", true);
+  var peg$e69 = peg$literalExpectation("DEC", true);
+  var peg$e70 = peg$literalExpectation("DEX", true);
+  var peg$e71 = peg$literalExpectation("DEY", true);
+  var peg$e72 = peg$literalExpectation("EOR", true);
+  var peg$e73 = peg$literalExpectation("INC", true);
+  var peg$e74 = peg$literalExpectation("INX", true);
+  var peg$e75 = peg$literalExpectation("INY", true);
+  var peg$e76 = peg$literalExpectation("JMP", true);
+  var peg$e77 = peg$literalExpectation("JSR", true);
+  var peg$e78 = peg$literalExpectation("LDA", true);
+  var peg$e79 = peg$literalExpectation("LDY", true);
+  var peg$e80 = peg$literalExpectation("LDX", true);
+  var peg$e81 = peg$literalExpectation("LSR", true);
+  var peg$e82 = peg$literalExpectation("NOP", true);
+  var peg$e83 = peg$literalExpectation("ORA", true);
+  var peg$e84 = peg$literalExpectation("PHA", true);
+  var peg$e85 = peg$literalExpectation("PHX", true);
+  var peg$e86 = peg$literalExpectation("PHY", true);
+  var peg$e87 = peg$literalExpectation("PHP", true);
+  var peg$e88 = peg$literalExpectation("PLA", true);
+  var peg$e89 = peg$literalExpectation("PLP", true);
+  var peg$e90 = peg$literalExpectation("PLY", true);
+  var peg$e91 = peg$literalExpectation("ROL", true);
+  var peg$e92 = peg$literalExpectation("ROR", true);
+  var peg$e93 = peg$literalExpectation("RTI", true);
+  var peg$e94 = peg$literalExpectation("RTS", true);
+  var peg$e95 = peg$literalExpectation("SBC", true);
+  var peg$e96 = peg$literalExpectation("SEC", true);
+  var peg$e97 = peg$literalExpectation("SED", true);
+  var peg$e98 = peg$literalExpectation("SEI", true);
+  var peg$e99 = peg$literalExpectation("STA", true);
+  var peg$e100 = peg$literalExpectation("STX", true);
+  var peg$e101 = peg$literalExpectation("STY", true);
+  var peg$e102 = peg$literalExpectation("STZ", true);
+  var peg$e103 = peg$literalExpectation("TAX", true);
+  var peg$e104 = peg$literalExpectation("TAY", true);
+  var peg$e105 = peg$literalExpectation("TSX", true);
+  var peg$e106 = peg$literalExpectation("TXA", true);
+  var peg$e107 = peg$literalExpectation("TXS", true);
+  var peg$e108 = peg$literalExpectation("TYA", true);
+  var peg$e109 = peg$literalExpectation("PLX", true);
+  var peg$e110 = peg$literalExpectation("TRB", true);
+  var peg$e111 = peg$literalExpectation("TSB", true);
+  var peg$e112 = peg$literalExpectation("WAI", true);
+  var peg$e113 = peg$literalExpectation("STP", true);
+  var peg$e114 = peg$literalExpectation("SLO", true);
+  var peg$e115 = peg$literalExpectation("RLA", true);
+  var peg$e116 = peg$literalExpectation("SRE", true);
+  var peg$e117 = peg$literalExpectation("RRA", true);
+  var peg$e118 = peg$literalExpectation("SAX", true);
+  var peg$e119 = peg$literalExpectation("LAX", true);
+  var peg$e120 = peg$literalExpectation("DCP", true);
+  var peg$e121 = peg$literalExpectation("ISC", true);
+  var peg$e122 = peg$literalExpectation("ANC", true);
+  var peg$e123 = peg$literalExpectation("ALR", true);
+  var peg$e124 = peg$literalExpectation("ARR", true);
+  var peg$e125 = peg$literalExpectation("SBX", true);
+  var peg$e126 = peg$literalExpectation("BBR", true);
+  var peg$e127 = peg$literalExpectation("BBS", true);
+
+  var peg$f0 = function(o, a) { return { instruction: { opcode: o, arg: a }, loc: location() }; };
+  var peg$f1 = function(o, a) { return { instruction: { mode: "immediate", opcode: o, arg: a }, loc: location() }; };
+  var peg$f2 = function(o, a) { return { instruction: { mode: "indirect", opcode: o, arg: a }, loc: location() }; };
+  var peg$f3 = function(o, a) { return { instruction: { mode: "indirectX", opcode: o, arg: a }, loc: location() }; };
+  var peg$f4 = function(o, a) { return { instruction: { mode: "indirectY", opcode: o, arg: a }, loc: location() }; };
+  var peg$f5 = function(o, z, t) { return { instruction: { mode: "zeropageRelative", opcode: o, arg: [z, t] }, loc: location() }; };
+  var peg$f6 = function(d, a) { return { directive: d.join("").toLowerCase(), args: a, loc: location() }; };
+  var peg$f7 = function(c) { return { directive: ".cpu", args: [{ string: c }], loc: location() }; };
+  var peg$f8 = function(n, p) { return { directive: ".macro", args: [n, ...(p ?? [])], loc: location() }; };
+  var peg$f9 = function(n, a) { return { macro: n, args: a ?? [], loc: location() }; };
+  var peg$f10 = function(n, e) { return { expression: { operator: "=", left: n, right: e }, loc: location() }; };
+  var peg$f11 = function(head, tail) { return binary(head, tail); };
+  var peg$f12 = function(head, tail) { return binary(head, tail); };
+  var peg$f13 = function(head, tail) { return binary(head, tail); };
+  var peg$f14 = function(head, tail) { return binary(head, tail); };
+  var peg$f15 = function(head, tail) { return binary(head, tail); };
+  var peg$f16 = function(head, tail) { return binary(head, tail); };
+  var peg$f17 = function(head, tail) { return binary(head, tail); };
+  var peg$f18 = function(head, tail) { return binary(head, tail); };
+  var peg$f19 = function(head, tail) { return binary(head, tail); };
+  var peg$f20 = function(o, a) { return { expression: { operator: o, operand: a } }; };
+  var peg$f21 = function() { return { pc: true }; };
+  var peg$f22 = function(c) { return { comment: c.join("") }; };
+  var peg$f23 = function(a, r) { return [a, r.toLowerCase()]; };
+  var peg$f24 = function(n) { return { label: n, loc: location() }; };
+  var peg$f25 = function(s) { return s.join(""); };
+  var peg$f26 = function(s) { return { string: s.join("") }; };
+  var peg$f27 = function(c) { return c.charCodeAt(0); };
+  var peg$f28 = function(n) { return parseInt(n.join(""), 2); };
+  var peg$f29 = function(n) { return parseInt(n.join("")); };
+  var peg$f30 = function(n) { return parseInt(n.join(""), 16); };
   var peg$currPos = options.peg$currPos | 0;
   var peg$savedPos = peg$currPos;
   var peg$posDetailsCache = [{ line: 1, column: 1 }];
@@ -440,9 +483,7 @@ function peg$parse(input, options) {
 
   if (options.startRule) {
     if (!(options.startRule in peg$startRuleFunctions)) {
-      throw new Error(
-        "Can't start parsing from rule \"" + options.startRule + '".',
-      );
+      throw new Error("Can't start parsing from rule \"" + options.startRule + "\".");
     }
 
     peg$startRuleFunction = peg$startRuleFunctions[options.startRule];
@@ -460,7 +501,7 @@ function peg$parse(input, options) {
     return {
       source: peg$source,
       start: peg$savedPos,
-      end: peg$currPos,
+      end: peg$currPos
     };
   }
 
@@ -469,23 +510,21 @@ function peg$parse(input, options) {
   }
 
   function expected(description, location) {
-    location =
-      location !== undefined
-        ? location
-        : peg$computeLocation(peg$savedPos, peg$currPos);
+    location = location !== undefined
+      ? location
+      : peg$computeLocation(peg$savedPos, peg$currPos);
 
     throw peg$buildStructuredError(
       [peg$otherExpectation(description)],
       input.substring(peg$savedPos, peg$currPos),
-      location,
+      location
     );
   }
 
   function error(message, location) {
-    location =
-      location !== undefined
-        ? location
-        : peg$computeLocation(peg$savedPos, peg$currPos);
+    location = location !== undefined
+      ? location
+      : peg$computeLocation(peg$savedPos, peg$currPos);
 
     throw peg$buildSimpleError(message, location);
   }
@@ -495,12 +534,7 @@ function peg$parse(input, options) {
   }
 
   function peg$classExpectation(parts, inverted, ignoreCase) {
-    return {
-      type: "class",
-      parts: parts,
-      inverted: inverted,
-      ignoreCase: ignoreCase,
-    };
+    return { type: "class", parts: parts, inverted: inverted, ignoreCase: ignoreCase };
   }
 
   function peg$anyExpectation() {
@@ -532,7 +566,7 @@ function peg$parse(input, options) {
       details = peg$posDetailsCache[p];
       details = {
         line: details.line,
-        column: details.column,
+        column: details.column
       };
 
       while (p < pos) {
@@ -561,15 +595,15 @@ function peg$parse(input, options) {
       start: {
         offset: startPos,
         line: startPosDetails.line,
-        column: startPosDetails.column,
+        column: startPosDetails.column
       },
       end: {
         offset: endPos,
         line: endPosDetails.line,
-        column: endPosDetails.column,
-      },
+        column: endPosDetails.column
+      }
     };
-    if (offset && peg$source && typeof peg$source.offset === "function") {
+    if (offset && peg$source && (typeof peg$source.offset === "function")) {
       res.start = peg$source.offset(res.start);
       res.end = peg$source.offset(res.end);
     }
@@ -577,9 +611,7 @@ function peg$parse(input, options) {
   }
 
   function peg$fail(expected) {
-    if (peg$currPos < peg$maxFailPos) {
-      return;
-    }
+    if (peg$currPos < peg$maxFailPos) { return; }
 
     if (peg$currPos > peg$maxFailPos) {
       peg$maxFailPos = peg$currPos;
@@ -598,7 +630,7 @@ function peg$parse(input, options) {
       peg$SyntaxError.buildMessage(expected, found),
       expected,
       found,
-      location,
+      location
     );
   }
 
@@ -662,9 +694,7 @@ function peg$parse(input, options) {
         peg$currPos++;
       } else {
         s4 = peg$FAILED;
-        if (peg$silentFails === 0) {
-          peg$fail(peg$e0);
-        }
+        if (peg$silentFails === 0) { peg$fail(peg$e0); }
       }
       if (s4 === peg$FAILED) {
         s4 = null;
@@ -689,21 +719,28 @@ function peg$parse(input, options) {
 
     s0 = peg$parselabel();
     if (s0 === peg$FAILED) {
-      s0 = peg$parseinstruction();
+      s0 = peg$parsesymbolDefinition();
       if (s0 === peg$FAILED) {
-        s0 = peg$parsedirective();
+        s0 = peg$parseinstruction();
         if (s0 === peg$FAILED) {
-          s0 = peg$parseexpression();
+          s0 = peg$parsemacroDefinition();
           if (s0 === peg$FAILED) {
-            s0 = peg$parsecomment();
+            s0 = peg$parsecpuDirective();
             if (s0 === peg$FAILED) {
-              if (input.charCodeAt(peg$currPos) === 10) {
-                s0 = peg$c0;
-                peg$currPos++;
-              } else {
-                s0 = peg$FAILED;
-                if (peg$silentFails === 0) {
-                  peg$fail(peg$e0);
+              s0 = peg$parsedirective();
+              if (s0 === peg$FAILED) {
+                s0 = peg$parsemacroCall();
+                if (s0 === peg$FAILED) {
+                  s0 = peg$parsecomment();
+                  if (s0 === peg$FAILED) {
+                    if (input.charCodeAt(peg$currPos) === 10) {
+                      s0 = peg$c0;
+                      peg$currPos++;
+                    } else {
+                      s0 = peg$FAILED;
+                      if (peg$silentFails === 0) { peg$fail(peg$e0); }
+                    }
+                  }
                 }
               }
             }
@@ -718,15 +755,18 @@ function peg$parse(input, options) {
   function peg$parseinstruction() {
     var s0;
 
-    s0 = peg$parseimmediateInstruction();
+    s0 = peg$parsezeropageRelativeInstruction();
     if (s0 === peg$FAILED) {
-      s0 = peg$parseindirectXInstruction();
+      s0 = peg$parseimmediateInstruction();
       if (s0 === peg$FAILED) {
-        s0 = peg$parseindirectYInstruction();
+        s0 = peg$parseindirectXInstruction();
         if (s0 === peg$FAILED) {
-          s0 = peg$parseindirectInstruction();
+          s0 = peg$parseindirectYInstruction();
           if (s0 === peg$FAILED) {
-            s0 = peg$parsegenericInstruction();
+            s0 = peg$parseindirectInstruction();
+            if (s0 === peg$FAILED) {
+              s0 = peg$parsegenericInstruction();
+            }
           }
         }
       }
@@ -769,7 +809,7 @@ function peg$parse(input, options) {
   }
 
   function peg$parseimmediateInstruction() {
-    var s0, s1, s2, s3, s4;
+    var s0, s1, s2, s3, s4, s5;
 
     s0 = peg$currPos;
     s1 = peg$parseopcode();
@@ -781,15 +821,17 @@ function peg$parse(input, options) {
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e1);
-          }
+          if (peg$silentFails === 0) { peg$fail(peg$e1); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parseargument();
-          if (s4 !== peg$FAILED) {
+          s4 = peg$parse_();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          s5 = peg$parselogicalOr();
+          if (s5 !== peg$FAILED) {
             peg$savedPos = s0;
-            s0 = peg$f1(s1, s4);
+            s0 = peg$f1(s1, s5);
           } else {
             peg$currPos = s0;
             s0 = peg$FAILED;
@@ -811,7 +853,7 @@ function peg$parse(input, options) {
   }
 
   function peg$parseindirectInstruction() {
-    var s0, s1, s2, s3, s4, s5;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
 
     s0 = peg$currPos;
     s1 = peg$parseopcode();
@@ -823,25 +865,44 @@ function peg$parse(input, options) {
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e2);
-          }
+          if (peg$silentFails === 0) { peg$fail(peg$e2); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parseargument();
-          if (s4 !== peg$FAILED) {
+          s4 = peg$parse_();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          s5 = peg$parselogicalOr();
+          if (s5 !== peg$FAILED) {
+            s6 = peg$parse_();
+            if (s6 === peg$FAILED) {
+              s6 = null;
+            }
             if (input.charCodeAt(peg$currPos) === 41) {
-              s5 = peg$c3;
+              s7 = peg$c3;
               peg$currPos++;
             } else {
-              s5 = peg$FAILED;
-              if (peg$silentFails === 0) {
-                peg$fail(peg$e3);
-              }
+              s7 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e3); }
             }
-            if (s5 !== peg$FAILED) {
-              peg$savedPos = s0;
-              s0 = peg$f2(s1, s4);
+            if (s7 !== peg$FAILED) {
+              s8 = peg$currPos;
+              peg$silentFails++;
+              s9 = peg$parseendOfInstruction();
+              peg$silentFails--;
+              if (s9 !== peg$FAILED) {
+                peg$currPos = s8;
+                s8 = undefined;
+              } else {
+                s8 = peg$FAILED;
+              }
+              if (s8 !== peg$FAILED) {
+                peg$savedPos = s0;
+                s0 = peg$f2(s1, s5);
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
             } else {
               peg$currPos = s0;
               s0 = peg$FAILED;
@@ -867,87 +928,81 @@ function peg$parse(input, options) {
   }
 
   function peg$parseindirectXInstruction() {
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11;
 
     s0 = peg$currPos;
     s1 = peg$parseopcode();
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
-        s3 = peg$currPos;
         if (input.charCodeAt(peg$currPos) === 40) {
-          s4 = peg$c2;
+          s3 = peg$c2;
           peg$currPos++;
         } else {
-          s4 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e2);
-          }
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e2); }
         }
-        if (s4 !== peg$FAILED) {
-          s5 = peg$parsenumber();
-          if (s5 === peg$FAILED) {
-            s5 = peg$parsename();
+        if (s3 !== peg$FAILED) {
+          s4 = peg$parse_();
+          if (s4 === peg$FAILED) {
+            s4 = null;
           }
+          s5 = peg$parselogicalOr();
           if (s5 !== peg$FAILED) {
+            s6 = peg$parse_();
+            if (s6 === peg$FAILED) {
+              s6 = null;
+            }
             if (input.charCodeAt(peg$currPos) === 44) {
-              s6 = peg$c4;
+              s7 = peg$c4;
               peg$currPos++;
             } else {
-              s6 = peg$FAILED;
-              if (peg$silentFails === 0) {
-                peg$fail(peg$e4);
-              }
+              s7 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e4); }
             }
-            if (s6 !== peg$FAILED) {
-              s7 = peg$parse_();
-              if (s7 === peg$FAILED) {
-                s7 = null;
+            if (s7 !== peg$FAILED) {
+              s8 = peg$parse_();
+              if (s8 === peg$FAILED) {
+                s8 = null;
               }
-              s8 = input.charAt(peg$currPos);
-              if (peg$r0.test(s8)) {
+              s9 = input.charAt(peg$currPos);
+              if (s9.toLowerCase() === peg$c5) {
                 peg$currPos++;
               } else {
-                s8 = peg$FAILED;
-                if (peg$silentFails === 0) {
-                  peg$fail(peg$e5);
-                }
+                s9 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$e5); }
               }
-              if (s8 !== peg$FAILED) {
+              if (s9 !== peg$FAILED) {
+                s10 = peg$parse_();
+                if (s10 === peg$FAILED) {
+                  s10 = null;
+                }
                 if (input.charCodeAt(peg$currPos) === 41) {
-                  s9 = peg$c3;
+                  s11 = peg$c3;
                   peg$currPos++;
                 } else {
-                  s9 = peg$FAILED;
-                  if (peg$silentFails === 0) {
-                    peg$fail(peg$e3);
-                  }
+                  s11 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$e3); }
                 }
-                if (s9 !== peg$FAILED) {
-                  s3 = s5;
+                if (s11 !== peg$FAILED) {
+                  peg$savedPos = s0;
+                  s0 = peg$f3(s1, s5);
                 } else {
-                  peg$currPos = s3;
-                  s3 = peg$FAILED;
+                  peg$currPos = s0;
+                  s0 = peg$FAILED;
                 }
               } else {
-                peg$currPos = s3;
-                s3 = peg$FAILED;
+                peg$currPos = s0;
+                s0 = peg$FAILED;
               }
             } else {
-              peg$currPos = s3;
-              s3 = peg$FAILED;
+              peg$currPos = s0;
+              s0 = peg$FAILED;
             }
           } else {
-            peg$currPos = s3;
-            s3 = peg$FAILED;
+            peg$currPos = s0;
+            s0 = peg$FAILED;
           }
-        } else {
-          peg$currPos = s3;
-          s3 = peg$FAILED;
-        }
-        if (s3 !== peg$FAILED) {
-          peg$savedPos = s0;
-          s0 = peg$f3(s1, s3);
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
@@ -965,87 +1020,135 @@ function peg$parse(input, options) {
   }
 
   function peg$parseindirectYInstruction() {
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11;
 
     s0 = peg$currPos;
     s1 = peg$parseopcode();
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
-        s3 = peg$currPos;
         if (input.charCodeAt(peg$currPos) === 40) {
-          s4 = peg$c2;
+          s3 = peg$c2;
           peg$currPos++;
         } else {
-          s4 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e2);
-          }
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e2); }
         }
-        if (s4 !== peg$FAILED) {
-          s5 = peg$parsenumber();
-          if (s5 === peg$FAILED) {
-            s5 = peg$parsename();
+        if (s3 !== peg$FAILED) {
+          s4 = peg$parse_();
+          if (s4 === peg$FAILED) {
+            s4 = null;
           }
+          s5 = peg$parselogicalOr();
           if (s5 !== peg$FAILED) {
+            s6 = peg$parse_();
+            if (s6 === peg$FAILED) {
+              s6 = null;
+            }
             if (input.charCodeAt(peg$currPos) === 41) {
-              s6 = peg$c3;
+              s7 = peg$c3;
               peg$currPos++;
             } else {
-              s6 = peg$FAILED;
-              if (peg$silentFails === 0) {
-                peg$fail(peg$e3);
-              }
+              s7 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e3); }
             }
-            if (s6 !== peg$FAILED) {
+            if (s7 !== peg$FAILED) {
+              s8 = peg$parse_();
+              if (s8 === peg$FAILED) {
+                s8 = null;
+              }
               if (input.charCodeAt(peg$currPos) === 44) {
-                s7 = peg$c4;
+                s9 = peg$c4;
                 peg$currPos++;
               } else {
-                s7 = peg$FAILED;
-                if (peg$silentFails === 0) {
-                  peg$fail(peg$e4);
-                }
+                s9 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$e4); }
               }
-              if (s7 !== peg$FAILED) {
-                s8 = peg$parse_();
-                if (s8 === peg$FAILED) {
-                  s8 = null;
+              if (s9 !== peg$FAILED) {
+                s10 = peg$parse_();
+                if (s10 === peg$FAILED) {
+                  s10 = null;
                 }
-                s9 = input.charAt(peg$currPos);
-                if (peg$r1.test(s9)) {
+                s11 = input.charAt(peg$currPos);
+                if (s11.toLowerCase() === peg$c6) {
                   peg$currPos++;
                 } else {
-                  s9 = peg$FAILED;
-                  if (peg$silentFails === 0) {
-                    peg$fail(peg$e6);
-                  }
+                  s11 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$e6); }
                 }
-                if (s9 !== peg$FAILED) {
-                  s3 = s5;
+                if (s11 !== peg$FAILED) {
+                  peg$savedPos = s0;
+                  s0 = peg$f4(s1, s5);
                 } else {
-                  peg$currPos = s3;
-                  s3 = peg$FAILED;
+                  peg$currPos = s0;
+                  s0 = peg$FAILED;
                 }
               } else {
-                peg$currPos = s3;
-                s3 = peg$FAILED;
+                peg$currPos = s0;
+                s0 = peg$FAILED;
               }
             } else {
-              peg$currPos = s3;
-              s3 = peg$FAILED;
+              peg$currPos = s0;
+              s0 = peg$FAILED;
             }
           } else {
-            peg$currPos = s3;
-            s3 = peg$FAILED;
+            peg$currPos = s0;
+            s0 = peg$FAILED;
           }
         } else {
-          peg$currPos = s3;
-          s3 = peg$FAILED;
+          peg$currPos = s0;
+          s0 = peg$FAILED;
         }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsezeropageRelativeInstruction() {
+    var s0, s1, s2, s3, s4, s5, s6, s7;
+
+    s0 = peg$currPos;
+    s1 = peg$parsebitBranchOpcode();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 !== peg$FAILED) {
+        s3 = peg$parselogicalOr();
         if (s3 !== peg$FAILED) {
-          peg$savedPos = s0;
-          s0 = peg$f4(s1, s3);
+          s4 = peg$parse_();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (input.charCodeAt(peg$currPos) === 44) {
+            s5 = peg$c4;
+            peg$currPos++;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e4); }
+          }
+          if (s5 !== peg$FAILED) {
+            s6 = peg$parse_();
+            if (s6 === peg$FAILED) {
+              s6 = null;
+            }
+            s7 = peg$parselogicalOr();
+            if (s7 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s0 = peg$f5(s1, s3, s7);
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
@@ -1062,19 +1165,61 @@ function peg$parse(input, options) {
     return s0;
   }
 
+  function peg$parseendOfInstruction() {
+    var s0, s1, s2, s3;
+
+    s0 = peg$currPos;
+    s1 = peg$parse_();
+    if (s1 === peg$FAILED) {
+      s1 = null;
+    }
+    s2 = input.charAt(peg$currPos);
+    if (peg$r0.test(s2)) {
+      peg$currPos++;
+    } else {
+      s2 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e7); }
+    }
+    if (s2 === peg$FAILED) {
+      s2 = peg$currPos;
+      peg$silentFails++;
+      if (input.length > peg$currPos) {
+        s3 = input.charAt(peg$currPos);
+        peg$currPos++;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e8); }
+      }
+      peg$silentFails--;
+      if (s3 === peg$FAILED) {
+        s2 = undefined;
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+    }
+    if (s2 !== peg$FAILED) {
+      s1 = [s1, s2];
+      s0 = s1;
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
   function peg$parsedirective() {
     var s0, s1, s2, s3;
 
     s0 = peg$currPos;
     s1 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 46) {
-      s2 = peg$c5;
+      s2 = peg$c7;
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e7);
-      }
+      if (peg$silentFails === 0) { peg$fail(peg$e9); }
     }
     if (s2 !== peg$FAILED) {
       s3 = peg$parsename();
@@ -1096,7 +1241,7 @@ function peg$parse(input, options) {
       }
       s3 = peg$parseargumentlist();
       peg$savedPos = s0;
-      s0 = peg$f5(s1, s3);
+      s0 = peg$f6(s1, s3);
     } else {
       peg$currPos = s0;
       s0 = peg$FAILED;
@@ -1105,35 +1250,66 @@ function peg$parse(input, options) {
     return s0;
   }
 
-  function peg$parseexpression() {
+  function peg$parsecpuDirective() {
     var s0, s1, s2, s3, s4, s5;
 
     s0 = peg$currPos;
-    s1 = peg$parsenumber();
-    if (s1 === peg$FAILED) {
-      s1 = peg$parsename();
+    s1 = input.substr(peg$currPos, 4);
+    if (s1.toLowerCase() === peg$c8) {
+      peg$currPos += 4;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e10); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
-      if (s2 === peg$FAILED) {
-        s2 = null;
-      }
-      s3 = peg$parseoperator();
-      if (s3 !== peg$FAILED) {
-        s4 = peg$parse_();
-        if (s4 === peg$FAILED) {
-          s4 = null;
+      if (s2 !== peg$FAILED) {
+        s3 = peg$currPos;
+        s4 = [];
+        s5 = input.charAt(peg$currPos);
+        if (peg$r1.test(s5)) {
+          peg$currPos++;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e11); }
         }
-        s5 = peg$parseexpression();
-        if (s5 === peg$FAILED) {
-          s5 = peg$parsenumber();
-          if (s5 === peg$FAILED) {
-            s5 = peg$parsename();
+        if (s5 !== peg$FAILED) {
+          while (s5 !== peg$FAILED) {
+            s4.push(s5);
+            s5 = input.charAt(peg$currPos);
+            if (peg$r1.test(s5)) {
+              peg$currPos++;
+            } else {
+              s5 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e11); }
+            }
           }
+        } else {
+          s4 = peg$FAILED;
         }
-        if (s5 !== peg$FAILED) {
-          peg$savedPos = s0;
-          s0 = peg$f6(s1, s3, s5);
+        if (s4 !== peg$FAILED) {
+          s3 = input.substring(s3, peg$currPos);
+        } else {
+          s3 = s4;
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = peg$currPos;
+          peg$silentFails++;
+          s5 = peg$parseendOfInstruction();
+          peg$silentFails--;
+          if (s5 !== peg$FAILED) {
+            peg$currPos = s4;
+            s4 = undefined;
+          } else {
+            s4 = peg$FAILED;
+          }
+          if (s4 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s0 = peg$f7(s3);
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
@@ -1150,77 +1326,1057 @@ function peg$parse(input, options) {
     return s0;
   }
 
-  function peg$parseoperator() {
-    var s0;
-
-    s0 = input.charAt(peg$currPos);
-    if (peg$r2.test(s0)) {
-      peg$currPos++;
-    } else {
-      s0 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e8);
-      }
-    }
-
-    return s0;
-  }
-
-  function peg$parsecomment() {
-    var s0, s1, s2, s3;
+  function peg$parsemacroDefinition() {
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
 
     s0 = peg$currPos;
-    s1 = [];
-    if (input.charCodeAt(peg$currPos) === 59) {
-      s2 = peg$c6;
-      peg$currPos++;
+    s1 = input.substr(peg$currPos, 6);
+    if (s1.toLowerCase() === peg$c9) {
+      peg$currPos += 6;
     } else {
-      s2 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e9);
-      }
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e12); }
     }
-    if (s2 !== peg$FAILED) {
-      while (s2 !== peg$FAILED) {
-        s1.push(s2);
-        if (input.charCodeAt(peg$currPos) === 59) {
-          s2 = peg$c6;
-          peg$currPos++;
-        } else {
-          s2 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e9);
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 !== peg$FAILED) {
+        s3 = peg$parsename();
+        if (s3 !== peg$FAILED) {
+          s4 = peg$currPos;
+          s5 = peg$parse_();
+          if (s5 !== peg$FAILED) {
+            s6 = peg$currPos;
+            s7 = [];
+            s8 = peg$parsename();
+            while (s8 !== peg$FAILED) {
+              s7.push(s8);
+              s8 = peg$currPos;
+              s9 = peg$parseargdelimiter();
+              if (s9 !== peg$FAILED) {
+                s9 = peg$parsename();
+                if (s9 === peg$FAILED) {
+                  peg$currPos = s8;
+                  s8 = peg$FAILED;
+                } else {
+                  s8 = s9;
+                }
+              } else {
+                s8 = s9;
+              }
+            }
+            if (s7.length < 1) {
+              peg$currPos = s6;
+              s6 = peg$FAILED;
+            } else {
+              s6 = s7;
+            }
+            if (s6 !== peg$FAILED) {
+              s4 = s6;
+            } else {
+              peg$currPos = s4;
+              s4 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s4;
+            s4 = peg$FAILED;
+          }
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          peg$savedPos = s0;
+          s0 = peg$f8(s3, s4);
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsemacroCall() {
+    var s0, s1, s2, s3, s4;
+
+    s0 = peg$currPos;
+    s1 = peg$parsename();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      s3 = peg$parse_();
+      if (s3 !== peg$FAILED) {
+        s4 = peg$parseargumentlist();
+        s2 = s4;
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+      if (s2 === peg$FAILED) {
+        s2 = null;
+      }
+      peg$savedPos = s0;
+      s0 = peg$f9(s1, s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsesymbolDefinition() {
+    var s0, s1, s2, s3, s4, s5;
+
+    s0 = peg$currPos;
+    s1 = peg$parsename();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 === peg$FAILED) {
+        s2 = null;
+      }
+      if (input.charCodeAt(peg$currPos) === 61) {
+        s3 = peg$c10;
+        peg$currPos++;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e13); }
+      }
+      if (s3 !== peg$FAILED) {
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        s5 = peg$parselogicalOr();
+        if (s5 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s0 = peg$f10(s1, s5);
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parselogicalOr() {
+    var s0, s1, s2, s3, s4, s5, s6, s7;
+
+    s0 = peg$currPos;
+    s1 = peg$parselogicalAnd();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 === peg$FAILED) {
+        s4 = null;
+      }
+      if (input.substr(peg$currPos, 2) === peg$c11) {
+        s5 = peg$c11;
+        peg$currPos += 2;
+      } else {
+        s5 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e14); }
+      }
+      if (s5 !== peg$FAILED) {
+        s6 = peg$parse_();
+        if (s6 === peg$FAILED) {
+          s6 = null;
+        }
+        s7 = peg$parselogicalAnd();
+        if (s7 !== peg$FAILED) {
+          s3 = [ s5, s7 ];
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        if (input.substr(peg$currPos, 2) === peg$c11) {
+          s5 = peg$c11;
+          peg$currPos += 2;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e14); }
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 === peg$FAILED) {
+            s6 = null;
+          }
+          s7 = peg$parselogicalAnd();
+          if (s7 !== peg$FAILED) {
+            s3 = [ s5, s7 ];
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      }
+      peg$savedPos = s0;
+      s0 = peg$f11(s1, s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parselogicalAnd() {
+    var s0, s1, s2, s3, s4, s5, s6, s7;
+
+    s0 = peg$currPos;
+    s1 = peg$parsecomparison();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 === peg$FAILED) {
+        s4 = null;
+      }
+      if (input.substr(peg$currPos, 2) === peg$c12) {
+        s5 = peg$c12;
+        peg$currPos += 2;
+      } else {
+        s5 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e15); }
+      }
+      if (s5 !== peg$FAILED) {
+        s6 = peg$parse_();
+        if (s6 === peg$FAILED) {
+          s6 = null;
+        }
+        s7 = peg$parsecomparison();
+        if (s7 !== peg$FAILED) {
+          s3 = [ s5, s7 ];
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        if (input.substr(peg$currPos, 2) === peg$c12) {
+          s5 = peg$c12;
+          peg$currPos += 2;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e15); }
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 === peg$FAILED) {
+            s6 = null;
+          }
+          s7 = peg$parsecomparison();
+          if (s7 !== peg$FAILED) {
+            s3 = [ s5, s7 ];
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      }
+      peg$savedPos = s0;
+      s0 = peg$f12(s1, s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsecomparison() {
+    var s0, s1, s2, s3, s4, s5, s6, s7;
+
+    s0 = peg$currPos;
+    s1 = peg$parsebitwiseOr();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 === peg$FAILED) {
+        s4 = null;
+      }
+      if (input.substr(peg$currPos, 2) === peg$c13) {
+        s5 = peg$c13;
+        peg$currPos += 2;
+      } else {
+        s5 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e16); }
+      }
+      if (s5 === peg$FAILED) {
+        if (input.substr(peg$currPos, 2) === peg$c14) {
+          s5 = peg$c14;
+          peg$currPos += 2;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e17); }
+        }
+        if (s5 === peg$FAILED) {
+          if (input.substr(peg$currPos, 2) === peg$c15) {
+            s5 = peg$c15;
+            peg$currPos += 2;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e18); }
+          }
+          if (s5 === peg$FAILED) {
+            if (input.substr(peg$currPos, 2) === peg$c16) {
+              s5 = peg$c16;
+              peg$currPos += 2;
+            } else {
+              s5 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e19); }
+            }
+            if (s5 === peg$FAILED) {
+              s5 = input.charAt(peg$currPos);
+              if (peg$r2.test(s5)) {
+                peg$currPos++;
+              } else {
+                s5 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$e20); }
+              }
+            }
+          }
+        }
+      }
+      if (s5 !== peg$FAILED) {
+        s6 = peg$parse_();
+        if (s6 === peg$FAILED) {
+          s6 = null;
+        }
+        s7 = peg$parsebitwiseOr();
+        if (s7 !== peg$FAILED) {
+          s3 = [ s5, s7 ];
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        if (input.substr(peg$currPos, 2) === peg$c13) {
+          s5 = peg$c13;
+          peg$currPos += 2;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e16); }
+        }
+        if (s5 === peg$FAILED) {
+          if (input.substr(peg$currPos, 2) === peg$c14) {
+            s5 = peg$c14;
+            peg$currPos += 2;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e17); }
+          }
+          if (s5 === peg$FAILED) {
+            if (input.substr(peg$currPos, 2) === peg$c15) {
+              s5 = peg$c15;
+              peg$currPos += 2;
+            } else {
+              s5 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e18); }
+            }
+            if (s5 === peg$FAILED) {
+              if (input.substr(peg$currPos, 2) === peg$c16) {
+                s5 = peg$c16;
+                peg$currPos += 2;
+              } else {
+                s5 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$e19); }
+              }
+              if (s5 === peg$FAILED) {
+                s5 = input.charAt(peg$currPos);
+                if (peg$r2.test(s5)) {
+                  peg$currPos++;
+                } else {
+                  s5 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$e20); }
+                }
+              }
+            }
+          }
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 === peg$FAILED) {
+            s6 = null;
+          }
+          s7 = peg$parsebitwiseOr();
+          if (s7 !== peg$FAILED) {
+            s3 = [ s5, s7 ];
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      }
+      peg$savedPos = s0;
+      s0 = peg$f13(s1, s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsebitwiseOr() {
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+
+    s0 = peg$currPos;
+    s1 = peg$parsebitwiseXor();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 === peg$FAILED) {
+        s4 = null;
+      }
+      s5 = peg$currPos;
+      s6 = peg$currPos;
+      if (input.charCodeAt(peg$currPos) === 124) {
+        s7 = peg$c17;
+        peg$currPos++;
+      } else {
+        s7 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e21); }
+      }
+      if (s7 !== peg$FAILED) {
+        s8 = peg$currPos;
+        peg$silentFails++;
+        if (input.charCodeAt(peg$currPos) === 124) {
+          s9 = peg$c17;
+          peg$currPos++;
+        } else {
+          s9 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e21); }
+        }
+        peg$silentFails--;
+        if (s9 === peg$FAILED) {
+          s8 = undefined;
+        } else {
+          peg$currPos = s8;
+          s8 = peg$FAILED;
+        }
+        if (s8 !== peg$FAILED) {
+          s7 = [s7, s8];
+          s6 = s7;
+        } else {
+          peg$currPos = s6;
+          s6 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s6;
+        s6 = peg$FAILED;
+      }
+      if (s6 !== peg$FAILED) {
+        s5 = input.substring(s5, peg$currPos);
+      } else {
+        s5 = s6;
+      }
+      if (s5 !== peg$FAILED) {
+        s6 = peg$parse_();
+        if (s6 === peg$FAILED) {
+          s6 = null;
+        }
+        s7 = peg$parsebitwiseXor();
+        if (s7 !== peg$FAILED) {
+          s3 = [ s5, s7 ];
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        s5 = peg$currPos;
+        s6 = peg$currPos;
+        if (input.charCodeAt(peg$currPos) === 124) {
+          s7 = peg$c17;
+          peg$currPos++;
+        } else {
+          s7 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e21); }
+        }
+        if (s7 !== peg$FAILED) {
+          s8 = peg$currPos;
+          peg$silentFails++;
+          if (input.charCodeAt(peg$currPos) === 124) {
+            s9 = peg$c17;
+            peg$currPos++;
+          } else {
+            s9 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e21); }
+          }
+          peg$silentFails--;
+          if (s9 === peg$FAILED) {
+            s8 = undefined;
+          } else {
+            peg$currPos = s8;
+            s8 = peg$FAILED;
+          }
+          if (s8 !== peg$FAILED) {
+            s7 = [s7, s8];
+            s6 = s7;
+          } else {
+            peg$currPos = s6;
+            s6 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s6;
+          s6 = peg$FAILED;
+        }
+        if (s6 !== peg$FAILED) {
+          s5 = input.substring(s5, peg$currPos);
+        } else {
+          s5 = s6;
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 === peg$FAILED) {
+            s6 = null;
+          }
+          s7 = peg$parsebitwiseXor();
+          if (s7 !== peg$FAILED) {
+            s3 = [ s5, s7 ];
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      }
+      peg$savedPos = s0;
+      s0 = peg$f14(s1, s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsebitwiseXor() {
+    var s0, s1, s2, s3, s4, s5, s6, s7;
+
+    s0 = peg$currPos;
+    s1 = peg$parsebitwiseAnd();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 === peg$FAILED) {
+        s4 = null;
+      }
+      if (input.charCodeAt(peg$currPos) === 94) {
+        s5 = peg$c18;
+        peg$currPos++;
+      } else {
+        s5 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e22); }
+      }
+      if (s5 !== peg$FAILED) {
+        s6 = peg$parse_();
+        if (s6 === peg$FAILED) {
+          s6 = null;
+        }
+        s7 = peg$parsebitwiseAnd();
+        if (s7 !== peg$FAILED) {
+          s3 = [ s5, s7 ];
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        if (input.charCodeAt(peg$currPos) === 94) {
+          s5 = peg$c18;
+          peg$currPos++;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e22); }
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 === peg$FAILED) {
+            s6 = null;
+          }
+          s7 = peg$parsebitwiseAnd();
+          if (s7 !== peg$FAILED) {
+            s3 = [ s5, s7 ];
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      }
+      peg$savedPos = s0;
+      s0 = peg$f15(s1, s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsebitwiseAnd() {
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+
+    s0 = peg$currPos;
+    s1 = peg$parseshift();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 === peg$FAILED) {
+        s4 = null;
+      }
+      s5 = peg$currPos;
+      s6 = peg$currPos;
+      if (input.charCodeAt(peg$currPos) === 38) {
+        s7 = peg$c19;
+        peg$currPos++;
+      } else {
+        s7 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e23); }
+      }
+      if (s7 !== peg$FAILED) {
+        s8 = peg$currPos;
+        peg$silentFails++;
+        if (input.charCodeAt(peg$currPos) === 38) {
+          s9 = peg$c19;
+          peg$currPos++;
+        } else {
+          s9 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e23); }
+        }
+        peg$silentFails--;
+        if (s9 === peg$FAILED) {
+          s8 = undefined;
+        } else {
+          peg$currPos = s8;
+          s8 = peg$FAILED;
+        }
+        if (s8 !== peg$FAILED) {
+          s7 = [s7, s8];
+          s6 = s7;
+        } else {
+          peg$currPos = s6;
+          s6 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s6;
+        s6 = peg$FAILED;
+      }
+      if (s6 !== peg$FAILED) {
+        s5 = input.substring(s5, peg$currPos);
+      } else {
+        s5 = s6;
+      }
+      if (s5 !== peg$FAILED) {
+        s6 = peg$parse_();
+        if (s6 === peg$FAILED) {
+          s6 = null;
+        }
+        s7 = peg$parseshift();
+        if (s7 !== peg$FAILED) {
+          s3 = [ s5, s7 ];
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        s5 = peg$currPos;
+        s6 = peg$currPos;
+        if (input.charCodeAt(peg$currPos) === 38) {
+          s7 = peg$c19;
+          peg$currPos++;
+        } else {
+          s7 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e23); }
+        }
+        if (s7 !== peg$FAILED) {
+          s8 = peg$currPos;
+          peg$silentFails++;
+          if (input.charCodeAt(peg$currPos) === 38) {
+            s9 = peg$c19;
+            peg$currPos++;
+          } else {
+            s9 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e23); }
+          }
+          peg$silentFails--;
+          if (s9 === peg$FAILED) {
+            s8 = undefined;
+          } else {
+            peg$currPos = s8;
+            s8 = peg$FAILED;
+          }
+          if (s8 !== peg$FAILED) {
+            s7 = [s7, s8];
+            s6 = s7;
+          } else {
+            peg$currPos = s6;
+            s6 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s6;
+          s6 = peg$FAILED;
+        }
+        if (s6 !== peg$FAILED) {
+          s5 = input.substring(s5, peg$currPos);
+        } else {
+          s5 = s6;
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 === peg$FAILED) {
+            s6 = null;
+          }
+          s7 = peg$parseshift();
+          if (s7 !== peg$FAILED) {
+            s3 = [ s5, s7 ];
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      }
+      peg$savedPos = s0;
+      s0 = peg$f16(s1, s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parseshift() {
+    var s0, s1, s2, s3, s4, s5, s6, s7;
+
+    s0 = peg$currPos;
+    s1 = peg$parseadditive();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 === peg$FAILED) {
+        s4 = null;
+      }
+      if (input.substr(peg$currPos, 2) === peg$c20) {
+        s5 = peg$c20;
+        peg$currPos += 2;
+      } else {
+        s5 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e24); }
+      }
+      if (s5 === peg$FAILED) {
+        if (input.substr(peg$currPos, 2) === peg$c21) {
+          s5 = peg$c21;
+          peg$currPos += 2;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e25); }
+        }
+      }
+      if (s5 !== peg$FAILED) {
+        s6 = peg$parse_();
+        if (s6 === peg$FAILED) {
+          s6 = null;
+        }
+        s7 = peg$parseadditive();
+        if (s7 !== peg$FAILED) {
+          s3 = [ s5, s7 ];
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        if (input.substr(peg$currPos, 2) === peg$c20) {
+          s5 = peg$c20;
+          peg$currPos += 2;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e24); }
+        }
+        if (s5 === peg$FAILED) {
+          if (input.substr(peg$currPos, 2) === peg$c21) {
+            s5 = peg$c21;
+            peg$currPos += 2;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e25); }
+          }
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 === peg$FAILED) {
+            s6 = null;
+          }
+          s7 = peg$parseadditive();
+          if (s7 !== peg$FAILED) {
+            s3 = [ s5, s7 ];
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
           }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
         }
       }
+      peg$savedPos = s0;
+      s0 = peg$f17(s1, s2);
     } else {
-      s1 = peg$FAILED;
+      peg$currPos = s0;
+      s0 = peg$FAILED;
     }
+
+    return s0;
+  }
+
+  function peg$parseadditive() {
+    var s0, s1, s2, s3, s4, s5, s6, s7;
+
+    s0 = peg$currPos;
+    s1 = peg$parsemultiplicative();
     if (s1 !== peg$FAILED) {
       s2 = [];
-      s3 = input.charAt(peg$currPos);
-      if (peg$r3.test(s3)) {
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 === peg$FAILED) {
+        s4 = null;
+      }
+      s5 = input.charAt(peg$currPos);
+      if (peg$r3.test(s5)) {
         peg$currPos++;
       } else {
-        s3 = peg$FAILED;
-        if (peg$silentFails === 0) {
-          peg$fail(peg$e10);
+        s5 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e26); }
+      }
+      if (s5 !== peg$FAILED) {
+        s6 = peg$parse_();
+        if (s6 === peg$FAILED) {
+          s6 = null;
+        }
+        s7 = peg$parsemultiplicative();
+        if (s7 !== peg$FAILED) {
+          s3 = [ s5, s7 ];
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
         }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
       }
       while (s3 !== peg$FAILED) {
         s2.push(s3);
-        s3 = input.charAt(peg$currPos);
-        if (peg$r3.test(s3)) {
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        s5 = input.charAt(peg$currPos);
+        if (peg$r3.test(s5)) {
           peg$currPos++;
         } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e26); }
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 === peg$FAILED) {
+            s6 = null;
+          }
+          s7 = peg$parsemultiplicative();
+          if (s7 !== peg$FAILED) {
+            s3 = [ s5, s7 ];
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+      }
+      peg$savedPos = s0;
+      s0 = peg$f18(s1, s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsemultiplicative() {
+    var s0, s1, s2, s3, s4, s5, s6, s7;
+
+    s0 = peg$currPos;
+    s1 = peg$parseunary();
+    if (s1 !== peg$FAILED) {
+      s2 = [];
+      s3 = peg$currPos;
+      s4 = peg$parse_();
+      if (s4 === peg$FAILED) {
+        s4 = null;
+      }
+      s5 = input.charAt(peg$currPos);
+      if (peg$r4.test(s5)) {
+        peg$currPos++;
+      } else {
+        s5 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e27); }
+      }
+      if (s5 !== peg$FAILED) {
+        s6 = peg$parse_();
+        if (s6 === peg$FAILED) {
+          s6 = null;
+        }
+        s7 = peg$parseunary();
+        if (s7 !== peg$FAILED) {
+          s3 = [ s5, s7 ];
+        } else {
+          peg$currPos = s3;
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e10);
+        }
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        s5 = input.charAt(peg$currPos);
+        if (peg$r4.test(s5)) {
+          peg$currPos++;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e27); }
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = peg$parse_();
+          if (s6 === peg$FAILED) {
+            s6 = null;
+          }
+          s7 = peg$parseunary();
+          if (s7 !== peg$FAILED) {
+            s3 = [ s5, s7 ];
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
           }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
         }
       }
       peg$savedPos = s0;
-      s0 = peg$f7(s2);
+      s0 = peg$f19(s1, s2);
     } else {
       peg$currPos = s0;
       s0 = peg$FAILED;
@@ -1229,26 +2385,105 @@ function peg$parse(input, options) {
     return s0;
   }
 
-  function peg$parseargument() {
-    var s0, s1;
+  function peg$parseunary() {
+    var s0, s1, s2, s3;
 
-    s0 = peg$parseindexedArg();
+    s0 = peg$currPos;
+    s1 = input.charAt(peg$currPos);
+    if (peg$r5.test(s1)) {
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e28); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 === peg$FAILED) {
+        s2 = null;
+      }
+      s3 = peg$parseunary();
+      if (s3 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s0 = peg$f20(s1, s3);
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+    if (s0 === peg$FAILED) {
+      s0 = peg$parseprimary();
+    }
+
+    return s0;
+  }
+
+  function peg$parseprimary() {
+    var s0, s1, s2, s3, s4, s5;
+
+    s0 = peg$parsenumber();
     if (s0 === peg$FAILED) {
-      s0 = peg$parseexpression();
+      s0 = peg$parsecharacter();
       if (s0 === peg$FAILED) {
-        s0 = peg$currPos;
-        s1 = peg$parsenumber();
-        if (s1 === peg$FAILED) {
-          s1 = peg$parsename();
-          if (s1 === peg$FAILED) {
-            s1 = peg$parsestring();
+        s0 = peg$parsename();
+        if (s0 === peg$FAILED) {
+          s0 = peg$currPos;
+          if (input.charCodeAt(peg$currPos) === 42) {
+            s1 = peg$c22;
+            peg$currPos++;
+          } else {
+            s1 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e29); }
+          }
+          if (s1 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s1 = peg$f21();
           }
-        }
-        if (s1 !== peg$FAILED) {
           s0 = s1;
-        } else {
-          peg$currPos = s0;
-          s0 = peg$FAILED;
+          if (s0 === peg$FAILED) {
+            s0 = peg$currPos;
+            if (input.charCodeAt(peg$currPos) === 40) {
+              s1 = peg$c2;
+              peg$currPos++;
+            } else {
+              s1 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e2); }
+            }
+            if (s1 !== peg$FAILED) {
+              s2 = peg$parse_();
+              if (s2 === peg$FAILED) {
+                s2 = null;
+              }
+              s3 = peg$parselogicalOr();
+              if (s3 !== peg$FAILED) {
+                s4 = peg$parse_();
+                if (s4 === peg$FAILED) {
+                  s4 = null;
+                }
+                if (input.charCodeAt(peg$currPos) === 41) {
+                  s5 = peg$c3;
+                  peg$currPos++;
+                } else {
+                  s5 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$e3); }
+                }
+                if (s5 !== peg$FAILED) {
+                  s0 = s3;
+                } else {
+                  peg$currPos = s0;
+                  s0 = peg$FAILED;
+                }
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          }
         }
       }
     }
@@ -1256,43 +2491,104 @@ function peg$parse(input, options) {
     return s0;
   }
 
-  function peg$parseindexedArg() {
-    var s0, s1, s2, s3, s4;
+  function peg$parsecomment() {
+    var s0, s1, s2, s3;
 
     s0 = peg$currPos;
-    s1 = peg$parseexpression();
-    if (s1 === peg$FAILED) {
-      s1 = peg$parsenumber();
-      if (s1 === peg$FAILED) {
-        s1 = peg$parsename();
+    s1 = [];
+    if (input.charCodeAt(peg$currPos) === 59) {
+      s2 = peg$c23;
+      peg$currPos++;
+    } else {
+      s2 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e30); }
+    }
+    if (s2 !== peg$FAILED) {
+      while (s2 !== peg$FAILED) {
+        s1.push(s2);
+        if (input.charCodeAt(peg$currPos) === 59) {
+          s2 = peg$c23;
+          peg$currPos++;
+        } else {
+          s2 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e30); }
+        }
       }
+    } else {
+      s1 = peg$FAILED;
     }
     if (s1 !== peg$FAILED) {
-      if (input.charCodeAt(peg$currPos) === 44) {
-        s2 = peg$c4;
+      s2 = [];
+      s3 = input.charAt(peg$currPos);
+      if (peg$r6.test(s3)) {
         peg$currPos++;
       } else {
-        s2 = peg$FAILED;
-        if (peg$silentFails === 0) {
-          peg$fail(peg$e4);
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e31); }
+      }
+      while (s3 !== peg$FAILED) {
+        s2.push(s3);
+        s3 = input.charAt(peg$currPos);
+        if (peg$r6.test(s3)) {
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e31); }
         }
       }
-      if (s2 !== peg$FAILED) {
-        s3 = peg$parse_();
-        if (s3 === peg$FAILED) {
-          s3 = null;
+      peg$savedPos = s0;
+      s0 = peg$f22(s2);
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parseargument() {
+    var s0;
+
+    s0 = peg$parseindexedArg();
+    if (s0 === peg$FAILED) {
+      s0 = peg$parselogicalOr();
+    }
+
+    return s0;
+  }
+
+  function peg$parseindexedArg() {
+    var s0, s1, s2, s3, s4, s5;
+
+    s0 = peg$currPos;
+    s1 = peg$parselogicalOr();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 === peg$FAILED) {
+        s2 = null;
+      }
+      if (input.charCodeAt(peg$currPos) === 44) {
+        s3 = peg$c4;
+        peg$currPos++;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e4); }
+      }
+      if (s3 !== peg$FAILED) {
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
         }
-        s4 = input.charAt(peg$currPos);
-        if (peg$r4.test(s4)) {
+        s5 = input.charAt(peg$currPos);
+        if (peg$r7.test(s5)) {
           peg$currPos++;
         } else {
-          s4 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e11);
-          }
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e32); }
         }
-        if (s4 !== peg$FAILED) {
-          s0 = [s1, s4];
+        if (s5 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s0 = peg$f23(s1, s5);
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
@@ -1314,13 +2610,19 @@ function peg$parse(input, options) {
 
     s0 = peg$currPos;
     s1 = [];
-    s2 = peg$parseargument();
+    s2 = peg$parsestring();
+    if (s2 === peg$FAILED) {
+      s2 = peg$parselogicalOr();
+    }
     while (s2 !== peg$FAILED) {
       s1.push(s2);
       s2 = peg$currPos;
       s3 = peg$parseargdelimiter();
       if (s3 !== peg$FAILED) {
-        s3 = peg$parseargument();
+        s3 = peg$parsestring();
+        if (s3 === peg$FAILED) {
+          s3 = peg$parselogicalOr();
+        }
         if (s3 === peg$FAILED) {
           peg$currPos = s2;
           s2 = peg$FAILED;
@@ -1343,17 +2645,15 @@ function peg$parse(input, options) {
     s1 = peg$parsename();
     if (s1 !== peg$FAILED) {
       if (input.charCodeAt(peg$currPos) === 58) {
-        s2 = peg$c7;
+        s2 = peg$c24;
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) {
-          peg$fail(peg$e12);
-        }
+        if (peg$silentFails === 0) { peg$fail(peg$e33); }
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s0 = peg$f8(s1);
+        s0 = peg$f24(s1);
       } else {
         peg$currPos = s0;
         s0 = peg$FAILED;
@@ -1372,25 +2672,21 @@ function peg$parse(input, options) {
     s0 = peg$currPos;
     s1 = [];
     s2 = input.charAt(peg$currPos);
-    if (peg$r5.test(s2)) {
+    if (peg$r8.test(s2)) {
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e13);
-      }
+      if (peg$silentFails === 0) { peg$fail(peg$e34); }
     }
     if (s2 !== peg$FAILED) {
       while (s2 !== peg$FAILED) {
         s1.push(s2);
         s2 = input.charAt(peg$currPos);
-        if (peg$r5.test(s2)) {
+        if (peg$r8.test(s2)) {
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e13);
-          }
+          if (peg$silentFails === 0) { peg$fail(peg$e34); }
         }
       }
     } else {
@@ -1398,7 +2694,7 @@ function peg$parse(input, options) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$f9(s1);
+      s1 = peg$f25(s1);
     }
     s0 = s1;
 
@@ -1410,49 +2706,87 @@ function peg$parse(input, options) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 34) {
-      s1 = peg$c8;
+      s1 = peg$c25;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e14);
-      }
+      if (peg$silentFails === 0) { peg$fail(peg$e35); }
     }
     if (s1 !== peg$FAILED) {
       s2 = [];
       s3 = input.charAt(peg$currPos);
-      if (peg$r6.test(s3)) {
+      if (peg$r9.test(s3)) {
         peg$currPos++;
       } else {
         s3 = peg$FAILED;
-        if (peg$silentFails === 0) {
-          peg$fail(peg$e15);
-        }
+        if (peg$silentFails === 0) { peg$fail(peg$e36); }
       }
       while (s3 !== peg$FAILED) {
         s2.push(s3);
         s3 = input.charAt(peg$currPos);
-        if (peg$r6.test(s3)) {
+        if (peg$r9.test(s3)) {
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e15);
-          }
+          if (peg$silentFails === 0) { peg$fail(peg$e36); }
         }
       }
       if (input.charCodeAt(peg$currPos) === 34) {
-        s3 = peg$c8;
+        s3 = peg$c25;
         peg$currPos++;
       } else {
         s3 = peg$FAILED;
-        if (peg$silentFails === 0) {
-          peg$fail(peg$e14);
-        }
+        if (peg$silentFails === 0) { peg$fail(peg$e35); }
       }
       if (s3 !== peg$FAILED) {
         peg$savedPos = s0;
-        s0 = peg$f10(s2);
+        s0 = peg$f26(s2);
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsecharacter() {
+    var s0, s1, s2, s3;
+
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 39) {
+      s1 = peg$c26;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e37); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = input.charAt(peg$currPos);
+      if (peg$r10.test(s2)) {
+        peg$currPos++;
+      } else {
+        s2 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e38); }
+      }
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 39) {
+          s3 = peg$c26;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e37); }
+        }
+        if (s3 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s0 = peg$f27(s2);
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
       } else {
         peg$currPos = s0;
         s0 = peg$FAILED;
@@ -1484,36 +2818,30 @@ function peg$parse(input, options) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 37) {
-      s1 = peg$c9;
+      s1 = peg$c27;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e16);
-      }
+      if (peg$silentFails === 0) { peg$fail(peg$e39); }
     }
     if (s1 !== peg$FAILED) {
       s2 = [];
       s3 = input.charAt(peg$currPos);
-      if (peg$r7.test(s3)) {
+      if (peg$r11.test(s3)) {
         peg$currPos++;
       } else {
         s3 = peg$FAILED;
-        if (peg$silentFails === 0) {
-          peg$fail(peg$e17);
-        }
+        if (peg$silentFails === 0) { peg$fail(peg$e40); }
       }
       if (s3 !== peg$FAILED) {
         while (s3 !== peg$FAILED) {
           s2.push(s3);
           s3 = input.charAt(peg$currPos);
-          if (peg$r7.test(s3)) {
+          if (peg$r11.test(s3)) {
             peg$currPos++;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) {
-              peg$fail(peg$e17);
-            }
+            if (peg$silentFails === 0) { peg$fail(peg$e40); }
           }
         }
       } else {
@@ -1521,7 +2849,7 @@ function peg$parse(input, options) {
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s0 = peg$f11(s2);
+        s0 = peg$f28(s2);
       } else {
         peg$currPos = s0;
         s0 = peg$FAILED;
@@ -1540,25 +2868,21 @@ function peg$parse(input, options) {
     s0 = peg$currPos;
     s1 = [];
     s2 = input.charAt(peg$currPos);
-    if (peg$r8.test(s2)) {
+    if (peg$r12.test(s2)) {
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e18);
-      }
+      if (peg$silentFails === 0) { peg$fail(peg$e41); }
     }
     if (s2 !== peg$FAILED) {
       while (s2 !== peg$FAILED) {
         s1.push(s2);
         s2 = input.charAt(peg$currPos);
-        if (peg$r8.test(s2)) {
+        if (peg$r12.test(s2)) {
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e18);
-          }
+          if (peg$silentFails === 0) { peg$fail(peg$e41); }
         }
       }
     } else {
@@ -1566,7 +2890,7 @@ function peg$parse(input, options) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$f12(s1);
+      s1 = peg$f29(s1);
     }
     s0 = s1;
 
@@ -1578,36 +2902,30 @@ function peg$parse(input, options) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 36) {
-      s1 = peg$c10;
+      s1 = peg$c28;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e19);
-      }
+      if (peg$silentFails === 0) { peg$fail(peg$e42); }
     }
     if (s1 !== peg$FAILED) {
       s2 = [];
       s3 = input.charAt(peg$currPos);
-      if (peg$r9.test(s3)) {
+      if (peg$r13.test(s3)) {
         peg$currPos++;
       } else {
         s3 = peg$FAILED;
-        if (peg$silentFails === 0) {
-          peg$fail(peg$e20);
-        }
+        if (peg$silentFails === 0) { peg$fail(peg$e43); }
       }
       if (s3 !== peg$FAILED) {
         while (s3 !== peg$FAILED) {
           s2.push(s3);
           s3 = input.charAt(peg$currPos);
-          if (peg$r9.test(s3)) {
+          if (peg$r13.test(s3)) {
             peg$currPos++;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) {
-              peg$fail(peg$e20);
-            }
+            if (peg$silentFails === 0) { peg$fail(peg$e43); }
           }
         }
       } else {
@@ -1615,7 +2933,7 @@ function peg$parse(input, options) {
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s0 = peg$f13(s2);
+        s0 = peg$f30(s2);
       } else {
         peg$currPos = s0;
         s0 = peg$FAILED;
@@ -1633,25 +2951,21 @@ function peg$parse(input, options) {
 
     s0 = [];
     s1 = input.charAt(peg$currPos);
-    if (peg$r10.test(s1)) {
+    if (peg$r14.test(s1)) {
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e21);
-      }
+      if (peg$silentFails === 0) { peg$fail(peg$e44); }
     }
     if (s1 !== peg$FAILED) {
       while (s1 !== peg$FAILED) {
         s0.push(s1);
         s1 = input.charAt(peg$currPos);
-        if (peg$r10.test(s1)) {
+        if (peg$r14.test(s1)) {
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e21);
-          }
+          if (peg$silentFails === 0) { peg$fail(peg$e44); }
         }
       }
     } else {
@@ -1662,24 +2976,26 @@ function peg$parse(input, options) {
   }
 
   function peg$parseargdelimiter() {
-    var s0, s1, s2;
+    var s0, s1, s2, s3;
 
     s0 = peg$currPos;
+    s1 = peg$parse_();
+    if (s1 === peg$FAILED) {
+      s1 = null;
+    }
     if (input.charCodeAt(peg$currPos) === 44) {
-      s1 = peg$c4;
+      s2 = peg$c4;
       peg$currPos++;
     } else {
-      s1 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e4);
-      }
+      s2 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e4); }
     }
-    if (s1 !== peg$FAILED) {
-      s2 = peg$parse_();
-      if (s2 === peg$FAILED) {
-        s2 = null;
+    if (s2 !== peg$FAILED) {
+      s3 = peg$parse_();
+      if (s3 === peg$FAILED) {
+        s3 = null;
       }
-      s1 = [s1, s2];
+      s1 = [s1, s2, s3];
       s0 = s1;
     } else {
       peg$currPos = s0;
@@ -1690,1183 +3006,694 @@ function peg$parse(input, options) {
   }
 
   function peg$parseopcode() {
-    var s0;
+    var s0, s1, s2, s3, s4;
 
-    s0 = input.substr(peg$currPos, 3);
-    if (s0.toLowerCase() === peg$c11) {
-      peg$currPos += 3;
-    } else {
-      s0 = peg$FAILED;
-      if (peg$silentFails === 0) {
-        peg$fail(peg$e22);
-      }
-    }
-    if (s0 === peg$FAILED) {
-      s0 = input.substr(peg$currPos, 3);
-      if (s0.toLowerCase() === peg$c12) {
+    s0 = peg$currPos;
+    s1 = peg$parsebitBranchOpcode();
+    if (s1 === peg$FAILED) {
+      s1 = peg$currPos;
+      s2 = peg$currPos;
+      s3 = input.substr(peg$currPos, 3);
+      if (s3.toLowerCase() === peg$c29) {
         peg$currPos += 3;
       } else {
-        s0 = peg$FAILED;
-        if (peg$silentFails === 0) {
-          peg$fail(peg$e23);
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e45); }
+      }
+      if (s3 === peg$FAILED) {
+        s3 = input.substr(peg$currPos, 3);
+        if (s3.toLowerCase() === peg$c30) {
+          peg$currPos += 3;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e46); }
         }
       }
-      if (s0 === peg$FAILED) {
-        s0 = input.substr(peg$currPos, 3);
-        if (s0.toLowerCase() === peg$c13) {
+      if (s3 !== peg$FAILED) {
+        s4 = input.charAt(peg$currPos);
+        if (peg$r15.test(s4)) {
+          peg$currPos++;
+        } else {
+          s4 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e47); }
+        }
+        if (s4 !== peg$FAILED) {
+          s3 = [s3, s4];
+          s2 = s3;
+        } else {
+          peg$currPos = s2;
+          s2 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+      if (s2 !== peg$FAILED) {
+        s1 = input.substring(s1, peg$currPos);
+      } else {
+        s1 = s2;
+      }
+      if (s1 === peg$FAILED) {
+        s1 = input.substr(peg$currPos, 3);
+        if (s1.toLowerCase() === peg$c31) {
           peg$currPos += 3;
         } else {
-          s0 = peg$FAILED;
-          if (peg$silentFails === 0) {
-            peg$fail(peg$e24);
-          }
+          s1 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$e48); }
         }
-        if (s0 === peg$FAILED) {
-          s0 = input.substr(peg$currPos, 3);
-          if (s0.toLowerCase() === peg$c14) {
+        if (s1 === peg$FAILED) {
+          s1 = input.substr(peg$currPos, 3);
+          if (s1.toLowerCase() === peg$c32) {
             peg$currPos += 3;
           } else {
-            s0 = peg$FAILED;
-            if (peg$silentFails === 0) {
-              peg$fail(peg$e25);
-            }
+            s1 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$e49); }
           }
-          if (s0 === peg$FAILED) {
-            s0 = input.substr(peg$currPos, 3);
-            if (s0.toLowerCase() === peg$c15) {
+          if (s1 === peg$FAILED) {
+            s1 = input.substr(peg$currPos, 3);
+            if (s1.toLowerCase() === peg$c33) {
               peg$currPos += 3;
             } else {
-              s0 = peg$FAILED;
-              if (peg$silentFails === 0) {
-                peg$fail(peg$e26);
-              }
+              s1 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$e50); }
             }
-            if (s0 === peg$FAILED) {
-              s0 = input.substr(peg$currPos, 3);
-              if (s0.toLowerCase() === peg$c16) {
+            if (s1 === peg$FAILED) {
+              s1 = input.substr(peg$currPos, 3);
+              if (s1.toLowerCase() === peg$c34) {
                 peg$currPos += 3;
               } else {
-                s0 = peg$FAILED;
-                if (peg$silentFails === 0) {
-                  peg$fail(peg$e27);
-                }
+                s1 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$e51); }
               }
-              if (s0 === peg$FAILED) {
-                s0 = input.substr(peg$currPos, 3);
-                if (s0.toLowerCase() === peg$c17) {
+              if (s1 === peg$FAILED) {
+                s1 = input.substr(peg$currPos, 3);
+                if (s1.toLowerCase() === peg$c35) {
                   peg$currPos += 3;
                 } else {
-                  s0 = peg$FAILED;
-                  if (peg$silentFails === 0) {
-                    peg$fail(peg$e28);
-                  }
+                  s1 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$e52); }
                 }
-                if (s0 === peg$FAILED) {
-                  s0 = input.substr(peg$currPos, 3);
-                  if (s0.toLowerCase() === peg$c18) {
+                if (s1 === peg$FAILED) {
+                  s1 = input.substr(peg$currPos, 3);
+                  if (s1.toLowerCase() === peg$c36) {
                     peg$currPos += 3;
                   } else {
-                    s0 = peg$FAILED;
-                    if (peg$silentFails === 0) {
-                      peg$fail(peg$e29);
-                    }
+                    s1 = peg$FAILED;
+                    if (peg$silentFails === 0) { peg$fail(peg$e53); }
                   }
-                  if (s0 === peg$FAILED) {
-                    s0 = input.substr(peg$currPos, 3);
-                    if (s0.toLowerCase() === peg$c19) {
+                  if (s1 === peg$FAILED) {
+                    s1 = input.substr(peg$currPos, 3);
+                    if (s1.toLowerCase() === peg$c37) {
                       peg$currPos += 3;
                     } else {
-                      s0 = peg$FAILED;
-                      if (peg$silentFails === 0) {
-                        peg$fail(peg$e30);
-                      }
+                      s1 = peg$FAILED;
+                      if (peg$silentFails === 0) { peg$fail(peg$e54); }
                     }
-                    if (s0 === peg$FAILED) {
-                      s0 = input.substr(peg$currPos, 3);
-                      if (s0.toLowerCase() === peg$c20) {
+                    if (s1 === peg$FAILED) {
+                      s1 = input.substr(peg$currPos, 3);
+                      if (s1.toLowerCase() === peg$c38) {
                         peg$currPos += 3;
                       } else {
-                        s0 = peg$FAILED;
-                        if (peg$silentFails === 0) {
-                          peg$fail(peg$e31);
-                        }
+                        s1 = peg$FAILED;
+                        if (peg$silentFails === 0) { peg$fail(peg$e55); }
                       }
-                      if (s0 === peg$FAILED) {
-                        s0 = input.substr(peg$currPos, 3);
-                        if (s0.toLowerCase() === peg$c21) {
+                      if (s1 === peg$FAILED) {
+                        s1 = input.substr(peg$currPos, 3);
+                        if (s1.toLowerCase() === peg$c39) {
                           peg$currPos += 3;
                         } else {
-                          s0 = peg$FAILED;
-                          if (peg$silentFails === 0) {
-                            peg$fail(peg$e32);
-                          }
+                          s1 = peg$FAILED;
+                          if (peg$silentFails === 0) { peg$fail(peg$e56); }
                         }
-                        if (s0 === peg$FAILED) {
-                          s0 = input.substr(peg$currPos, 3);
-                          if (s0.toLowerCase() === peg$c22) {
+                        if (s1 === peg$FAILED) {
+                          s1 = input.substr(peg$currPos, 3);
+                          if (s1.toLowerCase() === peg$c40) {
                             peg$currPos += 3;
                           } else {
-                            s0 = peg$FAILED;
-                            if (peg$silentFails === 0) {
-                              peg$fail(peg$e33);
-                            }
+                            s1 = peg$FAILED;
+                            if (peg$silentFails === 0) { peg$fail(peg$e57); }
                           }
-                          if (s0 === peg$FAILED) {
-                            s0 = input.substr(peg$currPos, 3);
-                            if (s0.toLowerCase() === peg$c23) {
+                          if (s1 === peg$FAILED) {
+                            s1 = input.substr(peg$currPos, 3);
+                            if (s1.toLowerCase() === peg$c41) {
                               peg$currPos += 3;
                             } else {
-                              s0 = peg$FAILED;
-                              if (peg$silentFails === 0) {
-                                peg$fail(peg$e34);
-                              }
+                              s1 = peg$FAILED;
+                              if (peg$silentFails === 0) { peg$fail(peg$e58); }
                             }
-                            if (s0 === peg$FAILED) {
-                              s0 = input.substr(peg$currPos, 3);
-                              if (s0.toLowerCase() === peg$c24) {
+                            if (s1 === peg$FAILED) {
+                              s1 = input.substr(peg$currPos, 3);
+                              if (s1.toLowerCase() === peg$c42) {
                                 peg$currPos += 3;
                               } else {
-                                s0 = peg$FAILED;
-                                if (peg$silentFails === 0) {
-                                  peg$fail(peg$e35);
-                                }
+                                s1 = peg$FAILED;
+                                if (peg$silentFails === 0) { peg$fail(peg$e59); }
                               }
-                              if (s0 === peg$FAILED) {
-                                s0 = input.substr(peg$currPos, 3);
-                                if (s0.toLowerCase() === peg$c25) {
+                              if (s1 === peg$FAILED) {
+                                s1 = input.substr(peg$currPos, 3);
+                                if (s1.toLowerCase() === peg$c43) {
                                   peg$currPos += 3;
                                 } else {
-                                  s0 = peg$FAILED;
-                                  if (peg$silentFails === 0) {
-                                    peg$fail(peg$e36);
-                                  }
+                                  s1 = peg$FAILED;
+                                  if (peg$silentFails === 0) { peg$fail(peg$e60); }
                                 }
-                                if (s0 === peg$FAILED) {
-                                  s0 = input.substr(peg$currPos, 3);
-                                  if (s0.toLowerCase() === peg$c26) {
+                                if (s1 === peg$FAILED) {
+                                  s1 = input.substr(peg$currPos, 3);
+                                  if (s1.toLowerCase() === peg$c44) {
                                     peg$currPos += 3;
                                   } else {
-                                    s0 = peg$FAILED;
-                                    if (peg$silentFails === 0) {
-                                      peg$fail(peg$e37);
-                                    }
+                                    s1 = peg$FAILED;
+                                    if (peg$silentFails === 0) { peg$fail(peg$e61); }
                                   }
-                                  if (s0 === peg$FAILED) {
-                                    s0 = input.substr(peg$currPos, 3);
-                                    if (s0.toLowerCase() === peg$c27) {
+                                  if (s1 === peg$FAILED) {
+                                    s1 = input.substr(peg$currPos, 3);
+                                    if (s1.toLowerCase() === peg$c45) {
                                       peg$currPos += 3;
                                     } else {
-                                      s0 = peg$FAILED;
-                                      if (peg$silentFails === 0) {
-                                        peg$fail(peg$e38);
-                                      }
+                                      s1 = peg$FAILED;
+                                      if (peg$silentFails === 0) { peg$fail(peg$e62); }
                                     }
-                                    if (s0 === peg$FAILED) {
-                                      s0 = input.substr(peg$currPos, 3);
-                                      if (s0.toLowerCase() === peg$c28) {
+                                    if (s1 === peg$FAILED) {
+                                      s1 = input.substr(peg$currPos, 3);
+                                      if (s1.toLowerCase() === peg$c46) {
                                         peg$currPos += 3;
                                       } else {
-                                        s0 = peg$FAILED;
-                                        if (peg$silentFails === 0) {
-                                          peg$fail(peg$e39);
-                                        }
+                                        s1 = peg$FAILED;
+                                        if (peg$silentFails === 0) { peg$fail(peg$e63); }
                                       }
-                                      if (s0 === peg$FAILED) {
-                                        s0 = input.substr(peg$currPos, 3);
-                                        if (s0.toLowerCase() === peg$c29) {
+                                      if (s1 === peg$FAILED) {
+                                        s1 = input.substr(peg$currPos, 3);
+                                        if (s1.toLowerCase() === peg$c47) {
                                           peg$currPos += 3;
                                         } else {
-                                          s0 = peg$FAILED;
-                                          if (peg$silentFails === 0) {
-                                            peg$fail(peg$e40);
-                                          }
+                                          s1 = peg$FAILED;
+                                          if (peg$silentFails === 0) { peg$fail(peg$e64); }
                                         }
-                                        if (s0 === peg$FAILED) {
-                                          s0 = input.substr(peg$currPos, 3);
-                                          if (s0.toLowerCase() === peg$c30) {
+                                        if (s1 === peg$FAILED) {
+                                          s1 = input.substr(peg$currPos, 3);
+                                          if (s1.toLowerCase() === peg$c48) {
                                             peg$currPos += 3;
                                           } else {
-                                            s0 = peg$FAILED;
-                                            if (peg$silentFails === 0) {
-                                              peg$fail(peg$e41);
-                                            }
+                                            s1 = peg$FAILED;
+                                            if (peg$silentFails === 0) { peg$fail(peg$e65); }
                                           }
-                                          if (s0 === peg$FAILED) {
-                                            s0 = input.substr(peg$currPos, 3);
-                                            if (s0.toLowerCase() === peg$c31) {
+                                          if (s1 === peg$FAILED) {
+                                            s1 = input.substr(peg$currPos, 3);
+                                            if (s1.toLowerCase() === peg$c49) {
                                               peg$currPos += 3;
                                             } else {
-                                              s0 = peg$FAILED;
-                                              if (peg$silentFails === 0) {
-                                                peg$fail(peg$e42);
-                                              }
+                                              s1 = peg$FAILED;
+                                              if (peg$silentFails === 0) { peg$fail(peg$e66); }
                                             }
-                                            if (s0 === peg$FAILED) {
-                                              s0 = input.substr(peg$currPos, 3);
-                                              if (
-                                                s0.toLowerCase() === peg$c32
-                                              ) {
+                                            if (s1 === peg$FAILED) {
+                                              s1 = input.substr(peg$currPos, 3);
+                                              if (s1.toLowerCase() === peg$c50) {
                                                 peg$currPos += 3;
                                               } else {
-                                                s0 = peg$FAILED;
-                                                if (peg$silentFails === 0) {
-                                                  peg$fail(peg$e43);
-                                                }
+                                                s1 = peg$FAILED;
+                                                if (peg$silentFails === 0) { peg$fail(peg$e67); }
                                               }
-                                              if (s0 === peg$FAILED) {
-                                                s0 = input.substr(
-                                                  peg$currPos,
-                                                  3,
-                                                );
-                                                if (
-                                                  s0.toLowerCase() === peg$c33
-                                                ) {
+                                              if (s1 === peg$FAILED) {
+                                                s1 = input.substr(peg$currPos, 3);
+                                                if (s1.toLowerCase() === peg$c51) {
                                                   peg$currPos += 3;
                                                 } else {
-                                                  s0 = peg$FAILED;
-                                                  if (peg$silentFails === 0) {
-                                                    peg$fail(peg$e44);
-                                                  }
+                                                  s1 = peg$FAILED;
+                                                  if (peg$silentFails === 0) { peg$fail(peg$e68); }
                                                 }
-                                                if (s0 === peg$FAILED) {
-                                                  s0 = input.substr(
-                                                    peg$currPos,
-                                                    3,
-                                                  );
-                                                  if (
-                                                    s0.toLowerCase() === peg$c34
-                                                  ) {
+                                                if (s1 === peg$FAILED) {
+                                                  s1 = input.substr(peg$currPos, 3);
+                                                  if (s1.toLowerCase() === peg$c52) {
                                                     peg$currPos += 3;
                                                   } else {
-                                                    s0 = peg$FAILED;
-                                                    if (peg$silentFails === 0) {
-                                                      peg$fail(peg$e45);
-                                                    }
+                                                    s1 = peg$FAILED;
+                                                    if (peg$silentFails === 0) { peg$fail(peg$e69); }
                                                   }
-                                                  if (s0 === peg$FAILED) {
-                                                    s0 = input.substr(
-                                                      peg$currPos,
-                                                      3,
-                                                    );
-                                                    if (
-                                                      s0.toLowerCase() ===
-                                                      peg$c35
-                                                    ) {
+                                                  if (s1 === peg$FAILED) {
+                                                    s1 = input.substr(peg$currPos, 3);
+                                                    if (s1.toLowerCase() === peg$c53) {
                                                       peg$currPos += 3;
                                                     } else {
-                                                      s0 = peg$FAILED;
-                                                      if (
-                                                        peg$silentFails === 0
-                                                      ) {
-                                                        peg$fail(peg$e46);
-                                                      }
+                                                      s1 = peg$FAILED;
+                                                      if (peg$silentFails === 0) { peg$fail(peg$e70); }
                                                     }
-                                                    if (s0 === peg$FAILED) {
-                                                      s0 = input.substr(
-                                                        peg$currPos,
-                                                        3,
-                                                      );
-                                                      if (
-                                                        s0.toLowerCase() ===
-                                                        peg$c36
-                                                      ) {
+                                                    if (s1 === peg$FAILED) {
+                                                      s1 = input.substr(peg$currPos, 3);
+                                                      if (s1.toLowerCase() === peg$c54) {
                                                         peg$currPos += 3;
                                                       } else {
-                                                        s0 = peg$FAILED;
-                                                        if (
-                                                          peg$silentFails === 0
-                                                        ) {
-                                                          peg$fail(peg$e47);
-                                                        }
+                                                        s1 = peg$FAILED;
+                                                        if (peg$silentFails === 0) { peg$fail(peg$e71); }
                                                       }
-                                                      if (s0 === peg$FAILED) {
-                                                        s0 = input.substr(
-                                                          peg$currPos,
-                                                          3,
-                                                        );
-                                                        if (
-                                                          s0.toLowerCase() ===
-                                                          peg$c37
-                                                        ) {
+                                                      if (s1 === peg$FAILED) {
+                                                        s1 = input.substr(peg$currPos, 3);
+                                                        if (s1.toLowerCase() === peg$c55) {
                                                           peg$currPos += 3;
                                                         } else {
-                                                          s0 = peg$FAILED;
-                                                          if (
-                                                            peg$silentFails ===
-                                                            0
-                                                          ) {
-                                                            peg$fail(peg$e48);
-                                                          }
+                                                          s1 = peg$FAILED;
+                                                          if (peg$silentFails === 0) { peg$fail(peg$e72); }
                                                         }
-                                                        if (s0 === peg$FAILED) {
-                                                          s0 = input.substr(
-                                                            peg$currPos,
-                                                            3,
-                                                          );
-                                                          if (
-                                                            s0.toLowerCase() ===
-                                                            peg$c38
-                                                          ) {
+                                                        if (s1 === peg$FAILED) {
+                                                          s1 = input.substr(peg$currPos, 3);
+                                                          if (s1.toLowerCase() === peg$c56) {
                                                             peg$currPos += 3;
                                                           } else {
-                                                            s0 = peg$FAILED;
-                                                            if (
-                                                              peg$silentFails ===
-                                                              0
-                                                            ) {
-                                                              peg$fail(peg$e49);
-                                                            }
+                                                            s1 = peg$FAILED;
+                                                            if (peg$silentFails === 0) { peg$fail(peg$e73); }
                                                           }
-                                                          if (
-                                                            s0 === peg$FAILED
-                                                          ) {
-                                                            s0 = input.substr(
-                                                              peg$currPos,
-                                                              3,
-                                                            );
-                                                            if (
-                                                              s0.toLowerCase() ===
-                                                              peg$c39
-                                                            ) {
+                                                          if (s1 === peg$FAILED) {
+                                                            s1 = input.substr(peg$currPos, 3);
+                                                            if (s1.toLowerCase() === peg$c57) {
                                                               peg$currPos += 3;
                                                             } else {
-                                                              s0 = peg$FAILED;
-                                                              if (
-                                                                peg$silentFails ===
-                                                                0
-                                                              ) {
-                                                                peg$fail(
-                                                                  peg$e50,
-                                                                );
-                                                              }
+                                                              s1 = peg$FAILED;
+                                                              if (peg$silentFails === 0) { peg$fail(peg$e74); }
                                                             }
-                                                            if (
-                                                              s0 === peg$FAILED
-                                                            ) {
-                                                              s0 = input.substr(
-                                                                peg$currPos,
-                                                                3,
-                                                              );
-                                                              if (
-                                                                s0.toLowerCase() ===
-                                                                peg$c40
-                                                              ) {
+                                                            if (s1 === peg$FAILED) {
+                                                              s1 = input.substr(peg$currPos, 3);
+                                                              if (s1.toLowerCase() === peg$c58) {
                                                                 peg$currPos += 3;
                                                               } else {
-                                                                s0 = peg$FAILED;
-                                                                if (
-                                                                  peg$silentFails ===
-                                                                  0
-                                                                ) {
-                                                                  peg$fail(
-                                                                    peg$e51,
-                                                                  );
-                                                                }
+                                                                s1 = peg$FAILED;
+                                                                if (peg$silentFails === 0) { peg$fail(peg$e75); }
                                                               }
-                                                              if (
-                                                                s0 ===
-                                                                peg$FAILED
-                                                              ) {
-                                                                s0 =
-                                                                  input.substr(
-                                                                    peg$currPos,
-                                                                    3,
-                                                                  );
-                                                                if (
-                                                                  s0.toLowerCase() ===
-                                                                  peg$c41
-                                                                ) {
+                                                              if (s1 === peg$FAILED) {
+                                                                s1 = input.substr(peg$currPos, 3);
+                                                                if (s1.toLowerCase() === peg$c59) {
                                                                   peg$currPos += 3;
                                                                 } else {
-                                                                  s0 =
-                                                                    peg$FAILED;
-                                                                  if (
-                                                                    peg$silentFails ===
-                                                                    0
-                                                                  ) {
-                                                                    peg$fail(
-                                                                      peg$e52,
-                                                                    );
-                                                                  }
+                                                                  s1 = peg$FAILED;
+                                                                  if (peg$silentFails === 0) { peg$fail(peg$e76); }
                                                                 }
-                                                                if (
-                                                                  s0 ===
-                                                                  peg$FAILED
-                                                                ) {
-                                                                  s0 =
-                                                                    input.substr(
-                                                                      peg$currPos,
-                                                                      3,
-                                                                    );
-                                                                  if (
-                                                                    s0.toLowerCase() ===
-                                                                    peg$c42
-                                                                  ) {
+                                                                if (s1 === peg$FAILED) {
+                                                                  s1 = input.substr(peg$currPos, 3);
+                                                                  if (s1.toLowerCase() === peg$c60) {
                                                                     peg$currPos += 3;
                                                                   } else {
-                                                                    s0 =
-                                                                      peg$FAILED;
-                                                                    if (
-                                                                      peg$silentFails ===
-                                                                      0
-                                                                    ) {
-                                                                      peg$fail(
-                                                                        peg$e53,
-                                                                      );
-                                                                    }
+                                                                    s1 = peg$FAILED;
+                                                                    if (peg$silentFails === 0) { peg$fail(peg$e77); }
                                                                   }
-                                                                  if (
-                                                                    s0 ===
-                                                                    peg$FAILED
-                                                                  ) {
-                                                                    s0 =
-                                                                      input.substr(
-                                                                        peg$currPos,
-                                                                        3,
-                                                                      );
-                                                                    if (
-                                                                      s0.toLowerCase() ===
-                                                                      peg$c43
-                                                                    ) {
+                                                                  if (s1 === peg$FAILED) {
+                                                                    s1 = input.substr(peg$currPos, 3);
+                                                                    if (s1.toLowerCase() === peg$c61) {
                                                                       peg$currPos += 3;
                                                                     } else {
-                                                                      s0 =
-                                                                        peg$FAILED;
-                                                                      if (
-                                                                        peg$silentFails ===
-                                                                        0
-                                                                      ) {
-                                                                        peg$fail(
-                                                                          peg$e54,
-                                                                        );
-                                                                      }
+                                                                      s1 = peg$FAILED;
+                                                                      if (peg$silentFails === 0) { peg$fail(peg$e78); }
                                                                     }
-                                                                    if (
-                                                                      s0 ===
-                                                                      peg$FAILED
-                                                                    ) {
-                                                                      s0 =
-                                                                        input.substr(
-                                                                          peg$currPos,
-                                                                          3,
-                                                                        );
-                                                                      if (
-                                                                        s0.toLowerCase() ===
-                                                                        peg$c44
-                                                                      ) {
+                                                                    if (s1 === peg$FAILED) {
+                                                                      s1 = input.substr(peg$currPos, 3);
+                                                                      if (s1.toLowerCase() === peg$c62) {
                                                                         peg$currPos += 3;
                                                                       } else {
-                                                                        s0 =
-                                                                          peg$FAILED;
-                                                                        if (
-                                                                          peg$silentFails ===
-                                                                          0
-                                                                        ) {
-                                                                          peg$fail(
-                                                                            peg$e55,
-                                                                          );
-                                                                        }
+                                                                        s1 = peg$FAILED;
+                                                                        if (peg$silentFails === 0) { peg$fail(peg$e79); }
                                                                       }
-                                                                      if (
-                                                                        s0 ===
-                                                                        peg$FAILED
-                                                                      ) {
-                                                                        s0 =
-                                                                          input.substr(
-                                                                            peg$currPos,
-                                                                            3,
-                                                                          );
-                                                                        if (
-                                                                          s0.toLowerCase() ===
-                                                                          peg$c45
-                                                                        ) {
+                                                                      if (s1 === peg$FAILED) {
+                                                                        s1 = input.substr(peg$currPos, 3);
+                                                                        if (s1.toLowerCase() === peg$c63) {
                                                                           peg$currPos += 3;
                                                                         } else {
-                                                                          s0 =
-                                                                            peg$FAILED;
-                                                                          if (
-                                                                            peg$silentFails ===
-                                                                            0
-                                                                          ) {
-                                                                            peg$fail(
-                                                                              peg$e56,
-                                                                            );
-                                                                          }
+                                                                          s1 = peg$FAILED;
+                                                                          if (peg$silentFails === 0) { peg$fail(peg$e80); }
                                                                         }
-                                                                        if (
-                                                                          s0 ===
-                                                                          peg$FAILED
-                                                                        ) {
-                                                                          s0 =
-                                                                            input.substr(
-                                                                              peg$currPos,
-                                                                              3,
-                                                                            );
-                                                                          if (
-                                                                            s0.toLowerCase() ===
-                                                                            peg$c46
-                                                                          ) {
+                                                                        if (s1 === peg$FAILED) {
+                                                                          s1 = input.substr(peg$currPos, 3);
+                                                                          if (s1.toLowerCase() === peg$c64) {
                                                                             peg$currPos += 3;
                                                                           } else {
-                                                                            s0 =
-                                                                              peg$FAILED;
-                                                                            if (
-                                                                              peg$silentFails ===
-                                                                              0
-                                                                            ) {
-                                                                              peg$fail(
-                                                                                peg$e57,
-                                                                              );
-                                                                            }
+                                                                            s1 = peg$FAILED;
+                                                                            if (peg$silentFails === 0) { peg$fail(peg$e81); }
                                                                           }
-                                                                          if (
-                                                                            s0 ===
-                                                                            peg$FAILED
-                                                                          ) {
-                                                                            s0 =
-                                                                              input.substr(
-                                                                                peg$currPos,
-                                                                                3,
-                                                                              );
-                                                                            if (
-                                                                              s0.toLowerCase() ===
-                                                                              peg$c47
-                                                                            ) {
+                                                                          if (s1 === peg$FAILED) {
+                                                                            s1 = input.substr(peg$currPos, 3);
+                                                                            if (s1.toLowerCase() === peg$c65) {
                                                                               peg$currPos += 3;
                                                                             } else {
-                                                                              s0 =
-                                                                                peg$FAILED;
-                                                                              if (
-                                                                                peg$silentFails ===
-                                                                                0
-                                                                              ) {
-                                                                                peg$fail(
-                                                                                  peg$e58,
-                                                                                );
-                                                                              }
+                                                                              s1 = peg$FAILED;
+                                                                              if (peg$silentFails === 0) { peg$fail(peg$e82); }
                                                                             }
-                                                                            if (
-                                                                              s0 ===
-                                                                              peg$FAILED
-                                                                            ) {
-                                                                              s0 =
-                                                                                input.substr(
-                                                                                  peg$currPos,
-                                                                                  3,
-                                                                                );
-                                                                              if (
-                                                                                s0.toLowerCase() ===
-                                                                                peg$c48
-                                                                              ) {
+                                                                            if (s1 === peg$FAILED) {
+                                                                              s1 = input.substr(peg$currPos, 3);
+                                                                              if (s1.toLowerCase() === peg$c66) {
                                                                                 peg$currPos += 3;
                                                                               } else {
-                                                                                s0 =
-                                                                                  peg$FAILED;
-                                                                                if (
-                                                                                  peg$silentFails ===
-                                                                                  0
-                                                                                ) {
-                                                                                  peg$fail(
-                                                                                    peg$e59,
-                                                                                  );
-                                                                                }
+                                                                                s1 = peg$FAILED;
+                                                                                if (peg$silentFails === 0) { peg$fail(peg$e83); }
                                                                               }
-                                                                              if (
-                                                                                s0 ===
-                                                                                peg$FAILED
-                                                                              ) {
-                                                                                s0 =
-                                                                                  input.substr(
-                                                                                    peg$currPos,
-                                                                                    3,
-                                                                                  );
-                                                                                if (
-                                                                                  s0.toLowerCase() ===
-                                                                                  peg$c49
-                                                                                ) {
+                                                                              if (s1 === peg$FAILED) {
+                                                                                s1 = input.substr(peg$currPos, 3);
+                                                                                if (s1.toLowerCase() === peg$c67) {
                                                                                   peg$currPos += 3;
                                                                                 } else {
-                                                                                  s0 =
-                                                                                    peg$FAILED;
-                                                                                  if (
-                                                                                    peg$silentFails ===
-                                                                                    0
-                                                                                  ) {
-                                                                                    peg$fail(
-                                                                                      peg$e60,
-                                                                                    );
-                                                                                  }
+                                                                                  s1 = peg$FAILED;
+                                                                                  if (peg$silentFails === 0) { peg$fail(peg$e84); }
                                                                                 }
-                                                                                if (
-                                                                                  s0 ===
-                                                                                  peg$FAILED
-                                                                                ) {
-                                                                                  s0 =
-                                                                                    input.substr(
-                                                                                      peg$currPos,
-                                                                                      3,
-                                                                                    );
-                                                                                  if (
-                                                                                    s0.toLowerCase() ===
-                                                                                    peg$c50
-                                                                                  ) {
+                                                                                if (s1 === peg$FAILED) {
+                                                                                  s1 = input.substr(peg$currPos, 3);
+                                                                                  if (s1.toLowerCase() === peg$c68) {
                                                                                     peg$currPos += 3;
                                                                                   } else {
-                                                                                    s0 =
-                                                                                      peg$FAILED;
-                                                                                    if (
-                                                                                      peg$silentFails ===
-                                                                                      0
-                                                                                    ) {
-                                                                                      peg$fail(
-                                                                                        peg$e61,
-                                                                                      );
-                                                                                    }
+                                                                                    s1 = peg$FAILED;
+                                                                                    if (peg$silentFails === 0) { peg$fail(peg$e85); }
                                                                                   }
-                                                                                  if (
-                                                                                    s0 ===
-                                                                                    peg$FAILED
-                                                                                  ) {
-                                                                                    s0 =
-                                                                                      input.substr(
-                                                                                        peg$currPos,
-                                                                                        3,
-                                                                                      );
-                                                                                    if (
-                                                                                      s0.toLowerCase() ===
-                                                                                      peg$c51
-                                                                                    ) {
+                                                                                  if (s1 === peg$FAILED) {
+                                                                                    s1 = input.substr(peg$currPos, 3);
+                                                                                    if (s1.toLowerCase() === peg$c69) {
                                                                                       peg$currPos += 3;
                                                                                     } else {
-                                                                                      s0 =
-                                                                                        peg$FAILED;
-                                                                                      if (
-                                                                                        peg$silentFails ===
-                                                                                        0
-                                                                                      ) {
-                                                                                        peg$fail(
-                                                                                          peg$e62,
-                                                                                        );
-                                                                                      }
+                                                                                      s1 = peg$FAILED;
+                                                                                      if (peg$silentFails === 0) { peg$fail(peg$e86); }
                                                                                     }
-                                                                                    if (
-                                                                                      s0 ===
-                                                                                      peg$FAILED
-                                                                                    ) {
-                                                                                      s0 =
-                                                                                        input.substr(
-                                                                                          peg$currPos,
-                                                                                          3,
-                                                                                        );
-                                                                                      if (
-                                                                                        s0.toLowerCase() ===
-                                                                                        peg$c52
-                                                                                      ) {
+                                                                                    if (s1 === peg$FAILED) {
+                                                                                      s1 = input.substr(peg$currPos, 3);
+                                                                                      if (s1.toLowerCase() === peg$c70) {
                                                                                         peg$currPos += 3;
                                                                                       } else {
-                                                                                        s0 =
-                                                                                          peg$FAILED;
-                                                                                        if (
-                                                                                          peg$silentFails ===
-                                                                                          0
-                                                                                        ) {
-                                                                                          peg$fail(
-                                                                                            peg$e63,
-                                                                                          );
-                                                                                        }
+                                                                                        s1 = peg$FAILED;
+                                                                                        if (peg$silentFails === 0) { peg$fail(peg$e87); }
                                                                                       }
-                                                                                      if (
-                                                                                        s0 ===
-                                                                                        peg$FAILED
-                                                                                      ) {
-                                                                                        s0 =
-                                                                                          input.substr(
-                                                                                            peg$currPos,
-                                                                                            3,
-                                                                                          );
-                                                                                        if (
-                                                                                          s0.toLowerCase() ===
-                                                                                          peg$c53
-                                                                                        ) {
+                                                                                      if (s1 === peg$FAILED) {
+                                                                                        s1 = input.substr(peg$currPos, 3);
+                                                                                        if (s1.toLowerCase() === peg$c71) {
                                                                                           peg$currPos += 3;
                                                                                         } else {
-                                                                                          s0 =
-                                                                                            peg$FAILED;
-                                                                                          if (
-                                                                                            peg$silentFails ===
-                                                                                            0
-                                                                                          ) {
-                                                                                            peg$fail(
-                                                                                              peg$e64,
-                                                                                            );
-                                                                                          }
+                                                                                          s1 = peg$FAILED;
+                                                                                          if (peg$silentFails === 0) { peg$fail(peg$e88); }
                                                                                         }
-                                                                                        if (
-                                                                                          s0 ===
-                                                                                          peg$FAILED
-                                                                                        ) {
-                                                                                          s0 =
-                                                                                            input.substr(
-                                                                                              peg$currPos,
-                                                                                              3,
-                                                                                            );
-                                                                                          if (
-                                                                                            s0.toLowerCase() ===
-                                                                                            peg$c54
-                                                                                          ) {
+                                                                                        if (s1 === peg$FAILED) {
+                                                                                          s1 = input.substr(peg$currPos, 3);
+                                                                                          if (s1.toLowerCase() === peg$c72) {
                                                                                             peg$currPos += 3;
                                                                                           } else {
-                                                                                            s0 =
-                                                                                              peg$FAILED;
-                                                                                            if (
-                                                                                              peg$silentFails ===
-                                                                                              0
-                                                                                            ) {
-                                                                                              peg$fail(
-                                                                                                peg$e65,
-                                                                                              );
-                                                                                            }
+                                                                                            s1 = peg$FAILED;
+                                                                                            if (peg$silentFails === 0) { peg$fail(peg$e89); }
                                                                                           }
-                                                                                          if (
-                                                                                            s0 ===
-                                                                                            peg$FAILED
-                                                                                          ) {
-                                                                                            s0 =
-                                                                                              input.substr(
-                                                                                                peg$currPos,
-                                                                                                3,
-                                                                                              );
-                                                                                            if (
-                                                                                              s0.toLowerCase() ===
-                                                                                              peg$c55
-                                                                                            ) {
+                                                                                          if (s1 === peg$FAILED) {
+                                                                                            s1 = input.substr(peg$currPos, 3);
+                                                                                            if (s1.toLowerCase() === peg$c73) {
                                                                                               peg$currPos += 3;
                                                                                             } else {
-                                                                                              s0 =
-                                                                                                peg$FAILED;
-                                                                                              if (
-                                                                                                peg$silentFails ===
-                                                                                                0
-                                                                                              ) {
-                                                                                                peg$fail(
-                                                                                                  peg$e66,
-                                                                                                );
-                                                                                              }
+                                                                                              s1 = peg$FAILED;
+                                                                                              if (peg$silentFails === 0) { peg$fail(peg$e90); }
                                                                                             }
-                                                                                            if (
-                                                                                              s0 ===
-                                                                                              peg$FAILED
-                                                                                            ) {
-                                                                                              s0 =
-                                                                                                input.substr(
-                                                                                                  peg$currPos,
-                                                                                                  3,
-                                                                                                );
-                                                                                              if (
-                                                                                                s0.toLowerCase() ===
-                                                                                                peg$c56
-                                                                                              ) {
+                                                                                            if (s1 === peg$FAILED) {
+                                                                                              s1 = input.substr(peg$currPos, 3);
+                                                                                              if (s1.toLowerCase() === peg$c74) {
                                                                                                 peg$currPos += 3;
                                                                                               } else {
-                                                                                                s0 =
-                                                                                                  peg$FAILED;
-                                                                                                if (
-                                                                                                  peg$silentFails ===
-                                                                                                  0
-                                                                                                ) {
-                                                                                                  peg$fail(
-                                                                                                    peg$e67,
-                                                                                                  );
-                                                                                                }
+                                                                                                s1 = peg$FAILED;
+                                                                                                if (peg$silentFails === 0) { peg$fail(peg$e91); }
                                                                                               }
-                                                                                              if (
-                                                                                                s0 ===
-                                                                                                peg$FAILED
-                                                                                              ) {
-                                                                                                s0 =
-                                                                                                  input.substr(
-                                                                                                    peg$currPos,
-                                                                                                    3,
-                                                                                                  );
-                                                                                                if (
-                                                                                                  s0.toLowerCase() ===
-                                                                                                  peg$c57
-                                                                                                ) {
+                                                                                              if (s1 === peg$FAILED) {
+                                                                                                s1 = input.substr(peg$currPos, 3);
+                                                                                                if (s1.toLowerCase() === peg$c75) {
                                                                                                   peg$currPos += 3;
                                                                                                 } else {
-                                                                                                  s0 =
-                                                                                                    peg$FAILED;
-                                                                                                  if (
-                                                                                                    peg$silentFails ===
-                                                                                                    0
-                                                                                                  ) {
-                                                                                                    peg$fail(
-                                                                                                      peg$e68,
-                                                                                                    );
-                                                                                                  }
+                                                                                                  s1 = peg$FAILED;
+                                                                                                  if (peg$silentFails === 0) { peg$fail(peg$e92); }
                                                                                                 }
-                                                                                                if (
-                                                                                                  s0 ===
-                                                                                                  peg$FAILED
-                                                                                                ) {
-                                                                                                  s0 =
-                                                                                                    input.substr(
-                                                                                                      peg$currPos,
-                                                                                                      3,
-                                                                                                    );
-                                                                                                  if (
-                                                                                                    s0.toLowerCase() ===
-                                                                                                    peg$c58
-                                                                                                  ) {
+                                                                                                if (s1 === peg$FAILED) {
+                                                                                                  s1 = input.substr(peg$currPos, 3);
+                                                                                                  if (s1.toLowerCase() === peg$c76) {
                                                                                                     peg$currPos += 3;
                                                                                                   } else {
-                                                                                                    s0 =
-                                                                                                      peg$FAILED;
-                                                                                                    if (
-                                                                                                      peg$silentFails ===
-                                                                                                      0
-                                                                                                    ) {
-                                                                                                      peg$fail(
-                                                                                                        peg$e69,
-                                                                                                      );
-                                                                                                    }
+                                                                                                    s1 = peg$FAILED;
+                                                                                                    if (peg$silentFails === 0) { peg$fail(peg$e93); }
                                                                                                   }
-                                                                                                  if (
-                                                                                                    s0 ===
-                                                                                                    peg$FAILED
-                                                                                                  ) {
-                                                                                                    s0 =
-                                                                                                      input.substr(
-                                                                                                        peg$currPos,
-                                                                                                        3,
-                                                                                                      );
-                                                                                                    if (
-                                                                                                      s0.toLowerCase() ===
-                                                                                                      peg$c59
-                                                                                                    ) {
+                                                                                                  if (s1 === peg$FAILED) {
+                                                                                                    s1 = input.substr(peg$currPos, 3);
+                                                                                                    if (s1.toLowerCase() === peg$c77) {
                                                                                                       peg$currPos += 3;
                                                                                                     } else {
-                                                                                                      s0 =
-                                                                                                        peg$FAILED;
-                                                                                                      if (
-                                                                                                        peg$silentFails ===
-                                                                                                        0
-                                                                                                      ) {
-                                                                                                        peg$fail(
-                                                                                                          peg$e70,
-                                                                                                        );
-                                                                                                      }
+                                                                                                      s1 = peg$FAILED;
+                                                                                                      if (peg$silentFails === 0) { peg$fail(peg$e94); }
                                                                                                     }
-                                                                                                    if (
-                                                                                                      s0 ===
-                                                                                                      peg$FAILED
-                                                                                                    ) {
-                                                                                                      s0 =
-                                                                                                        input.substr(
-                                                                                                          peg$currPos,
-                                                                                                          3,
-                                                                                                        );
-                                                                                                      if (
-                                                                                                        s0.toLowerCase() ===
-                                                                                                        peg$c60
-                                                                                                      ) {
+                                                                                                    if (s1 === peg$FAILED) {
+                                                                                                      s1 = input.substr(peg$currPos, 3);
+                                                                                                      if (s1.toLowerCase() === peg$c78) {
                                                                                                         peg$currPos += 3;
                                                                                                       } else {
-                                                                                                        s0 =
-                                                                                                          peg$FAILED;
-                                                                                                        if (
-                                                                                                          peg$silentFails ===
-                                                                                                          0
-                                                                                                        ) {
-                                                                                                          peg$fail(
-                                                                                                            peg$e71,
-                                                                                                          );
-                                                                                                        }
+                                                                                                        s1 = peg$FAILED;
+                                                                                                        if (peg$silentFails === 0) { peg$fail(peg$e95); }
                                                                                                       }
-                                                                                                      if (
-                                                                                                        s0 ===
-                                                                                                        peg$FAILED
-                                                                                                      ) {
-                                                                                                        s0 =
-                                                                                                          input.substr(
-                                                                                                            peg$currPos,
-                                                                                                            3,
-                                                                                                          );
-                                                                                                        if (
-                                                                                                          s0.toLowerCase() ===
-                                                                                                          peg$c61
-                                                                                                        ) {
+                                                                                                      if (s1 === peg$FAILED) {
+                                                                                                        s1 = input.substr(peg$currPos, 3);
+                                                                                                        if (s1.toLowerCase() === peg$c79) {
                                                                                                           peg$currPos += 3;
                                                                                                         } else {
-                                                                                                          s0 =
-                                                                                                            peg$FAILED;
-                                                                                                          if (
-                                                                                                            peg$silentFails ===
-                                                                                                            0
-                                                                                                          ) {
-                                                                                                            peg$fail(
-                                                                                                              peg$e72,
-                                                                                                            );
-                                                                                                          }
+                                                                                                          s1 = peg$FAILED;
+                                                                                                          if (peg$silentFails === 0) { peg$fail(peg$e96); }
                                                                                                         }
-                                                                                                        if (
-                                                                                                          s0 ===
-                                                                                                          peg$FAILED
-                                                                                                        ) {
-                                                                                                          s0 =
-                                                                                                            input.substr(
-                                                                                                              peg$currPos,
-                                                                                                              3,
-                                                                                                            );
-                                                                                                          if (
-                                                                                                            s0.toLowerCase() ===
-                                                                                                            peg$c62
-                                                                                                          ) {
+                                                                                                        if (s1 === peg$FAILED) {
+                                                                                                          s1 = input.substr(peg$currPos, 3);
+                                                                                                          if (s1.toLowerCase() === peg$c80) {
                                                                                                             peg$currPos += 3;
                                                                                                           } else {
-                                                                                                            s0 =
-                                                                                                              peg$FAILED;
-                                                                                                            if (
-                                                                                                              peg$silentFails ===
-                                                                                                              0
-                                                                                                            ) {
-                                                                                                              peg$fail(
-                                                                                                                peg$e73,
-                                                                                                              );
-                                                                                                            }
+                                                                                                            s1 = peg$FAILED;
+                                                                                                            if (peg$silentFails === 0) { peg$fail(peg$e97); }
                                                                                                           }
-                                                                                                          if (
-                                                                                                            s0 ===
-                                                                                                            peg$FAILED
-                                                                                                          ) {
-                                                                                                            s0 =
-                                                                                                              input.substr(
-                                                                                                                peg$currPos,
-                                                                                                                3,
-                                                                                                              );
-                                                                                                            if (
-                                                                                                              s0.toLowerCase() ===
-                                                                                                              peg$c63
-                                                                                                            ) {
+                                                                                                          if (s1 === peg$FAILED) {
+                                                                                                            s1 = input.substr(peg$currPos, 3);
+                                                                                                            if (s1.toLowerCase() === peg$c81) {
                                                                                                               peg$currPos += 3;
                                                                                                             } else {
-                                                                                                              s0 =
-                                                                                                                peg$FAILED;
-                                                                                                              if (
-                                                                                                                peg$silentFails ===
-                                                                                                                0
-                                                                                                              ) {
-                                                                                                                peg$fail(
-                                                                                                                  peg$e74,
-                                                                                                                );
-                                                                                                              }
+                                                                                                              s1 = peg$FAILED;
+                                                                                                              if (peg$silentFails === 0) { peg$fail(peg$e98); }
                                                                                                             }
-                                                                                                            if (
-                                                                                                              s0 ===
-                                                                                                              peg$FAILED
-                                                                                                            ) {
-                                                                                                              s0 =
-                                                                                                                input.substr(
-                                                                                                                  peg$currPos,
-                                                                                                                  3,
-                                                                                                                );
-                                                                                                              if (
-                                                                                                                s0.toLowerCase() ===
-                                                                                                                peg$c64
-                                                                                                              ) {
+                                                                                                            if (s1 === peg$FAILED) {
+                                                                                                              s1 = input.substr(peg$currPos, 3);
+                                                                                                              if (s1.toLowerCase() === peg$c82) {
                                                                                                                 peg$currPos += 3;
                                                                                                               } else {
-                                                                                                                s0 =
-                                                                                                                  peg$FAILED;
-                                                                                                                if (
-                                                                                                                  peg$silentFails ===
-                                                                                                                  0
-                                                                                                                ) {
-                                                                                                                  peg$fail(
-                                                                                                                    peg$e75,
-                                                                                                                  );
-                                                                                                                }
+                                                                                                                s1 = peg$FAILED;
+                                                                                                                if (peg$silentFails === 0) { peg$fail(peg$e99); }
                                                                                                               }
-                                                                                                              if (
-                                                                                                                s0 ===
-                                                                                                                peg$FAILED
-                                                                                                              ) {
-                                                                                                                s0 =
-                                                                                                                  input.substr(
-                                                                                                                    peg$currPos,
-                                                                                                                    3,
-                                                                                                                  );
-                                                                                                                if (
-                                                                                                                  s0.toLowerCase() ===
-                                                                                                                  peg$c65
-                                                                                                                ) {
+                                                                                                              if (s1 === peg$FAILED) {
+                                                                                                                s1 = input.substr(peg$currPos, 3);
+                                                                                                                if (s1.toLowerCase() === peg$c83) {
                                                                                                                   peg$currPos += 3;
                                                                                                                 } else {
-                                                                                                                  s0 =
-                                                                                                                    peg$FAILED;
-                                                                                                                  if (
-                                                                                                                    peg$silentFails ===
-                                                                                                                    0
-                                                                                                                  ) {
-                                                                                                                    peg$fail(
-                                                                                                                      peg$e76,
-                                                                                                                    );
-                                                                                                                  }
+                                                                                                                  s1 = peg$FAILED;
+                                                                                                                  if (peg$silentFails === 0) { peg$fail(peg$e100); }
                                                                                                                 }
-                                                                                                                if (
-                                                                                                                  s0 ===
-                                                                                                                  peg$FAILED
-                                                                                                                ) {
-                                                                                                                  s0 =
-                                                                                                                    input.substr(
-                                                                                                                      peg$currPos,
-                                                                                                                      3,
-                                                                                                                    );
-                                                                                                                  if (
-                                                                                                                    s0.toLowerCase() ===
-                                                                                                                    peg$c66
-                                                                                                                  ) {
+                                                                                                                if (s1 === peg$FAILED) {
+                                                                                                                  s1 = input.substr(peg$currPos, 3);
+                                                                                                                  if (s1.toLowerCase() === peg$c84) {
                                                                                                                     peg$currPos += 3;
                                                                                                                   } else {
-                                                                                                                    s0 =
-                                                                                                                      peg$FAILED;
-                                                                                                                    if (
-                                                                                                                      peg$silentFails ===
-                                                                                                                      0
-                                                                                                                    ) {
-                                                                                                                      peg$fail(
-                                                                                                                        peg$e77,
-                                                                                                                      );
-                                                                                                                    }
+                                                                                                                    s1 = peg$FAILED;
+                                                                                                                    if (peg$silentFails === 0) { peg$fail(peg$e101); }
                                                                                                                   }
-                                                                                                                  if (
-                                                                                                                    s0 ===
-                                                                                                                    peg$FAILED
-                                                                                                                  ) {
-                                                                                                                    s0 =
-                                                                                                                      input.substr(
-                                                                                                                        peg$currPos,
-                                                                                                                        3,
-                                                                                                                      );
-                                                                                                                    if (
-                                                                                                                      s0.toLowerCase() ===
-                                                                                                                      peg$c67
-                                                                                                                    ) {
+                                                                                                                  if (s1 === peg$FAILED) {
+                                                                                                                    s1 = input.substr(peg$currPos, 3);
+                                                                                                                    if (s1.toLowerCase() === peg$c85) {
                                                                                                                       peg$currPos += 3;
                                                                                                                     } else {
-                                                                                                                      s0 =
-                                                                                                                        peg$FAILED;
-                                                                                                                      if (
-                                                                                                                        peg$silentFails ===
-                                                                                                                        0
-                                                                                                                      ) {
-                                                                                                                        peg$fail(
-                                                                                                                          peg$e78,
-                                                                                                                        );
-                                                                                                                      }
+                                                                                                                      s1 = peg$FAILED;
+                                                                                                                      if (peg$silentFails === 0) { peg$fail(peg$e102); }
                                                                                                                     }
-                                                                                                                    if (
-                                                                                                                      s0 ===
-                                                                                                                      peg$FAILED
-                                                                                                                    ) {
-                                                                                                                      s0 =
-                                                                                                                        input.substr(
-                                                                                                                          peg$currPos,
-                                                                                                                          3,
-                                                                                                                        );
-                                                                                                                      if (
-                                                                                                                        s0.toLowerCase() ===
-                                                                                                                        peg$c68
-                                                                                                                      ) {
+                                                                                                                    if (s1 === peg$FAILED) {
+                                                                                                                      s1 = input.substr(peg$currPos, 3);
+                                                                                                                      if (s1.toLowerCase() === peg$c86) {
                                                                                                                         peg$currPos += 3;
                                                                                                                       } else {
-                                                                                                                        s0 =
-                                                                                                                          peg$FAILED;
-                                                                                                                        if (
-                                                                                                                          peg$silentFails ===
-                                                                                                                          0
-                                                                                                                        ) {
-                                                                                                                          peg$fail(
-                                                                                                                            peg$e79,
-                                                                                                                          );
-                                                                                                                        }
+                                                                                                                        s1 = peg$FAILED;
+                                                                                                                        if (peg$silentFails === 0) { peg$fail(peg$e103); }
                                                                                                                       }
-                                                                                                                      if (
-                                                                                                                        s0 ===
-                                                                                                                        peg$FAILED
-                                                                                                                      ) {
-                                                                                                                        s0 =
-                                                                                                                          input.substr(
-                                                                                                                            peg$currPos,
-                                                                                                                            3,
-                                                                                                                          );
-                                                                                                                        if (
-                                                                                                                          s0.toLowerCase() ===
-                                                                                                                          peg$c69
-                                                                                                                        ) {
+                                                                                                                      if (s1 === peg$FAILED) {
+                                                                                                                        s1 = input.substr(peg$currPos, 3);
+                                                                                                                        if (s1.toLowerCase() === peg$c87) {
                                                                                                                           peg$currPos += 3;
                                                                                                                         } else {
-                                                                                                                          s0 =
-                                                                                                                            peg$FAILED;
-                                                                                                                          if (
-                                                                                                                            peg$silentFails ===
-                                                                                                                            0
-                                                                                                                          ) {
-                                                                                                                            peg$fail(
-                                                                                                                              peg$e80,
-                                                                                                                            );
-                                                                                                                          }
+                                                                                                                          s1 = peg$FAILED;
+                                                                                                                          if (peg$silentFails === 0) { peg$fail(peg$e104); }
                                                                                                                         }
-                                                                                                                        if (
-                                                                                                                          s0 ===
-                                                                                                                          peg$FAILED
-                                                                                                                        ) {
-                                                                                                                          s0 =
-                                                                                                                            input.substr(
-                                                                                                                              peg$currPos,
-                                                                                                                              3,
-                                                                                                                            );
-                                                                                                                          if (
-                                                                                                                            s0.toLowerCase() ===
-                                                                                                                            peg$c70
-                                                                                                                          ) {
+                                                                                                                        if (s1 === peg$FAILED) {
+                                                                                                                          s1 = input.substr(peg$currPos, 3);
+                                                                                                                          if (s1.toLowerCase() === peg$c88) {
                                                                                                                             peg$currPos += 3;
                                                                                                                           } else {
-                                                                                                                            s0 =
-                                                                                                                              peg$FAILED;
-                                                                                                                            if (
-                                                                                                                              peg$silentFails ===
-                                                                                                                              0
-                                                                                                                            ) {
-                                                                                                                              peg$fail(
-                                                                                                                                peg$e81,
-                                                                                                                              );
-                                                                                                                            }
+                                                                                                                            s1 = peg$FAILED;
+                                                                                                                            if (peg$silentFails === 0) { peg$fail(peg$e105); }
                                                                                                                           }
-                                                                                                                          if (
-                                                                                                                            s0 ===
-                                                                                                                            peg$FAILED
-                                                                                                                          ) {
-                                                                                                                            s0 =
-                                                                                                                              input.substr(
-                                                                                                                                peg$currPos,
-                                                                                                                                3,
-                                                                                                                              );
-                                                                                                                            if (
-                                                                                                                              s0.toLowerCase() ===
-                                                                                                                              peg$c71
-                                                                                                                            ) {
+                                                                                                                          if (s1 === peg$FAILED) {
+                                                                                                                            s1 = input.substr(peg$currPos, 3);
+                                                                                                                            if (s1.toLowerCase() === peg$c89) {
                                                                                                                               peg$currPos += 3;
                                                                                                                             } else {
-                                                                                                                              s0 =
-                                                                                                                                peg$FAILED;
-                                                                                                                              if (
-                                                                                                                                peg$silentFails ===
-                                                                                                                                0
-                                                                                                                              ) {
-                                                                                                                                peg$fail(
-                                                                                                                                  peg$e82,
-                                                                                                                                );
+                                                                                                                              s1 = peg$FAILED;
+                                                                                                                              if (peg$silentFails === 0) { peg$fail(peg$e106); }
+                                                                                                                            }
+                                                                                                                            if (s1 === peg$FAILED) {
+                                                                                                                              s1 = input.substr(peg$currPos, 3);
+                                                                                                                              if (s1.toLowerCase() === peg$c90) {
+                                                                                                                                peg$currPos += 3;
+                                                                                                                              } else {
+                                                                                                                                s1 = peg$FAILED;
+                                                                                                                                if (peg$silentFails === 0) { peg$fail(peg$e107); }
+                                                                                                                              }
+                                                                                                                              if (s1 === peg$FAILED) {
+                                                                                                                                s1 = input.substr(peg$currPos, 3);
+                                                                                                                                if (s1.toLowerCase() === peg$c91) {
+                                                                                                                                  peg$currPos += 3;
+                                                                                                                                } else {
+                                                                                                                                  s1 = peg$FAILED;
+                                                                                                                                  if (peg$silentFails === 0) { peg$fail(peg$e108); }
+                                                                                                                                }
+                                                                                                                                if (s1 === peg$FAILED) {
+                                                                                                                                  s1 = input.substr(peg$currPos, 3);
+                                                                                                                                  if (s1.toLowerCase() === peg$c92) {
+                                                                                                                                    peg$currPos += 3;
+                                                                                                                                  } else {
+                                                                                                                                    s1 = peg$FAILED;
+                                                                                                                                    if (peg$silentFails === 0) { peg$fail(peg$e109); }
+                                                                                                                                  }
+                                                                                                                                  if (s1 === peg$FAILED) {
+                                                                                                                                    s1 = input.substr(peg$currPos, 3);
+                                                                                                                                    if (s1.toLowerCase() === peg$c93) {
+                                                                                                                                      peg$currPos += 3;
+                                                                                                                                    } else {
+                                                                                                                                      s1 = peg$FAILED;
+                                                                                                                                      if (peg$silentFails === 0) { peg$fail(peg$e110); }
+                                                                                                                                    }
+                                                                                                                                    if (s1 === peg$FAILED) {
+                                                                                                                                      s1 = input.substr(peg$currPos, 3);
+                                                                                                                                      if (s1.toLowerCase() === peg$c94) {
+                                                                                                                                        peg$currPos += 3;
+                                                                                                                                      } else {
+                                                                                                                                        s1 = peg$FAILED;
+                                                                                                                                        if (peg$silentFails === 0) { peg$fail(peg$e111); }
+                                                                                                                                      }
+                                                                                                                                      if (s1 === peg$FAILED) {
+                                                                                                                                        s1 = input.substr(peg$currPos, 3);
+                                                                                                                                        if (s1.toLowerCase() === peg$c95) {
+                                                                                                                                          peg$currPos += 3;
+                                                                                                                                        } else {
+                                                                                                                                          s1 = peg$FAILED;
+                                                                                                                                          if (peg$silentFails === 0) { peg$fail(peg$e112); }
+                                                                                                                                        }
+                                                                                                                                        if (s1 === peg$FAILED) {
+                                                                                                                                          s1 = input.substr(peg$currPos, 3);
+                                                                                                                                          if (s1.toLowerCase() === peg$c96) {
+                                                                                                                                            peg$currPos += 3;
+                                                                                                                                          } else {
+                                                                                                                                            s1 = peg$FAILED;
+                                                                                                                                            if (peg$silentFails === 0) { peg$fail(peg$e113); }
+                                                                                                                                          }
+                                                                                                                                          if (s1 === peg$FAILED) {
+                                                                                                                                            s1 = input.substr(peg$currPos, 3);
+                                                                                                                                            if (s1.toLowerCase() === peg$c97) {
+                                                                                                                                              peg$currPos += 3;
+                                                                                                                                            } else {
+                                                                                                                                              s1 = peg$FAILED;
+                                                                                                                                              if (peg$silentFails === 0) { peg$fail(peg$e114); }
+                                                                                                                                            }
+                                                                                                                                            if (s1 === peg$FAILED) {
+                                                                                                                                              s1 = input.substr(peg$currPos, 3);
+                                                                                                                                              if (s1.toLowerCase() === peg$c98) {
+                                                                                                                                                peg$currPos += 3;
+                                                                                                                                              } else {
+                                                                                                                                                s1 = peg$FAILED;
+                                                                                                                                                if (peg$silentFails === 0) { peg$fail(peg$e115); }
+                                                                                                                                              }
+                                                                                                                                              if (s1 === peg$FAILED) {
+                                                                                                                                                s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                if (s1.toLowerCase() === peg$c99) {
+                                                                                                                                                  peg$currPos += 3;
+                                                                                                                                                } else {
+                                                                                                                                                  s1 = peg$FAILED;
+                                                                                                                                                  if (peg$silentFails === 0) { peg$fail(peg$e116); }
+                                                                                                                                                }
+                                                                                                                                                if (s1 === peg$FAILED) {
+                                                                                                                                                  s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                  if (s1.toLowerCase() === peg$c100) {
+                                                                                                                                                    peg$currPos += 3;
+                                                                                                                                                  } else {
+                                                                                                                                                    s1 = peg$FAILED;
+                                                                                                                                                    if (peg$silentFails === 0) { peg$fail(peg$e117); }
+                                                                                                                                                  }
+                                                                                                                                                  if (s1 === peg$FAILED) {
+                                                                                                                                                    s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                    if (s1.toLowerCase() === peg$c101) {
+                                                                                                                                                      peg$currPos += 3;
+                                                                                                                                                    } else {
+                                                                                                                                                      s1 = peg$FAILED;
+                                                                                                                                                      if (peg$silentFails === 0) { peg$fail(peg$e118); }
+                                                                                                                                                    }
+                                                                                                                                                    if (s1 === peg$FAILED) {
+                                                                                                                                                      s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                      if (s1.toLowerCase() === peg$c102) {
+                                                                                                                                                        peg$currPos += 3;
+                                                                                                                                                      } else {
+                                                                                                                                                        s1 = peg$FAILED;
+                                                                                                                                                        if (peg$silentFails === 0) { peg$fail(peg$e119); }
+                                                                                                                                                      }
+                                                                                                                                                      if (s1 === peg$FAILED) {
+                                                                                                                                                        s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                        if (s1.toLowerCase() === peg$c103) {
+                                                                                                                                                          peg$currPos += 3;
+                                                                                                                                                        } else {
+                                                                                                                                                          s1 = peg$FAILED;
+                                                                                                                                                          if (peg$silentFails === 0) { peg$fail(peg$e120); }
+                                                                                                                                                        }
+                                                                                                                                                        if (s1 === peg$FAILED) {
+                                                                                                                                                          s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                          if (s1.toLowerCase() === peg$c104) {
+                                                                                                                                                            peg$currPos += 3;
+                                                                                                                                                          } else {
+                                                                                                                                                            s1 = peg$FAILED;
+                                                                                                                                                            if (peg$silentFails === 0) { peg$fail(peg$e121); }
+                                                                                                                                                          }
+                                                                                                                                                          if (s1 === peg$FAILED) {
+                                                                                                                                                            s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                            if (s1.toLowerCase() === peg$c105) {
+                                                                                                                                                              peg$currPos += 3;
+                                                                                                                                                            } else {
+                                                                                                                                                              s1 = peg$FAILED;
+                                                                                                                                                              if (peg$silentFails === 0) { peg$fail(peg$e122); }
+                                                                                                                                                            }
+                                                                                                                                                            if (s1 === peg$FAILED) {
+                                                                                                                                                              s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                              if (s1.toLowerCase() === peg$c106) {
+                                                                                                                                                                peg$currPos += 3;
+                                                                                                                                                              } else {
+                                                                                                                                                                s1 = peg$FAILED;
+                                                                                                                                                                if (peg$silentFails === 0) { peg$fail(peg$e123); }
+                                                                                                                                                              }
+                                                                                                                                                              if (s1 === peg$FAILED) {
+                                                                                                                                                                s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                                if (s1.toLowerCase() === peg$c107) {
+                                                                                                                                                                  peg$currPos += 3;
+                                                                                                                                                                } else {
+                                                                                                                                                                  s1 = peg$FAILED;
+                                                                                                                                                                  if (peg$silentFails === 0) { peg$fail(peg$e124); }
+                                                                                                                                                                }
+                                                                                                                                                                if (s1 === peg$FAILED) {
+                                                                                                                                                                  s1 = input.substr(peg$currPos, 3);
+                                                                                                                                                                  if (s1.toLowerCase() === peg$c108) {
+                                                                                                                                                                    peg$currPos += 3;
+                                                                                                                                                                  } else {
+                                                                                                                                                                    s1 = peg$FAILED;
+                                                                                                                                                                    if (peg$silentFails === 0) { peg$fail(peg$e125); }
+                                                                                                                                                                  }
+                                                                                                                                                                }
+                                                                                                                                                              }
+                                                                                                                                                            }
+                                                                                                                                                          }
+                                                                                                                                                        }
+                                                                                                                                                      }
+                                                                                                                                                    }
+                                                                                                                                                  }
+                                                                                                                                                }
+                                                                                                                                              }
+                                                                                                                                            }
+                                                                                                                                          }
+                                                                                                                                        }
+                                                                                                                                      }
+                                                                                                                                    }
+                                                                                                                                  }
+                                                                                                                                }
                                                                                                                               }
                                                                                                                             }
                                                                                                                           }
@@ -2929,6 +3756,110 @@ function peg$parse(input, options) {
         }
       }
     }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      peg$silentFails++;
+      s3 = input.charAt(peg$currPos);
+      if (peg$r8.test(s3)) {
+        peg$currPos++;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e34); }
+      }
+      peg$silentFails--;
+      if (s3 === peg$FAILED) {
+        s2 = undefined;
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+      if (s2 !== peg$FAILED) {
+        s0 = s1;
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    return s0;
+  }
+
+  function peg$parsebitBranchOpcode() {
+    var s0, s1, s2, s3, s4;
+
+    s0 = peg$currPos;
+    s1 = peg$currPos;
+    s2 = peg$currPos;
+    s3 = input.substr(peg$currPos, 3);
+    if (s3.toLowerCase() === peg$c109) {
+      peg$currPos += 3;
+    } else {
+      s3 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$e126); }
+    }
+    if (s3 === peg$FAILED) {
+      s3 = input.substr(peg$currPos, 3);
+      if (s3.toLowerCase() === peg$c110) {
+        peg$currPos += 3;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e127); }
+      }
+    }
+    if (s3 !== peg$FAILED) {
+      s4 = input.charAt(peg$currPos);
+      if (peg$r15.test(s4)) {
+        peg$currPos++;
+      } else {
+        s4 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e47); }
+      }
+      if (s4 !== peg$FAILED) {
+        s3 = [s3, s4];
+        s2 = s3;
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s2;
+      s2 = peg$FAILED;
+    }
+    if (s2 !== peg$FAILED) {
+      s1 = input.substring(s1, peg$currPos);
+    } else {
+      s1 = s2;
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      peg$silentFails++;
+      s3 = input.charAt(peg$currPos);
+      if (peg$r8.test(s3)) {
+        peg$currPos++;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$e34); }
+      }
+      peg$silentFails--;
+      if (s3 === peg$FAILED) {
+        s2 = undefined;
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+      if (s2 !== peg$FAILED) {
+        s0 = s1;
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
 
     return s0;
   }
@@ -2941,7 +3872,7 @@ function peg$parse(input, options) {
       peg$currPos,
       peg$FAILED,
       peg$maxFailExpected,
-      peg$maxFailPos,
+      peg$maxFailPos
     });
   }
   if (peg$result !== peg$FAILED && peg$currPos === input.length) {
@@ -2956,15 +3887,17 @@ function peg$parse(input, options) {
       peg$maxFailPos < input.length ? input.charAt(peg$maxFailPos) : null,
       peg$maxFailPos < input.length
         ? peg$computeLocation(peg$maxFailPos, peg$maxFailPos + 1)
-        : peg$computeLocation(peg$maxFailPos, peg$maxFailPos),
+        : peg$computeLocation(peg$maxFailPos, peg$maxFailPos)
     );
   }
 }
 
-const peg$allowedStartRules = ["start"];
+const peg$allowedStartRules = [
+  "start"
+];
 
 export {
   peg$allowedStartRules as StartRules,
   peg$SyntaxError as SyntaxError,
-  peg$parse as parse,
+  peg$parse as parse
 };
@@ -0,0 +1,689 @@
+import { hex } from "./debug-protocol";
+
+// Memory-mapped devices for the emulator. A project lists the devices it
+// wants and where they sit; the bus builds them and answers the CPU's reads
+// and writes in their address ranges, which take precedence over RAM.
+
+export type PeripheralKind =
+  | "leds"
+  | "switches"
+  | "sevenSegment"
+  | "lcd"
+  | "keypad"
+  | "via"
+  | "framebuffer";
+
+export interface PeripheralConfig {
+  kind: PeripheralKind;
+  // First address of the device's registers
+  address: number;
+  // 7-segment: number of digits
+  digits?: number;
+  // LCD: characters per line and lines
+  columns?: number;
+  rows?: number;
+  // Framebuffer: pixels, one byte each
+  width?: number;
+  height?: number;
+}
+
+export const PERIPHERAL_KINDS: Record<PeripheralKind, string> = {
+  leds: "8 LEDs",
+  switches: "DIP switches",
+  sevenSegment: "7-segment display",
+  lcd: "Character LCD (HD44780)",
+  keypad: "Hex keypad",
+  via: "6522 VIA",
+  framebuffer: "Pixel framebuffer",
+};
+
+// Sizes the panel offers, and the defaults for missing options
+export const SEVEN_SEGMENT_DIGITS = [1, 2, 4, 6, 8];
+export const LCD_SIZES = [
+  { columns: 16, rows: 2 },
+  { columns: 20, rows: 2 },
+  { columns: 16, rows: 4 },
+  { columns: 20, rows: 4 },
+];
+export const FRAMEBUFFER_SIZES = [
+  { width: 16, height: 16 },
+  { width: 32, height: 32 },
+  { width: 64, height: 32 },
+];
+
+const DEFAULT_DIGITS = 4;
+const DEFAULT_LCD = LCD_SIZES[0];
+const DEFAULT_FRAMEBUFFER = FRAMEBUFFER_SIZES[1];
+
+// The emulator's serial port cannot be shadowed by a device
+const RESERVED = { start: 0xfff0, end: 0xfff1 };
+
+export function peripheralSize(config: PeripheralConfig): number {
+  switch (config.kind) {
+    case "sevenSegment":
+      return config.digits ?? DEFAULT_DIGITS;
+    case "lcd":
+      return 2;
+    case "via":
+      return 16;
+    case "framebuffer":
+      return (config.width ?? DEFAULT_FRAMEBUFFER.width) * (config.height ?? DEFAULT_FRAMEBUFFER.height);
+    default:
+      return 1;
+  }
+}
+
+const formatAddress = (value: number) => "$" + hex(value, 4);
+
+export function describePeripheral(config: PeripheralConfig): string {
+  const end = config.address + peripheralSize(config) - 1;
+  const range =
+    end === config.address
+      ? formatAddress(config.address)
+      : `${formatAddress(config.address)}-${formatAddress(end)}`;
+  return `${PERIPHERAL_KINDS[config.kind]} at ${range}`;
+}
+
+// Why the device list cannot be used, or null if it can
+export function peripheralsError(configs: PeripheralConfig[]): string | null {
+  const ranges: { start: number; end: number; name: string }[] = [
+    { ...RESERVED, name: "the serial port" },
+  ];
+  for (const config of configs) {
+    if (!Object.keys(PERIPHERAL_KINDS).includes(config.kind)) {
+      return `Unknown peripheral: ${config.kind}`;
+    }
+    const options = [config.digits, config.columns, config.rows, config.width, config.height];
+    if (options.some((value) => value !== undefined && !(Number.isInteger(value) && value > 0))) {
+      return `Invalid options for the ${PERIPHERAL_KINDS[config.kind]}`;
+    }
+    const start = config.address;
+    const end = start + peripheralSize(config) - 1;
+    if (!Number.isInteger(start) || start < 0 || end > 0xffff) {
+      return `${PERIPHERAL_KINDS[config.kind]} does not fit in memory`;
+    }
+    const name = describePeripheral(config);
+    const overlap = ranges.find((range) => start <= range.end && end >= range.start);
+    if (overlap) {
+      return `${name} overlaps ${overlap.name}`;
+    }
+    ranges.push({ start, end, name });
+  }
+  return null;
+}
+
+// --- Devices ---
+
+// Registers are addressed by their offset from the device's first address
+export interface Peripheral {
+  readonly config: PeripheralConfig;
+  read(offset: number): number;
+  write(offset: number, value: number): void;
+  // Called with the cycles of every instruction executed
+  tick?(cycles: number): void;
+  reset(): void;
+  // True while the device holds the IRQ line
+  readonly irq?: boolean;
+}
+
+// Eight LEDs, bit 7 on the left; reads back what was written
+export class LedBank implements Peripheral {
+  value = 0;
+
+  constructor(readonly config: PeripheralConfig) {}
+
+  read() {
+    return this.value;
+  }
+
+  write(_offset: number, value: number) {
+    this.value = value;
+  }
+
+  reset() {
+    this.value = 0;
+  }
+}
+
+// Eight switches set from the panel; writes are ignored. They keep their
+// position over a reset, like the real thing.
+export class DipSwitches implements Peripheral {
+  value = 0;
+
+  constructor(readonly config: PeripheralConfig) {}
+
+  read() {
+    return this.value;
+  }
+
+  write() {}
+
+  reset() {}
+}
+
+// One byte per digit, the leftmost first. Bits 0-6 light segments a-g and
+// bit 7 the decimal point.
+export class SevenSegmentDisplay implements Peripheral {
+  readonly segments: Uint8Array;
+
+  constructor(readonly config: PeripheralConfig) {
+    this.segments = new Uint8Array(config.digits ?? DEFAULT_DIGITS);
+  }
+
+  read(offset: number) {
+    return this.segments[offset];
+  }
+
+  write(offset: number, value: number) {
+    this.segments[offset] = value;
+  }
+
+  reset() {
+    this.segments.fill(0);
+  }
+}
+
+// A 4x4 keypad with keys 0-F. Reads $80 plus the key while one is down, or
+// 0. A key released before the program looked is still reported once.
+export class Keypad implements Peripheral {
+  private held: number | null = null;
+  private latched: number | null = null;
+
+  constructor(readonly config: PeripheralConfig) {}
+
+  press(key: number) {
+    this.held = key;
+    this.latched = key;
+  }
+
+  release() {
+    this.held = null;
+  }
+
+  read() {
+    const key = this.held ?? this.latched;
+    this.latched = null;
+    return key === null ? 0 : 0x80 | key;
+  }
+
+  write() {}
+
+  reset() {
+    this.held = null;
+    this.latched = null;
+  }
+}
+
+// The DDRAM address of the first character of each line
+const LCD_LINE_ADDRESSES = [0x00, 0x40];
+const LCD_LINE_LENGTH = 40;
+const LCD_DDRAM_SIZE = 0x80;
+
+// An HD44780 character LCD on the 8-bit bus: instructions at offset 0 and
+// data at offset 1. It never reports busy. Custom characters are stored in
+// CGRAM but shown as a block.
+export class CharacterLcd implements Peripheral {
+  readonly columns: number;
+  readonly rows: number;
+  readonly ddram = new Uint8Array(LCD_DDRAM_SIZE);
+  readonly cgram = new Uint8Array(64);
+  displayOn = false;
+  cursorOn = false;
+  blinkOn = false;
+  // Address counter, into DDRAM or CGRAM
+  address = 0;
+  private inCgram = false;
+  private increment = true;
+  private shiftDisplay = false;
+  // Characters the display has been shifted left by
+  shift = 0;
+
+  constructor(readonly config: PeripheralConfig) {
+    this.columns = config.columns ?? DEFAULT_LCD.columns;
+    this.rows = config.rows ?? DEFAULT_LCD.rows;
+    this.reset();
+  }
+
+  read(offset: number) {
+    if (offset === 0) {
+      // Busy flag (bit 7) is always clear
+      return this.address & 0x7f;
+    }
+    const value = this.inCgram ? this.cgram[this.address & 0x3f] : this.ddram[this.address];
+    this.advance(false);
+    return value;
+  }
+
+  write(offset: number, value: number) {
+    if (offset === 1) {
+      if (this.inCgram) {
+        this.cgram[this.address & 0x3f] = value;
+      } else {
+        this.ddram[this.address] = value;
+      }
+      this.advance(!this.inCgram && this.shiftDisplay);
+      return;
+    }
+    if (value & 0x80) {
+      this.inCgram = false;
+      this.address = value & 0x7f;
+    } else if (value & 0x40) {
+      this.inCgram = true;
+      this.address = value & 0x3f;
+    } else if (value & 0x20) {
+      // Function set: bus width, lines and font are fixed here
+    } else if (value & 0x10) {
+      const right = (value & 0x04) !== 0;
+      if (value & 0x08) {
+        this.shift += right ? -1 : 1;
+      } else {
+        this.address = this.move(this.address, right);
+      }
+    } else if (value & 0x08) {
+      this.displayOn = (value & 0x04) !== 0;
+      this.cursorOn = (value & 0x02) !== 0;
+      this.blinkOn = (value & 0x01) !== 0;
+    } else if (value & 0x04) {
+      this.increment = (value & 0x02) !== 0;
+      this.shiftDisplay = (value & 0x01) !== 0;
+    } else if (value & 0x02) {
+      this.inCgram = false;
+      this.address = 0;
+      this.shift = 0;
+    } else if (value & 0x01) {
+      this.ddram.fill(0x20);
+      this.inCgram = false;
+      this.address = 0;
+      this.shift = 0;
+      this.increment = true;
+    }
+  }
+
+  reset() {
+    this.ddram.fill(0x20);
+    this.cgram.fill(0);
+    this.displayOn = false;
+    this.cursorOn = false;
+    this.blinkOn = false;
+    this.address = 0;
+    this.inCgram = false;
+    this.increment = true;
+    this.shiftDisplay = false;
+    this.shift = 0;
+  }
+
+  // The character codes shown on each line, after the display shift
+  lines(): number[][] {
+    return Array.from({ length: this.rows }, (_, row) =>
+      Array.from({ length: this.columns }, (_, column) => this.ddram[this.ddramAddress(row, column)]),
+    );
+  }
+
+  // The line and column of the cursor, if it is on screen
+  cursor(): { row: number; column: number } | null {
+    if ((!this.cursorOn && !this.blinkOn) || this.inCgram) return null;
+    for (let row = 0; row < this.rows; row++) {
+      for (let column = 0; column < this.columns; column++) {
+        if (this.ddramAddress(row, column) === this.address) {
+          return { row, column };
+        }
+      }
+    }
+    return null;
+  }
+
+  // Each DDRAM line holds 40 characters and the shift rotates them; lines
+  // 3 and 4 continue lines 1 and 2
+  private ddramAddress(row: number, column: number) {
+    const position = column + (row >= 2 ? this.columns : 0) + this.shift;
+    return LCD_LINE_ADDRESSES[row % 2] + (((position % LCD_LINE_LENGTH) + LCD_LINE_LENGTH) % LCD_LINE_LENGTH);
+  }
+
+  private advance(shiftDisplay: boolean) {
+    if (this.inCgram) {
+      this.address = (this.address + (this.increment ? 1 : -1)) & 0x3f;
+    } else {
+      this.address = this.move(this.address, this.increment);
+    }
+    if (shiftDisplay) {
+      this.shift += this.increment ? 1 : -1;
+    }
+  }
+
+  // The address counter runs from the end of one line to the start of the other
+  private move(address: number, forward: boolean) {
+    if (forward) {
+      return address === 0x27 ? 0x40 : address === 0x67 ? 0x00 : (address + 1) & 0x7f;
+    }
+    return address === 0x40 ? 0x27 : address === 0x00 ? 0x67 : (address - 1) & 0x7f;
+  }
+}
+
+export const ViaRegister = {
+  ORB: 0,
+  ORA: 1,
+  DDRB: 2,
+  DDRA: 3,
+  T1CL: 4,
+  T1CH: 5,
+  T1LL: 6,
+  T1LH: 7,
+  T2CL: 8,
+  T2CH: 9,
+  SR: 10,
+  ACR: 11,
+  PCR: 12,
+  IFR: 13,
+  IER: 14,
+  ORA_NO_HANDSHAKE: 15,
+} as const;
+
+export const ViaInterrupt = {
+  T2: 0x20,
+  T1: 0x40,
+} as const;
+
+// A 6522 VIA: two 8-bit ports with direction registers, and timers 1 and
+// 2 counting system clock cycles with their interrupts. The shift register
+// and the control lines only store what is written.
+export class Via6522 implements Peripheral {
+  orb = 0;
+  ora = 0;
+  ddrb = 0;
+  ddra = 0;
+  // Levels of the pins set as inputs, from the panel
+  inputB = 0xff;
+  inputA = 0xff;
+  private t1Counter = 0xffff;
+  private t1Latch = 0xffff;
+  private t1Armed = false;
+  private t2Counter = 0xffff;
+  private t2LatchLow = 0xff;
+  private t2Armed = false;
+  private sr = 0;
+  private acr = 0;
+  private pcr = 0;
+  private ifr = 0;
+  private ier = 0;
+
+  constructor(readonly config: PeripheralConfig) {}
+
+  get irq() {
+    return (this.ifr & this.ier & 0x7f) !== 0;
+  }
+
+  // What the pins of each port show: outputs driven, inputs as set
+  get portB() {
+    return (this.orb & this.ddrb) | (this.inputB & ~this.ddrb & 0xff);
+  }
+
+  get portA() {
+    return (this.ora & this.ddra) | (this.inputA & ~this.ddra & 0xff);
+  }
+
+  read(offset: number) {
+    switch (offset) {
+      case ViaRegister.ORB:
+        return this.portB;
+      case ViaRegister.ORA:
+      case ViaRegister.ORA_NO_HANDSHAKE:
+        return this.portA;
+      case ViaRegister.DDRB:
+        return this.ddrb;
+      case ViaRegister.DDRA:
+        return this.ddra;
+      case ViaRegister.T1CL:
+        this.ifr &= ~ViaInterrupt.T1;
+        return this.t1Counter & 0xff;
+      case ViaRegister.T1CH:
+        return this.t1Counter >> 8;
+      case ViaRegister.T1LL:
+        return this.t1Latch & 0xff;
+      case ViaRegister.T1LH:
+        return this.t1Latch >> 8;
+      case ViaRegister.T2CL:
+        this.ifr &= ~ViaInterrupt.T2;
+        return this.t2Counter & 0xff;
+      case ViaRegister.T2CH:
+        return this.t2Counter >> 8;
+      case ViaRegister.SR:
+        return this.sr;
+      case ViaRegister.ACR:
+        return this.acr;
+      case ViaRegister.PCR:
+        return this.pcr;
+      case ViaRegister.IFR:
+        return (this.ifr & 0x7f) | (this.irq ? 0x80 : 0);
+      case ViaRegister.IER:
+        return this.ier | 0x80;
+      default:
+        return 0;
+    }
+  }
+
+  write(offset: number, value: number) {
+    switch (offset) {
+      case ViaRegister.ORB:
+        this.orb = value;
+        break;
+      case ViaRegister.ORA:
+      case ViaRegister.ORA_NO_HANDSHAKE:
+        this.ora = value;
+        break;
+      case ViaRegister.DDRB:
+        this.ddrb = value;
+        break;
+      case ViaRegister.DDRA:
+        this.ddra = value;
+        break;
+      case ViaRegister.T1CL:
+      case ViaRegister.T1LL:
+        this.t1Latch = (this.t1Latch & 0xff00) | value;
+        break;
+      case ViaRegister.T1CH:
+        // Starts timer 1 from the latches
+        this.t1Latch = (this.t1Latch & 0xff) | (value << 8);
+        this.t1Counter = this.t1Latch;
+        this.t1Armed = true;
+        this.ifr &= ~ViaInterrupt.T1;
+        break;
+      case ViaRegister.T1LH:
+        this.t1Latch = (this.t1Latch & 0xff) | (value << 8);
+        this.ifr &= ~ViaInterrupt.T1;
+        break;
+      case ViaRegister.T2CL:
+        this.t2LatchLow = value;
+        break;
+      case ViaRegister.T2CH:
+        this.t2Counter = this.t2LatchLow | (value << 8);
+        this.t2Armed = true;
+        this.ifr &= ~ViaInterrupt.T2;
+        break;
+      case ViaRegister.SR:
+        this.sr = value;
+        break;
+      case ViaRegister.ACR:
+        this.acr = value;
+        break;
+      case ViaRegister.PCR:
+        this.pcr = value;
+        break;
+      case ViaRegister.IFR:
+        // Writing a 1 clears the flag
+        this.ifr &= ~value & 0x7f;
+        break;
+      case ViaRegister.IER:
+        if (value & 0x80) {
+          this.ier |= value & 0x7f;
+        } else {
+          this.ier &= ~value & 0x7f;
+        }
+        break;
+    }
+  }
+
+  tick(cycles: number) {
+    // Timer 1 reloads from its latch in free-run mode (ACR bit 6), and
+    // otherwise interrupts once per start
+    this.t1Counter -= cycles;
+    while (this.t1Counter < 0) {
+      if (this.t1Armed) {
+        this.ifr |= ViaInterrupt.T1;
+        this.t1Armed = (this.acr & 0x40) !== 0;
+      }
+      // The counter takes two cycles to reload
+      this.t1Counter += (this.acr & 0x40 ? this.t1Latch : 0xffff) + 2;
+    }
+    // Timer 2 is one-shot and keeps counting down after it fires
+    this.t2Counter -= cycles;
+    while (this.t2Counter < 0) {
+      if (this.t2Armed) {
+        this.ifr |= ViaInterrupt.T2;
+        this.t2Armed = false;
+      }
+      this.t2Counter += 0x10000;
+    }
+  }
+
+  reset() {
+    // A reset clears the registers but not the timer counters or latches
+    this.orb = 0;
+    this.ora = 0;
+    this.ddrb = 0;
+    this.ddra = 0;
+    this.sr = 0;
+    this.acr = 0;
+    this.pcr = 0;
+    this.ifr = 0;
+    this.ier = 0;
+    this.t1Armed = false;
+    this.t2Armed = false;
+  }
+}
+
+// Pixels stored row by row, one byte each; the low 4 bits pick a colour
+// from `FRAMEBUFFER_PALETTE`
+export class Framebuffer implements Peripheral {
+  readonly width: number;
+  readonly height: number;
+  readonly pixels: Uint8Array;
+
+  constructor(readonly config: PeripheralConfig) {
+    this.width = config.width ?? DEFAULT_FRAMEBUFFER.width;
+    this.height = config.height ?? DEFAULT_FRAMEBUFFER.height;
+    this.pixels = new Uint8Array(this.width * this.height);
+  }
+
+  read(offset: number) {
+    return this.pixels[offset];
+  }
+
+  write(offset: number, value: number) {
+    this.pixels[offset] = value;
+  }
+
+  reset() {
+    this.pixels.fill(0);
+  }
+}
+
+// The 16 colours of the C64, a common choice for these screens
+export const FRAMEBUFFER_PALETTE = [
+  "#000000", "#ffffff", "#880000", "#aaffee", "#cc44cc", "#00cc55", "#0000aa", "#eeee77",
+  "#dd8855", "#664400", "#ff7777", "#333333", "#777777", "#aaff66", "#0088ff", "#bbbbbb",
+];
+
+export function createPeripheral(config: PeripheralConfig): Peripheral {
+  switch (config.kind) {
+    case "leds":
+      return new LedBank(config);
+    case "switches":
+      return new DipSwitches(config);
+    case "sevenSegment":
+      return new SevenSegmentDisplay(config);
+    case "lcd":
+      return new CharacterLcd(config);
+    case "keypad":
+      return new Keypad(config);
+    case "via":
+      return new Via6522(config);
+    case "framebuffer":
+      return new Framebuffer(config);
+  }
+}
+
+// --- Bus ---
+
+// The devices of one machine. `version` goes up whenever a device may look
+// different, so a view can redraw only then.
+export class PeripheralBus {
+  private devices: Peripheral[] = [];
+  // Device at each address, for the mapped addresses only
+  private map = new Map<number, Peripheral>();
+  private timed: Peripheral[] = [];
+  version = 0;
+
+  get peripherals(): readonly Peripheral[] {
+    return this.devices;
+  }
+
+  // Replaces the devices. Ones whose configuration is unchanged are kept,
+  // with their state.
+  configure(configs: PeripheralConfig[]) {
+    const previous = this.devices;
+    this.devices = configs.map((config) => {
+      const kept = previous.find((device) => JSON.stringify(device.config) === JSON.stringify(config));
+      return kept ?? createPeripheral({ ...config });
+    });
+    this.map.clear();
+    for (const device of this.devices) {
+      const size = peripheralSize(device.config);
+      for (let offset = 0; offset < size; offset++) {
+        this.map.set(device.config.address + offset, device);
+      }
+    }
+    this.timed = this.devices.filter((device) => device.tick);
+    this.version++;
+  }
+
+  has(address: number): boolean {
+    return this.map.has(address);
+  }
+
+  read(address: number): number | undefined {
+    const device = this.map.get(address);
+    if (!device) return undefined;
+    // Reads can change state too, e.g. an LCD's address counter
+    this.version++;
+    return device.read(address - device.config.address) & 0xff;
+  }
+
+  // False when no device is mapped at the address
+  write(address: number, value: number): boolean {
+    const device = this.map.get(address);
+    if (!device) return false;
+    device.write(address - device.config.address, value);
+    this.version++;
+    return true;
+  }
+
+  tick(cycles: number) {
+    for (const device of this.timed) {
+      device.tick!(cycles);
+    }
+  }
+
+  get irq(): boolean {
+    return this.devices.some((device) => device.irq);
+  }
+
+  reset() {
+    this.devices.forEach((device) => device.reset());
+    this.version++;
+  }
+
+  // For input widgets changed from outside the emulator
+  changed() {
+    this.version++;
+  }
+}
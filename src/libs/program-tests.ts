@@ -0,0 +1,441 @@
+import { assemble, type AssemblyResult } from "./asm6502.js";
+import { Flag } from "./cpu6502";
+import { hex } from "./debug-protocol";
+import { Emulator } from "./emulator";
+import { unescapeText } from "./expect-script";
+import { DEFAULT_MEMORY_MAP } from "./memory-map";
+import { PeripheralBus } from "./peripherals";
+import { assemblerFiles, type Project } from "./project-bundle";
+
+// Unit tests for 6502 programs. Files ending in `.test` hold test cases
+// that set up memory and registers, call a subroutine of the assembled
+// project and check what it leaves behind. One command per line; `#`
+// starts a comment line:
+//
+//   test strlen counts up to the terminator
+//     memory buffer "hello" 0      bytes and strings at an address or label
+//     set x=0 c=1                  registers a x y sp p, flags n v d i z c
+//     input "RUN\r"                serial input, with the escapes of scripts
+//     call strlen                  JSR to a label or address
+//     limit 5000                   most cycles before failing (default 100000)
+//     expect y=5 z=0
+//     expect memory result 5 0
+//     expect output "5\r\n"
+//
+// Numbers are $hex, %binary or decimal; names are labels or symbols,
+// optionally with an offset such as `buffer+2`.
+//
+// Nothing here depends on the browser, so the same runner grades projects
+// from Node or Vitest:
+//
+//   const run = testProject(projectFromJson(readFileSync("project.json", "utf8")));
+//   console.log(formatTestReport(run));
+
+export const TEST_FILE_PATTERN = /\.test$/i;
+export const DEFAULT_CYCLE_LIMIT = 100_000;
+
+// The subroutine returns here, an address no program executes
+const RETURN_ADDRESS = 0xfff0;
+
+const REGISTERS = ["a", "x", "y", "sp", "p"] as const;
+const FLAGS = { n: Flag.N, v: Flag.V, d: Flag.D, i: Flag.I, z: Flag.Z, c: Flag.C } as const;
+
+export type RegisterName = (typeof REGISTERS)[number] | keyof typeof FLAGS;
+
+// A number, or a name looked up in the assembled program
+type Value = { number: number } | { name: string; offset: number };
+// Strings stand for their characters
+type ByteItem = Value | { text: string };
+
+interface Assignment {
+  register: RegisterName;
+  value: Value;
+  line: number;
+}
+
+interface MemoryData {
+  address: Value;
+  bytes: ByteItem[];
+  line: number;
+}
+
+export type Expectation =
+  | ({ type: "register" } & Assignment)
+  | ({ type: "memory" } & MemoryData)
+  | { type: "output"; text: string; line: number };
+
+export interface TestCase {
+  name: string;
+  file: string;
+  line: number;
+  memory: MemoryData[];
+  registers: Assignment[];
+  input: string;
+  call: { target: Value; line: number };
+  cycleLimit: number;
+  expectations: Expectation[];
+}
+
+export interface TestResult {
+  test: TestCase;
+  passed: boolean;
+  // Why it failed, each with its line
+  failures: string[];
+  cycles: number;
+  // Serial output, as text
+  output: string;
+}
+
+export interface TestRun {
+  results: TestResult[];
+  // Set when the project did not assemble or a test file is invalid
+  error?: string;
+}
+
+export class TestFileError extends Error {
+  constructor(
+    message: string,
+    readonly file: string,
+    readonly line: number,
+  ) {
+    super(`${file}:${line}: ${message}`);
+    this.name = "TestFileError";
+  }
+}
+
+// --- Parsing ---
+
+const TOKEN = /"(?:[^"\\]|\\.)*"|\S+/g;
+const NUMBER = /^(?:\$([0-9A-Fa-f]+)|%([01]+)|(\d+))$/;
+const NAME = /^([A-Za-z_]\w*)(?:([+-])(\$[0-9A-Fa-f]+|%[01]+|\d+))?$/;
+
+function parseNumber(text: string): number | null {
+  const match = NUMBER.exec(text);
+  if (!match) return null;
+  const [, hexDigits, binary, decimal] = match;
+  return hexDigits !== undefined
+    ? parseInt(hexDigits, 16)
+    : binary !== undefined
+      ? parseInt(binary, 2)
+      : parseInt(decimal, 10);
+}
+
+export function parseTests(source: string, file: string): TestCase[] {
+  const tests: TestCase[] = [];
+  // Without a `call` yet
+  let current: (Omit<TestCase, "call"> & { call?: TestCase["call"] }) | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    if (!current.call) {
+      throw new TestFileError("The test has no call", file, current.line);
+    }
+    tests.push(current as TestCase);
+  };
+
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const text = raw.trim();
+    if (text === "" || text.startsWith("#")) return;
+    const fail = (message: string): never => {
+      throw new TestFileError(message, file, line);
+    };
+
+    const [command, ...args] = text.match(TOKEN)!;
+    const string = (token: string) => {
+      if (!/^".*"$/.test(token)) return null;
+      try {
+        return unescapeText(token.slice(1, -1));
+      } catch (error) {
+        return fail((error as Error).message);
+      }
+    };
+    const value = (token: string | undefined, what: string): Value => {
+      const number = token === undefined ? null : parseNumber(token);
+      if (number !== null) return { number };
+      const match = token === undefined ? null : NAME.exec(token);
+      if (!match) {
+        return fail(`Expected ${what}, found ${token ?? "nothing"}`);
+      }
+      const offset = match[3] === undefined ? 0 : parseNumber(match[3])!;
+      return { name: match[1], offset: match[2] === "-" ? -offset : offset };
+    };
+    const bytes = (tokens: string[]): ByteItem[] => {
+      if (tokens.length === 0) fail("Expected bytes");
+      return tokens.map((token) => {
+        const text = string(token);
+        return text !== null ? { text } : value(token, "a byte or string");
+      });
+    };
+    const assignments = (tokens: string[]): Assignment[] => {
+      if (tokens.length === 0) fail("Expected register=value");
+      return tokens.map((token) => {
+        const [name, text] = token.split("=");
+        const register = name.toLowerCase();
+        if (!(REGISTERS as readonly string[]).includes(register) && !(register in FLAGS)) {
+          fail(`Unknown register or flag: ${register}`);
+        }
+        return { register: register as RegisterName, value: value(text, "a value"), line };
+      });
+    };
+
+    if (command.toLowerCase() === "test") {
+      finish();
+      const name = text.slice(command.length).trim();
+      if (!name) fail("The test needs a name");
+      current = {
+        name,
+        file,
+        line,
+        memory: [],
+        registers: [],
+        input: "",
+        cycleLimit: DEFAULT_CYCLE_LIMIT,
+        expectations: [],
+      };
+      return;
+    }
+    if (!current) {
+      fail("Commands must follow a `test` line");
+    }
+    const test = current!;
+
+    switch (command.toLowerCase()) {
+      case "memory":
+        test.memory.push({ address: value(args[0], "an address"), bytes: bytes(args.slice(1)), line });
+        break;
+      case "set":
+        test.registers.push(...assignments(args));
+        break;
+      case "input": {
+        const input = args.length === 1 ? string(args[0]) : null;
+        if (input === null) fail('Expected the input as a "string"');
+        test.input += input;
+        break;
+      }
+      case "call":
+        if (test.call) fail("The test already has a call");
+        if (args.length !== 1) fail("Expected one label or address to call");
+        test.call = { target: value(args[0], "a label or address"), line };
+        break;
+      case "limit": {
+        const limit = args.length === 1 ? parseNumber(args[0]) : null;
+        if (!limit) fail("Expected a number of cycles");
+        test.cycleLimit = limit!;
+        break;
+      }
+      case "expect":
+        if (args[0]?.toLowerCase() === "memory") {
+          test.expectations.push({
+            type: "memory",
+            address: value(args[1], "an address"),
+            bytes: bytes(args.slice(2)),
+            line,
+          });
+        } else if (args[0]?.toLowerCase() === "output") {
+          const output = args.length === 2 ? string(args[1]) : null;
+          if (output === null) fail('Expected the output as a "string"');
+          test.expectations.push({ type: "output", text: output!, line });
+        } else {
+          test.expectations.push(
+            ...assignments(args).map((assignment) => ({ type: "register" as const, ...assignment })),
+          );
+        }
+        break;
+      default:
+        fail(`Unknown command: ${command}`);
+    }
+  });
+  finish();
+  return tests;
+}
+
+// --- Running ---
+
+// What the tests need from an assembly
+export type TestProgram = Pick<AssemblyResult, "blocks" | "labels" | "symbols">;
+
+class SetupError extends Error {}
+
+export function runTest(
+  test: TestCase,
+  program: TestProgram,
+  options: { peripherals?: PeripheralBus } = {},
+): TestResult {
+  const output: number[] = [];
+  const emulator = new Emulator({
+    peripherals: options.peripherals,
+    onSerialOutput: (data) => output.push(...data),
+  });
+  emulator.tracing = false;
+  const cpu = emulator.cpu;
+  const result: TestResult = { test, passed: false, failures: [], cycles: 0, output: "" };
+
+  const resolve = (value: Value, max: number, line: number) => {
+    let number: number;
+    if ("number" in value) {
+      number = value.number;
+    } else {
+      const base = program.labels[value.name] ?? program.symbols[value.name];
+      if (base === undefined) {
+        throw new SetupError(`Line ${line}: Unknown label or symbol: ${value.name}`);
+      }
+      number = base + value.offset;
+    }
+    if (number < 0 || number > max) {
+      throw new SetupError(`Line ${line}: Value out of range: ${number}`);
+    }
+    return number;
+  };
+  const resolveBytes = (items: ByteItem[], line: number) =>
+    items.flatMap((item) =>
+      "text" in item
+        ? Array.from(item.text, (char) => char.charCodeAt(0) & 0xff)
+        : [resolve(item, 0xff, line)],
+    );
+
+  try {
+    for (const block of program.blocks) {
+      emulator.load(
+        block.bytes.map((byte) => byte ?? 0),
+        block.address,
+      );
+    }
+    emulator.reset();
+    for (const data of test.memory) {
+      const address = resolve(data.address, 0xffff, data.line);
+      resolveBytes(data.bytes, data.line).forEach((byte, i) => {
+        emulator.memory[(address + i) & 0xffff] = byte;
+      });
+    }
+    for (const { register, value, line } of test.registers) {
+      if (register in FLAGS) {
+        const flag = FLAGS[register as keyof typeof FLAGS];
+        cpu.p = resolve(value, 1, line) ? cpu.p | flag : cpu.p & ~flag;
+      } else {
+        cpu[register as (typeof REGISTERS)[number]] = resolve(value, 0xff, line);
+      }
+    }
+    emulator.sendSerialInput(test.input);
+
+    // As if called with JSR from just before RETURN_ADDRESS
+    const stackPointer = cpu.sp;
+    const pushed = RETURN_ADDRESS - 1;
+    emulator.memory[0x100 + cpu.sp] = pushed >> 8;
+    cpu.sp = (cpu.sp - 1) & 0xff;
+    emulator.memory[0x100 + cpu.sp] = pushed & 0xff;
+    cpu.sp = (cpu.sp - 1) & 0xff;
+    cpu.pc = resolve(test.call.target, 0xffff, test.call.line);
+
+    while (!(cpu.pc === RETURN_ADDRESS && cpu.sp === stackPointer)) {
+      if (result.cycles >= test.cycleLimit) {
+        throw new SetupError(`Did not return within ${test.cycleLimit} cycles`);
+      }
+      result.cycles += emulator.step();
+    }
+
+    result.output = Array.from(output, (byte) => String.fromCharCode(byte)).join("");
+    for (const expectation of test.expectations) {
+      const failure = check(expectation);
+      if (failure) {
+        result.failures.push(`Line ${expectation.line}: ${failure}`);
+      }
+    }
+  } catch (error) {
+    result.output = Array.from(output, (byte) => String.fromCharCode(byte)).join("");
+    result.failures.push(
+      error instanceof SetupError ? error.message : `Stopped at $${hex(cpu.pc, 4)}: ${error}`,
+    );
+  }
+  result.passed = result.failures.length === 0;
+  return result;
+
+  function check(expectation: Expectation): string | null {
+    switch (expectation.type) {
+      case "register": {
+        const { register, value, line } = expectation;
+        if (register in FLAGS) {
+          const actual = cpu.p & FLAGS[register as keyof typeof FLAGS] ? 1 : 0;
+          const expected = resolve(value, 1, line);
+          return actual === expected
+            ? null
+            : `Flag ${register.toUpperCase()} is ${actual}, expected ${expected}`;
+        }
+        const actual = cpu[register as (typeof REGISTERS)[number]];
+        const expected = resolve(value, 0xff, line);
+        return actual === expected
+          ? null
+          : `${register.toUpperCase()} is $${hex(actual, 2)}, expected $${hex(expected, 2)}`;
+      }
+      case "memory": {
+        const address = resolve(expectation.address, 0xffff, expectation.line);
+        const expected = resolveBytes(expectation.bytes, expectation.line);
+        const actual = expected.map((_, i) => emulator.memory[(address + i) & 0xffff]);
+        const format = (bytes: number[]) => bytes.map((byte) => hex(byte, 2)).join(" ");
+        return actual.every((byte, i) => byte === expected[i])
+          ? null
+          : `Memory at $${hex(address, 4)} is ${format(actual)}, expected ${format(expected)}`;
+      }
+      case "output":
+        return result.output === expectation.text
+          ? null
+          : `Output is ${JSON.stringify(result.output)}, expected ${JSON.stringify(expectation.text)}`;
+    }
+  }
+}
+
+// Assembles the project and runs the tests of all its test files
+export function testProject(project: Project): TestRun {
+  const entry = project.files.find((file) => file.name === project.entryFile);
+  const result = assemble(entry?.content ?? "", {
+    fileName: project.entryFile,
+    files: assemblerFiles(project.files),
+    cpu: project.cpu,
+    memoryMap: project.memoryMap ?? DEFAULT_MEMORY_MAP,
+  });
+  const errors = result.diagnostics.filter((d) => d.severity === "error");
+  if (errors.length > 0) {
+    const [first] = errors;
+    return {
+      results: [],
+      error: `Assembly failed with ${errors.length} error(s), the first at ${first.file}:${first.startLine}: ${first.message}`,
+    };
+  }
+
+  let tests: TestCase[];
+  try {
+    tests = project.files
+      .filter((file) => !file.binary && TEST_FILE_PATTERN.test(file.name))
+      .flatMap((file) => parseTests(file.content, file.name));
+  } catch (error) {
+    if (error instanceof TestFileError) {
+      return { results: [], error: error.message };
+    }
+    throw error;
+  }
+
+  // Each test gets devices in their power-on state
+  return {
+    results: tests.map((test) => {
+      const peripherals = new PeripheralBus();
+      peripherals.configure(project.peripherals ?? []);
+      return runTest(test, result, { peripherals });
+    }),
+  };
+}
+
+// The Test Anything Protocol, which CI systems and graders understand
+export function formatTestReport(run: TestRun): string {
+  if (run.error) {
+    return `TAP version 13\n1..0\nBail out! ${run.error}\n`;
+  }
+  let report = `TAP version 13\n1..${run.results.length}\n`;
+  run.results.forEach((result, i) => {
+    const { name, file } = result.test;
+    report += `${result.passed ? "ok" : "not ok"} ${i + 1} - ${file}: ${name}\n`;
+    for (const failure of result.failures) {
+      report += `  # ${failure}\n`;
+    }
+  });
+  return report;
+}
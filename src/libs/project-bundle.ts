@@ -0,0 +1,322 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { CPU_TYPES, type CpuType } from "./opcodes.js";
+import { peripheralsError, type PeripheralConfig } from "./peripherals";
+import {
+  memoryMapError,
+  type MemoryMap,
+  type MemoryRegion,
+  type SegmentPlacement,
+} from "./memory-map";
+
+// A project is a set of named source files, one of which is assembled.
+// Projects are saved as a JSON bundle or as a .zip of the files plus a
+// small manifest.
+
+export interface ProjectFile {
+  name: string;
+  // Text, or base64 for binary files such as .incbin data
+  content: string;
+  binary?: boolean;
+  // Source lines (1-based) with a breakpoint
+  breakpoints?: number[];
+}
+
+export interface Project {
+  entryFile: string;
+  files: ProjectFile[];
+  // CPU the project assembles for; the 6502 when absent
+  cpu?: CpuType;
+  // Virtual devices the emulator maps into memory for this project
+  peripherals?: PeripheralConfig[];
+  // Where `.segment`s go; the board's map when absent
+  memoryMap?: MemoryMap;
+}
+
+export const PROJECT_FORMAT = "6502-playground-project";
+const PROJECT_VERSION = 1;
+// Stored in the .zip next to the files; not a project file itself
+const MANIFEST_NAME = "project.json";
+const SOURCE_EXTENSIONS = /\.(s|asm|inc|a65|test|txt|md)$/i;
+
+export class ProjectFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFormatError";
+  }
+}
+
+// File names are paths relative to the project, e.g. "lib/io.s"
+export function validateFileName(name: string, existing: string[]): string | null {
+  if (!name.trim()) {
+    return "File name cannot be empty";
+  }
+  if (name !== name.trim() || name.startsWith("/") || name.split("/").includes("..")) {
+    return `Invalid file name: ${name}`;
+  }
+  if (name === MANIFEST_NAME) {
+    return `${MANIFEST_NAME} is reserved for the project manifest`;
+  }
+  if (existing.includes(name)) {
+    return `A file named ${name} already exists`;
+  }
+  return null;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+export function fileBytes(file: ProjectFile): Uint8Array {
+  return file.binary ? decodeBase64(file.content) : strToU8(file.content);
+}
+
+// Source files are kept as text; anything that is not valid UTF-8 is binary
+export function fileFromBytes(name: string, bytes: Uint8Array): ProjectFile {
+  if (SOURCE_EXTENSIONS.test(name)) {
+    return { name, content: strFromU8(bytes) };
+  }
+  try {
+    return { name, content: new TextDecoder("utf-8", { fatal: true }).decode(bytes) };
+  } catch {
+    return { name, content: encodeBase64(bytes), binary: true };
+  }
+}
+
+// The files as the assembler's .include/.incbin file system
+export function assemblerFiles(files: ProjectFile[]): Record<string, string | Uint8Array> {
+  return Object.fromEntries(
+    files.map((file) => [file.name, file.binary ? decodeBase64(file.content) : file.content]),
+  );
+}
+
+export function projectToJson(project: Project): string {
+  return JSON.stringify(
+    { format: PROJECT_FORMAT, version: PROJECT_VERSION, ...project },
+    null,
+    2,
+  );
+}
+
+// Imported JSON is untrusted: it is read as `unknown` and narrowed
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === "number";
+
+export function projectFromJson(text: string): Project {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFormatError("Not a valid JSON file");
+  }
+  if (!isRecord(data) || data.format !== PROJECT_FORMAT || !Array.isArray(data.files)) {
+    throw new ProjectFormatError("Not a 6502 playground project");
+  }
+  if (typeof data.version === "number" && data.version > PROJECT_VERSION) {
+    throw new ProjectFormatError(
+      `Project version ${data.version} is newer than this playground supports`,
+    );
+  }
+  const files = data.files.map((file: unknown): ProjectFile => {
+    if (!isRecord(file) || typeof file.name !== "string" || typeof file.content !== "string") {
+      throw new ProjectFormatError("Project contains an invalid file entry");
+    }
+    if (file.binary) {
+      return { name: file.name, content: file.content, binary: true };
+    }
+    const breakpoints = validBreakpoints(file.breakpoints);
+    return breakpoints
+      ? { name: file.name, content: file.content, breakpoints }
+      : { name: file.name, content: file.content };
+  });
+  return checkProject(files, data.entryFile, data.cpu, data.peripherals, data.memoryMap);
+}
+
+// Breakpoints are a convenience, so bad entries are dropped rather than rejected
+function validBreakpoints(lines: unknown): number[] | undefined {
+  if (!Array.isArray(lines)) {
+    return undefined;
+  }
+  const valid = lines.filter(
+    (line: unknown): line is number => typeof line === "number" && Number.isInteger(line) && line > 0,
+  );
+  return valid.length > 0 ? valid : undefined;
+}
+
+export function projectToZip(project: Project): Uint8Array {
+  // The files themselves are plain, so breakpoints go in the manifest
+  const breakpoints: Record<string, number[]> = {};
+  for (const file of project.files) {
+    if (file.breakpoints?.length) {
+      breakpoints[file.name] = file.breakpoints;
+    }
+  }
+  const entries: Record<string, Uint8Array> = {
+    [MANIFEST_NAME]: strToU8(
+      JSON.stringify(
+        {
+          format: PROJECT_FORMAT,
+          version: PROJECT_VERSION,
+          entryFile: project.entryFile,
+          cpu: project.cpu,
+          peripherals: project.peripherals,
+          memoryMap: project.memoryMap,
+          breakpoints,
+        },
+        null,
+        2,
+      ),
+    ),
+  };
+  for (const file of project.files) {
+    entries[file.name] = fileBytes(file);
+  }
+  return zipSync(entries);
+}
+
+export function projectFromZip(data: Uint8Array): Project {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data);
+  } catch {
+    throw new ProjectFormatError("Not a valid .zip file");
+  }
+  let entryFile: unknown;
+  let cpu: unknown;
+  let peripherals: unknown;
+  let memoryMap: unknown;
+  let breakpoints: Record<string, unknown> = {};
+  const files: ProjectFile[] = [];
+  for (const [name, bytes] of Object.entries(entries)) {
+    if (name.endsWith("/")) {
+      continue; // Directory entry
+    }
+    if (name === MANIFEST_NAME) {
+      let manifest: unknown;
+      try {
+        manifest = JSON.parse(strFromU8(bytes));
+      } catch {
+        manifest = null;
+      }
+      if (!isRecord(manifest)) {
+        throw new ProjectFormatError(`Invalid ${MANIFEST_NAME} in .zip`);
+      }
+      entryFile = manifest.entryFile;
+      cpu = manifest.cpu;
+      peripherals = manifest.peripherals;
+      memoryMap = manifest.memoryMap;
+      breakpoints = isRecord(manifest.breakpoints) ? manifest.breakpoints : {};
+      continue;
+    }
+    files.push(fileFromBytes(name, bytes));
+  }
+  for (const file of files) {
+    const lines = file.binary ? undefined : validBreakpoints(breakpoints[file.name]);
+    if (lines) {
+      file.breakpoints = lines;
+    }
+  }
+  return checkProject(files, entryFile, cpu, peripherals, memoryMap);
+}
+
+// Zips from elsewhere may lack a manifest; the first source file is used
+function checkProject(
+  files: ProjectFile[],
+  entryFile: unknown,
+  cpu: unknown,
+  peripherals: unknown,
+  memoryMap: unknown,
+): Project {
+  const names: string[] = [];
+  for (const file of files) {
+    const error = validateFileName(file.name, names);
+    if (error) {
+      throw new ProjectFormatError(error);
+    }
+    names.push(file.name);
+  }
+  const sources = files.filter((file) => !file.binary);
+  if (sources.length === 0) {
+    throw new ProjectFormatError("Project has no source files");
+  }
+  const entry =
+    typeof entryFile === "string" && sources.some((file) => file.name === entryFile)
+      ? entryFile
+      : (sources.find((file) => SOURCE_EXTENSIONS.test(file.name)) ?? sources[0]).name;
+  if (cpu !== undefined && !Object.keys(CPU_TYPES).includes(String(cpu))) {
+    throw new ProjectFormatError(`Unknown CPU: ${cpu}`);
+  }
+  const project: Project = { entryFile: entry, files };
+  if (cpu !== undefined) {
+    project.cpu = cpu as CpuType;
+  }
+  if (peripherals !== undefined) {
+    project.peripherals = checkPeripherals(peripherals);
+  }
+  if (memoryMap !== undefined) {
+    project.memoryMap = checkMemoryMap(memoryMap);
+  }
+  return project;
+}
+
+// Unlike breakpoints, a wrong hardware layout would silently break the
+// program, so it is rejected
+function isPeripheralEntry(value: unknown): value is PeripheralConfig {
+  return (
+    isRecord(value) &&
+    typeof value.kind === "string" &&
+    typeof value.address === "number" &&
+    [value.digits, value.columns, value.rows, value.width, value.height].every(isOptionalNumber)
+  );
+}
+
+function checkPeripherals(peripherals: unknown): PeripheralConfig[] {
+  if (!Array.isArray(peripherals) || !peripherals.every(isPeripheralEntry)) {
+    throw new ProjectFormatError("Project contains an invalid peripheral entry");
+  }
+  const error = peripheralsError(peripherals);
+  if (error) {
+    throw new ProjectFormatError(error);
+  }
+  return peripherals;
+}
+
+function isMemoryRegion(value: unknown): value is MemoryRegion {
+  return (
+    isRecord(value) &&
+    typeof value.name === "string" &&
+    typeof value.kind === "string" &&
+    [value.start, value.size, value.fill].every((field) => typeof field === "number")
+  );
+}
+
+function isSegmentPlacement(value: unknown): value is SegmentPlacement {
+  return isRecord(value) && typeof value.name === "string" && typeof value.region === "string";
+}
+
+function checkMemoryMap(memoryMap: unknown): MemoryMap {
+  if (
+    !isRecord(memoryMap) ||
+    !Array.isArray(memoryMap.regions) ||
+    !Array.isArray(memoryMap.segments) ||
+    !memoryMap.regions.every(isMemoryRegion) ||
+    !memoryMap.segments.every(isSegmentPlacement)
+  ) {
+    throw new ProjectFormatError("Project contains an invalid memory map");
+  }
+  const map: MemoryMap = { regions: memoryMap.regions, segments: memoryMap.segments };
+  const error = memoryMapError(map);
+  if (error) {
+    throw new ProjectFormatError(error);
+  }
+  return map;
+}
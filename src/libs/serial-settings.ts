@@ -0,0 +1,88 @@
+import { hex } from "./debug-protocol";
+
+// Line settings for a board on a real serial port, and the named profiles
+// they are saved in.
+
+export interface SerialSettings {
+  baudRate: number;
+  dataBits: 7 | 8;
+  parity: ParityType;
+  stopBits: 1 | 2;
+  flowControl: FlowControlType;
+}
+
+// What identifies a USB serial adapter again after the page is reloaded
+export interface PortIdentity {
+  usbVendorId?: number;
+  usbProductId?: number;
+}
+
+export interface SerialProfile {
+  name: string;
+  settings: SerialSettings;
+  // The adapter last connected with this profile
+  port?: PortIdentity;
+}
+
+export const DEFAULT_SERIAL_SETTINGS: SerialSettings = {
+  baudRate: 9600,
+  dataBits: 8,
+  parity: "none",
+  stopBits: 1,
+  flowControl: "none",
+};
+
+export const BAUD_RATES = [1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200, 230400];
+export const PARITIES: ParityType[] = ["none", "even", "odd"];
+export const FLOW_CONTROLS: FlowControlType[] = ["none", "hardware"];
+
+// Why the settings cannot open a port, or null if they can
+export function serialSettingsError(settings: SerialSettings): string | null {
+  if (!Number.isInteger(settings.baudRate) || settings.baudRate <= 0) {
+    return `Invalid baud rate: ${settings.baudRate}`;
+  }
+  if (settings.dataBits !== 7 && settings.dataBits !== 8) {
+    return `Invalid data bits: ${settings.dataBits}`;
+  }
+  if (!PARITIES.includes(settings.parity)) {
+    return `Invalid parity: ${settings.parity}`;
+  }
+  if (settings.stopBits !== 1 && settings.stopBits !== 2) {
+    return `Invalid stop bits: ${settings.stopBits}`;
+  }
+  if (!FLOW_CONTROLS.includes(settings.flowControl)) {
+    return `Invalid flow control: ${settings.flowControl}`;
+  }
+  return null;
+}
+
+// e.g. `115200 8N1`
+export function formatSerialSettings(settings: SerialSettings): string {
+  const parity = settings.parity[0].toUpperCase();
+  const flow = settings.flowControl === "hardware" ? " RTS/CTS" : "";
+  return `${settings.baudRate} ${settings.dataBits}${parity}${settings.stopBits}${flow}`;
+}
+
+export function portIdentity(port: SerialPort): PortIdentity {
+  const { usbVendorId, usbProductId } = port.getInfo();
+  return { usbVendorId, usbProductId };
+}
+
+const hex4 = (value: number | undefined) => (value === undefined ? "????" : hex(value, 4));
+
+export function portLabel(identity: PortIdentity): string {
+  if (identity.usbVendorId === undefined) {
+    return "Serial port";
+  }
+  return `USB ${hex4(identity.usbVendorId)}:${hex4(identity.usbProductId)}`;
+}
+
+export const samePort = (a: PortIdentity, b: PortIdentity) =>
+  a.usbVendorId === b.usbVendorId && a.usbProductId === b.usbProductId;
+
+// A port the user has already granted that matches, so no picker is needed.
+// Ports without USB IDs cannot be told apart and never match.
+export function findGrantedPort(ports: SerialPort[], identity: PortIdentity): SerialPort | undefined {
+  if (identity.usbVendorId === undefined) return undefined;
+  return ports.find((port) => samePort(portIdentity(port), identity));
+}
@@ -0,0 +1,43 @@
+import { strFromU8, strToU8, unzlibSync, zlibSync } from "fflate";
+import {
+  ProjectFormatError,
+  decodeBase64,
+  encodeBase64,
+  projectFromJson,
+  projectToJson,
+  type Project,
+} from "./project-bundle";
+
+// Share links carry the whole project in the URL fragment, so opening one
+// needs no server: the JSON bundle, compressed, in URL-safe base64.
+//   https://example.org/playground/#project=eJy...
+
+const HASH_PREFIX = "#project=";
+
+// Browsers and chat apps start to truncate URLs around this length
+export const SHARE_LINK_WARNING_LENGTH = 8000;
+
+export function encodeProject(project: Project): string {
+  const compressed = zlibSync(strToU8(projectToJson(project)), { level: 9 });
+  return encodeBase64(compressed).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeProject(text: string): Project {
+  let json: string;
+  try {
+    json = strFromU8(unzlibSync(decodeBase64(text.replace(/-/g, "+").replace(/_/g, "/"))));
+  } catch {
+    throw new ProjectFormatError("The link is incomplete or damaged");
+  }
+  return projectFromJson(json);
+}
+
+// The page's address with the project as its fragment
+export function shareUrl(project: Project, location: { origin: string; pathname: string; search: string }) {
+  return `${location.origin}${location.pathname}${location.search}${HASH_PREFIX}${encodeProject(project)}`;
+}
+
+// The project of a share link's fragment, or null for any other fragment
+export function projectFromHash(hash: string): Project | null {
+  return hash.startsWith(HASH_PREFIX) ? decodeProject(hash.slice(HASH_PREFIX.length)) : null;
+}
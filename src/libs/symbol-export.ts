@@ -0,0 +1,264 @@
+import type { AssemblyResult } from "./asm6502.js";
+import { hex } from "./debug-protocol";
+import { indexSymbols } from "./symbols";
+
+// Symbol tables and line info for external emulators and debuggers. Each
+// exporter turns an assembly into the text of one file; they are listed
+// in SYMBOL_EXPORTERS, which is what the export panel offers.
+
+export type SymbolSource = Pick<
+  AssemblyResult,
+  "labels" | "localLabels" | "symbols" | "sourceMap" | "segments" | "blocks"
+>;
+
+export interface SymbolExportOptions {
+  // Name of the program, for formats that refer to the binary
+  programName?: string;
+  // Mesen: where the ROM starts; labels below it are RAM
+  romBase?: number;
+  // The project's source files, for formats that give where symbols are
+  // defined
+  sources?: Record<string, string>;
+}
+
+export interface SymbolExporter {
+  label: string;
+  extension: string;
+  export(source: SymbolSource, options: SymbolExportOptions): string;
+}
+
+export const DEFAULT_ROM_BASE = 0x8000;
+
+interface ExportedSymbol {
+  name: string;
+  value: number;
+  kind: "label" | "local" | "symbol";
+  // The global label a local label belongs to
+  scope?: string;
+}
+
+// Global labels, local labels and `name = value` symbols, by value
+function collectSymbols(source: SymbolSource): ExportedSymbol[] {
+  const symbols: ExportedSymbol[] = [];
+  for (const [name, value] of Object.entries(source.labels)) {
+    if (!name.startsWith("@")) {
+      symbols.push({ name, value, kind: "label" });
+    }
+  }
+  for (const [scope, labels] of Object.entries(source.localLabels)) {
+    for (const [name, value] of Object.entries(labels)) {
+      symbols.push({ name, value, kind: "local", scope: scope === "null" ? undefined : scope });
+    }
+  }
+  for (const [name, value] of Object.entries(source.symbols)) {
+    symbols.push({ name, value, kind: "symbol" });
+  }
+  // A label before the local labels at the same address
+  const order = { label: 0, local: 1, symbol: 2 };
+  return symbols.sort(
+    (a, b) => a.value - b.value || order[a.kind] - order[b.kind] || a.name.localeCompare(b.name),
+  );
+}
+
+// `@loop` after `main` as `main_loop`, for formats without local labels
+const flatName = (symbol: ExportedSymbol) =>
+  symbol.kind === "local" ? `${symbol.scope ?? ""}_${symbol.name.slice(1)}` : symbol.name;
+
+const isAddress = (symbol: ExportedSymbol) => symbol.value >= 0 && symbol.value <= 0xffff;
+
+// --- VICE ---
+
+// Monitor commands, loaded with `ll "program.lbl"` or -moncommands:
+//   al C:8000 .reset
+function viceLabels(source: SymbolSource): string {
+  return collectSymbols(source)
+    .filter(isAddress)
+    .map((symbol) => `al C:${hex(symbol.value, 4)} .${flatName(symbol)}\n`)
+    .join("");
+}
+
+// --- Mesen ---
+
+// Mesen's label files are for the NES, so the board's ROM is presented as
+// PRG ROM from `romBase` and everything below it as internal RAM
+function mesenLabels(source: SymbolSource, options: SymbolExportOptions): string {
+  const romBase = options.romBase ?? DEFAULT_ROM_BASE;
+  return collectSymbols(source)
+    .filter((symbol) => symbol.kind !== "symbol" && isAddress(symbol))
+    .map((symbol) =>
+      symbol.value >= romBase
+        ? `NesPrgRom:${hex(symbol.value - romBase, 4)}:${flatName(symbol)}\n`
+        : `NesInternalRam:${hex(symbol.value, 4)}:${flatName(symbol)}\n`,
+    )
+    .join("");
+}
+
+// --- Plain ---
+
+// One symbol per line, by address:
+//   8000 reset
+function plainSymbols(source: SymbolSource): string {
+  return collectSymbols(source)
+    .map((symbol) => `${hex(symbol.value & 0xffff, 4)} ${flatName(symbol)}\n`)
+    .join("");
+}
+
+// Everything, for scripts of one's own
+function jsonSymbols(source: SymbolSource): string {
+  return JSON.stringify(
+    {
+      labels: Object.fromEntries(
+        Object.entries(source.labels).filter(([name]) => !name.startsWith("@")),
+      ),
+      localLabels: source.localLabels,
+      symbols: source.symbols,
+      segments: source.segments,
+      lines: source.sourceMap
+        .filter((entry) => entry.bytes.length > 0)
+        .map((entry) => ({
+          file: entry.file,
+          line: entry.line,
+          address: entry.address,
+          size: entry.bytes.length,
+        })),
+    },
+    null,
+    2,
+  );
+}
+
+// --- ca65 ---
+
+// The debug info of `ld65 --dbgfile`, version 2.0, which Mesen and other
+// tools read for source-level debugging. Code placed with .org gets a
+// segment of its own per block. Symbols need the line that defines them,
+// so those found in no source are left out.
+function ca65DebugInfo(source: SymbolSource, options: SymbolExportOptions): string {
+  const programName = options.programName ?? "program";
+  const records: string[] = [];
+  const add = (type: string, fields: Record<string, string | number>) =>
+    records.push(
+      `${type}\t` +
+        Object.entries(fields)
+          .map(([key, value]) => `${key}=${value}`)
+          .join(","),
+    );
+  const quote = (text: string) => `"${text.replace(/"/g, '\\"')}"`;
+  const hexValue = (value: number) => `0x${hex(value, 4)}`;
+  const addrsize = (value: number) => (value < 0x100 ? "zeropage" : "absolute");
+
+  const segments = source.segments
+    .filter((segment) => segment.size > 0)
+    .map((segment) => ({ name: segment.name, start: segment.start, size: segment.size }));
+  for (const block of source.blocks) {
+    const inSegment = segments.some(
+      (segment) => block.address >= segment.start && block.address < segment.start + segment.size,
+    );
+    if (!inSegment) {
+      segments.push({ name: `ORG_${hex(block.address, 4)}`, start: block.address, size: block.bytes.length });
+    }
+  }
+  const segmentAt = (address: number) =>
+    segments.findIndex((segment) => address >= segment.start && address < segment.start + segment.size);
+
+  const files = [...new Set(source.sourceMap.map((entry) => entry.file))];
+  const spans = source.sourceMap.filter((entry) => entry.bytes.length > 0 && segmentAt(entry.address) >= 0);
+
+  // Lines with code have a span; lines that only define a symbol do not
+  const lines = spans.map((entry, span) => ({ file: files.indexOf(entry.file), line: entry.line, span }));
+  const lineIds = new Map(lines.map((line, id) => [`${line.file}:${line.line}`, id]));
+  const lineOf = (file: string, line: number) => {
+    const key = `${files.indexOf(file)}:${line}`;
+    if (!lineIds.has(key)) {
+      lineIds.set(key, lines.length);
+      lines.push({ file: files.indexOf(file), line, span: -1 });
+    }
+    return lineIds.get(key)!;
+  };
+
+  // Local labels by the label they follow, as collectSymbols has them
+  const definitionKey = (name: string, scope: string | null | undefined, local: boolean) =>
+    local ? `${scope ?? null}/${name}` : name;
+  const definitions = new Map<string, { file: string; line: number }>();
+  for (const [file, code] of Object.entries(options.sources ?? {})) {
+    if (!files.includes(file)) continue;
+    for (const occurrence of indexSymbols(file, code)) {
+      const key = definitionKey(occurrence.name, occurrence.scope, occurrence.definition === "local");
+      if (occurrence.definition && !definitions.has(key)) {
+        definitions.set(key, occurrence);
+      }
+    }
+  }
+  const symbols = collectSymbols(source).flatMap((symbol) => {
+    const definition = definitions.get(definitionKey(symbol.name, symbol.scope, symbol.kind === "local"));
+    return definition ? [{ ...symbol, def: lineOf(definition.file, definition.line) }] : [];
+  });
+
+  add("version", { major: 2, minor: 0 });
+  add("info", {
+    csym: 0,
+    file: files.length,
+    lib: 0,
+    line: lines.length,
+    mod: 1,
+    scope: 1,
+    seg: segments.length,
+    span: spans.length,
+    sym: symbols.length,
+    type: 0,
+  });
+  files.forEach((name, id) => add("file", { id, name: quote(name), size: 0, mtime: "0x00000000", mod: 0 }));
+  lines.forEach(({ file, line, span }, id) =>
+    add("line", span >= 0 ? { id, file, line, span } : { id, file, line }),
+  );
+  add("mod", { id: 0, name: quote(programName + ".o"), file: 0 });
+  add("scope", { id: 0, name: '""', mod: 0 });
+  segments.forEach((segment, id) =>
+    add("seg", {
+      id,
+      name: quote(segment.name),
+      start: `0x${hex(segment.start, 6)}`,
+      size: hexValue(segment.size),
+      addrsize: addrsize(segment.start),
+      type: "rw",
+    }),
+  );
+  spans.forEach((entry, id) => {
+    const seg = segmentAt(entry.address);
+    add("span", { id, seg, start: entry.address - segments[seg].start, size: entry.bytes.length });
+  });
+
+  // Local labels are ca65's cheap locals, which name their label as
+  // `parent` instead of a scope
+  const ids = new Map(
+    symbols.flatMap((symbol, id) => (symbol.kind === "label" ? [[symbol.name, id] as const] : [])),
+  );
+  symbols.forEach((symbol, id) => {
+    const parent = symbol.kind === "local" && symbol.scope !== undefined ? ids.get(symbol.scope) : undefined;
+    const fields: Record<string, string | number> = {
+      id,
+      name: quote(symbol.name),
+      addrsize: addrsize(symbol.value),
+      ...(parent !== undefined ? { parent } : { scope: 0 }),
+      def: symbol.def,
+      val: hexValue(symbol.value),
+    };
+    const seg = symbol.kind === "symbol" ? -1 : segmentAt(symbol.value);
+    if (seg >= 0) {
+      fields.seg = seg;
+    }
+    fields.type = symbol.kind === "symbol" ? "equ" : "lab";
+    add("sym", fields);
+  });
+  return records.join("\n") + "\n";
+}
+
+export type SymbolFormat = "vice" | "dbg" | "sym" | "json" | "mesen";
+
+export const SYMBOL_EXPORTERS: Record<SymbolFormat, SymbolExporter> = {
+  vice: { label: "VICE monitor labels", extension: ".lbl", export: viceLabels },
+  dbg: { label: "ca65 debug info", extension: ".dbg", export: ca65DebugInfo },
+  sym: { label: "Plain symbol list", extension: ".sym", export: plainSymbols },
+  json: { label: "JSON symbols and lines", extension: ".json", export: jsonSymbols },
+  mesen: { label: "Mesen labels", extension: ".mlb", export: mesenLabels },
+};
@@ -0,0 +1,209 @@
+import { parse, type SourceLocation } from "./parser.js";
+import { CPU_TYPES, opcodeTable, type CpuType } from "./opcodes.js";
+import type { AssemblyResult } from "./asm6502.js";
+
+// Where labels and symbols are defined and used, from the real parser.
+// Each line is parsed on its own, so a syntax error only hides the
+// symbols of that line. Lines and columns are 1-based and `endColumn` is
+// exclusive, as in Monaco.
+
+export type SymbolKind = "label" | "local" | "symbol";
+
+export interface SymbolOccurrence {
+  name: string;
+  file: string;
+  line: number;
+  startColumn: number;
+  endColumn: number;
+  // The global label a local `@` label belongs to, null before the first
+  scope: string | null;
+  // Set where the name is defined rather than used
+  definition?: SymbolKind;
+}
+
+// Strings, comments, numbers and directive names are skipped; the last
+// alternative is a name
+const TOKEN = /"[^"\n]*"|'[^'\n]'|;.*|[$%][0-9A-Za-z]+|\.[A-Za-z_]\w*|[@A-Za-z0-9_]+/g;
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const MNEMONICS = new Set(
+  (Object.keys(CPU_TYPES) as CpuType[]).flatMap((cpu) =>
+    opcodeTable(cpu).map((row) => row[0].toLowerCase()),
+  ),
+);
+
+// Names an operand or directive argument refers to
+function collectNames(value: unknown, names: Set<string>) {
+  if (typeof value === "string") {
+    names.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectNames(item, names));
+  } else if (typeof value === "object" && value !== null && "expression" in value) {
+    const { left, right, operand } = (value as { expression: Record<string, unknown> }).expression;
+    [left, right, operand].forEach((item) => collectNames(item, names));
+  }
+}
+
+// The fields of a parser node (see parser.pegjs) that symbols appear in
+interface StatementNode {
+  loc: SourceLocation;
+  label?: unknown;
+  instruction?: { mode?: string; arg?: unknown };
+  macro?: unknown;
+  directive?: string;
+  args?: unknown;
+  expression?: { operator?: string; left?: unknown; right?: unknown };
+}
+
+const isStatement = (node: unknown): node is StatementNode =>
+  typeof node === "object" && node !== null && "loc" in node && Boolean(node.loc);
+
+// The part of a statement that refers to symbols, and what it refers to
+function referenceSpan(node: StatementNode): { skipFirstToken: boolean; names: Set<string> } | null {
+  const names = new Set<string>();
+  if (node.instruction) {
+    const { mode, arg } = node.instruction;
+    // An indexed operand is [expression, "x"]
+    collectNames(Array.isArray(arg) && mode !== "zeropageRelative" ? arg[0] : arg, names);
+    return { skipFirstToken: true, names };
+  }
+  if (node.macro) {
+    collectNames(node.args, names);
+    return { skipFirstToken: true, names };
+  }
+  if (node.directive && node.directive !== ".macro") {
+    collectNames(node.args, names);
+    return { skipFirstToken: false, names };
+  }
+  if (node.expression?.operator === "=") {
+    collectNames(node.expression.right, names);
+    return { skipFirstToken: false, names };
+  }
+  return null;
+}
+
+export function indexSymbols(file: string, code: string): SymbolOccurrence[] {
+  const occurrences: SymbolOccurrence[] = [];
+  let scope: string | null = null;
+  code.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    let nodes: unknown[];
+    try {
+      nodes = parse(text).flat();
+    } catch {
+      return;
+    }
+    for (const node of nodes) {
+      if (!isStatement(node)) continue;
+      const start = node.loc.start.column;
+      const at = (name: string, column: number) => ({
+        name,
+        file,
+        line,
+        startColumn: column,
+        endColumn: column + name.length,
+        scope,
+      });
+
+      if (typeof node.label === "string") {
+        const local = node.label.startsWith("@");
+        if (!local) {
+          scope = node.label;
+        }
+        occurrences.push({ ...at(node.label, start), definition: local ? "local" : "label" });
+        continue;
+      }
+      if (node.expression?.operator === "=" && typeof node.expression.left === "string") {
+        occurrences.push({ ...at(node.expression.left, start), definition: "symbol" });
+      }
+
+      const span = referenceSpan(node);
+      if (!span || span.names.size === 0) continue;
+      // A definition's own name is not a use of it
+      let from = start - 1;
+      if (node.expression?.operator === "=") {
+        from = text.indexOf("=", from) + 1;
+      }
+      const source = text.slice(from, node.loc.end.column - 1);
+      let first = true;
+      for (const match of source.matchAll(TOKEN)) {
+        const token = match[0];
+        const isName = /^[@A-Za-z0-9_]/.test(token);
+        if (isName && !(first && span.skipFirstToken) && span.names.has(token)) {
+          occurrences.push(at(token, from + match.index! + 1));
+        }
+        first = false;
+      }
+    }
+  });
+  return occurrences;
+}
+
+// Local labels are only the same symbol within one file and scope
+const sameSymbol = (a: SymbolOccurrence, b: SymbolOccurrence) =>
+  a.name === b.name &&
+  (!a.name.startsWith("@") || (a.file === b.file && a.scope === b.scope));
+
+export function occurrenceAt(
+  occurrences: SymbolOccurrence[],
+  line: number,
+  column: number,
+): SymbolOccurrence | undefined {
+  return occurrences.find(
+    (occurrence) =>
+      occurrence.line === line && column >= occurrence.startColumn && column <= occurrence.endColumn,
+  );
+}
+
+// Every definition and use of the symbol, across all indexed files
+export function findReferences(
+  index: SymbolOccurrence[],
+  symbol: SymbolOccurrence,
+): SymbolOccurrence[] {
+  return index.filter((occurrence) => sameSymbol(occurrence, symbol));
+}
+
+export function findDefinitions(
+  index: SymbolOccurrence[],
+  symbol: SymbolOccurrence,
+): SymbolOccurrence[] {
+  return findReferences(index, symbol).filter((occurrence) => occurrence.definition);
+}
+
+// Why `newName` cannot replace the symbol, or null if it can
+export function renameError(
+  index: SymbolOccurrence[],
+  symbol: SymbolOccurrence,
+  newName: string,
+): string | null {
+  const local = symbol.name.startsWith("@");
+  if (local !== newName.startsWith("@")) {
+    return local ? "Local labels must start with @" : "Only local labels start with @";
+  }
+  if (!NAME.test(local ? newName.slice(1) : newName)) {
+    return `${newName} is not a valid name`;
+  }
+  if (MNEMONICS.has(newName.toLowerCase()) || /^[axy]$/i.test(newName)) {
+    return `${newName} is reserved`;
+  }
+  const renamed = { ...symbol, name: newName };
+  if (index.some((occurrence) => occurrence.definition && sameSymbol(occurrence, renamed))) {
+    return `${newName} is already defined`;
+  }
+  return null;
+}
+
+// The value of a symbol in an assembly: the address of a label's line,
+// or the value of a `name = value` symbol
+export function symbolValue(
+  assembly: Pick<AssemblyResult, "labels" | "symbols" | "sourceMap">,
+  definition: SymbolOccurrence,
+): number | undefined {
+  if (definition.definition === "symbol") {
+    return assembly.symbols[definition.name];
+  }
+  const entry = assembly.sourceMap.find(
+    (candidate) => candidate.file === definition.file && candidate.line === definition.line,
+  );
+  return entry?.address ?? assembly.labels[definition.name];
+}
@@ -0,0 +1,117 @@
+import { hex } from "./debug-protocol";
+
+// Session logging and the hex view of the serial terminal.
+
+export type Direction = "rx" | "tx";
+
+interface LogLine {
+  // When the first character of the line arrived
+  time: Date;
+  direction: Direction;
+  text: string;
+}
+
+// Oldest lines are dropped beyond this
+export const MAX_LOG_LINES = 50_000;
+
+// Text in both directions, split into lines with the time each started
+export class SessionLog {
+  private lines: LogLine[] = [];
+  private readonly pending: Record<Direction, LogLine | null> = { rx: null, tx: null };
+  // The last character was a CR, so a LF right after it ends no extra line
+  private readonly afterCr: Record<Direction, boolean> = { rx: false, tx: false };
+  private readonly decoders: Record<Direction, TextDecoder> = {
+    rx: new TextDecoder(),
+    tx: new TextDecoder(),
+  };
+
+  get length(): number {
+    return this.lines.length;
+  }
+
+  append(direction: Direction, data: string | Uint8Array, time = new Date()) {
+    const text = typeof data === "string" ? data : this.decoders[direction].decode(data, { stream: true });
+    // Lines end with CR, LF or both; the Enter key sends a CR alone
+    for (const char of text) {
+      if (char === "\r" || (char === "\n" && !this.afterCr[direction])) {
+        this.finish(direction, time);
+      } else if (char !== "\n") {
+        const line = (this.pending[direction] ??= { time, direction, text: "" });
+        line.text += char;
+      }
+      this.afterCr[direction] = char === "\r";
+    }
+  }
+
+  clear() {
+    this.lines = [];
+    this.pending.rx = null;
+    this.pending.tx = null;
+    this.afterCr.rx = false;
+    this.afterCr.tx = false;
+  }
+
+  // One line per log line, e.g. `2024-05-01 14:03:07.215 RX READY>`.
+  // Unfinished lines are included.
+  toText(): string {
+    const pending = [this.pending.rx, this.pending.tx].filter((line) => line !== null);
+    return [...this.lines, ...pending]
+      .sort((a, b) => a.time.getTime() - b.time.getTime())
+      .map((line) => `${formatTime(line.time)} ${line.direction.toUpperCase()} ${line.text}\n`)
+      .join("");
+  }
+
+  private finish(direction: Direction, time: Date) {
+    this.lines.push(this.pending[direction] ?? { time, direction, text: "" });
+    this.pending[direction] = null;
+    if (this.lines.length > MAX_LOG_LINES) {
+      this.lines.splice(0, this.lines.length - MAX_LOG_LINES);
+    }
+  }
+}
+
+const pad = (value: number, digits = 2) => String(value).padStart(digits, "0");
+
+// Local time, as people compare it with their clock
+export function formatTime(time: Date): string {
+  return (
+    `${time.getFullYear()}-${pad(time.getMonth() + 1)}-${pad(time.getDate())} ` +
+    `${pad(time.getHours())}:${pad(time.getMinutes())}:${pad(time.getSeconds())}.` +
+    pad(time.getMilliseconds(), 3)
+  );
+}
+
+const HEX_LINE_WIDTH = 16;
+
+// Turns received bytes into hex dump lines for the terminal as they arrive:
+//   48 65 6C 6C 6F 0D 0A                               |Hello..|
+// The printable column is written when a line is complete.
+export class HexStream {
+  private column = 0;
+  private ascii = "";
+
+  push(data: Uint8Array): string {
+    let out = "";
+    for (const byte of data) {
+      out += hex(byte, 2) + " ";
+      this.ascii += byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".";
+      if (++this.column === HEX_LINE_WIDTH) {
+        out += this.endLine();
+      }
+    }
+    return out;
+  }
+
+  // Completes a partial line, e.g. before leaving hex mode
+  flush(): string {
+    if (this.column === 0) return "";
+    return "   ".repeat(HEX_LINE_WIDTH - this.column) + this.endLine();
+  }
+
+  private endLine() {
+    const line = ` |${this.ascii}|\r\n`;
+    this.column = 0;
+    this.ascii = "";
+    return line;
+  }
+}
@@ -0,0 +1,161 @@
+import { disassemble } from "./disassembler";
+import { hex } from "./debug-protocol";
+
+// The emulator's record of executed instructions, kept in a ring buffer so
+// the last ones can be inspected, exported or undone.
+
+export interface MemoryWrite {
+  address: number;
+  // What the address held before, for stepping back
+  previous: number;
+  value: number;
+}
+
+// The CPU as it was before the instruction ran
+export interface TraceEntry {
+  pc: number;
+  opcode: number;
+  operands: number[];
+  a: number;
+  x: number;
+  y: number;
+  sp: number;
+  p: number;
+  cycles: number;
+  // Set when the step serviced an interrupt instead of the instruction at PC
+  interrupt?: "nmi" | "irq";
+  writes: MemoryWrite[];
+}
+
+export const DEFAULT_TRACE_CAPACITY = 10_000;
+
+export class TraceBuffer {
+  private entries: (TraceEntry | undefined)[];
+  // Index of the oldest entry
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly capacity = DEFAULT_TRACE_CAPACITY) {
+    this.entries = new Array(capacity);
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  // Drops the oldest entry when full
+  push(entry: TraceEntry) {
+    this.entries[(this.start + this.count) % this.capacity] = entry;
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  // Removes and returns the newest entry
+  pop(): TraceEntry | undefined {
+    if (this.count === 0) return undefined;
+    this.count--;
+    const index = (this.start + this.count) % this.capacity;
+    const entry = this.entries[index];
+    this.entries[index] = undefined;
+    return entry;
+  }
+
+  // Oldest first
+  toArray(): TraceEntry[] {
+    return Array.from({ length: this.count }, (_, i) => this.entries[(this.start + i) % this.capacity]!);
+  }
+
+  clear() {
+    this.entries = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+}
+
+// --- Filtering ---
+
+// An address range as `8000-80FF` or `8000`, or a label, which covers the
+// addresses up to the next label
+export function traceRange(
+  text: string,
+  labels: Record<string, number>,
+): { range?: { start: number; end: number }; error?: string } {
+  const value = text.trim();
+  const match = /^\$?([0-9A-Fa-f]{1,4})(?:\s*-\s*\$?([0-9A-Fa-f]{1,4}))?$/.exec(value);
+  if (match) {
+    const start = parseInt(match[1], 16);
+    const end = match[2] === undefined ? start : parseInt(match[2], 16);
+    return end < start ? { error: "The range ends before it starts" } : { range: { start, end } };
+  }
+  if (value in labels) {
+    const start = labels[value];
+    const next = Object.values(labels)
+      .filter((address) => address > start)
+      .sort((a, b) => a - b)[0];
+    return { range: { start, end: next === undefined ? 0xffff : next - 1 } };
+  }
+  return { error: `Not an address range or label: ${value}` };
+}
+
+// --- Formatting ---
+
+const INTERRUPT_NAMES = { nmi: "NMI", irq: "IRQ" };
+
+// Mnemonic and operand, with the mnemonic in capitals as other tools print it
+function instructionText(entry: TraceEntry, labels?: Record<string, number>) {
+  if (entry.interrupt) {
+    return INTERRUPT_NAMES[entry.interrupt];
+  }
+  const bytes = [entry.opcode, ...entry.operands];
+  const [line] = disassemble(bytes, { origin: entry.pc, labels, autoLabels: false }).lines;
+  return line.text.replace(/^\w+/, (mnemonic) => mnemonic.toUpperCase());
+}
+
+const formatWrites = (writes: MemoryWrite[]) =>
+  writes.map((write) => `${hex(write.address, 4)}=${hex(write.value, 2)}`).join(" ");
+
+// One line in the layout of the widely used nestest logs:
+//   8005  E8        INX            A:48 X:00 Y:00 P:24 SP:FD CYC:19
+// With `writes`, the memory written is added at the end.
+export function formatTraceLine(
+  entry: TraceEntry,
+  options: { labels?: Record<string, number>; writes?: boolean } = {},
+): string {
+  const bytes = entry.interrupt ? "--" : [entry.opcode, ...entry.operands].map((b) => hex(b, 2)).join(" ");
+  const line =
+    `${hex(entry.pc, 4)}  ${bytes.padEnd(8)}  ${instructionText(entry, options.labels).padEnd(14)} ` +
+    `A:${hex(entry.a, 2)} X:${hex(entry.x, 2)} Y:${hex(entry.y, 2)} P:${hex(entry.p, 2)} ` +
+    `SP:${hex(entry.sp, 2)} CYC:${entry.cycles}`;
+  return options.writes && entry.writes.length > 0 ? `${line}  ${formatWrites(entry.writes)}` : line;
+}
+
+export function traceToText(entries: TraceEntry[]): string {
+  return entries.map((entry) => formatTraceLine(entry) + "\n").join("");
+}
+
+const CSV_HEADER = "cycles,pc,opcode,operands,instruction,a,x,y,sp,p,writes";
+
+export function traceToCsv(entries: TraceEntry[]): string {
+  const rows = entries.map((entry) =>
+    [
+      entry.cycles,
+      hex(entry.pc, 4),
+      entry.interrupt ? "" : hex(entry.opcode, 2),
+      entry.interrupt ? "" : entry.operands.map((b) => hex(b, 2)).join(" "),
+      instructionText(entry),
+      hex(entry.a, 2),
+      hex(entry.x, 2),
+      hex(entry.y, 2),
+      hex(entry.sp, 2),
+      hex(entry.p, 2),
+      formatWrites(entry.writes),
+    ]
+      // Only the instruction can hold a comma, e.g. `LDA $10,X`
+      .map((field) => (String(field).includes(",") ? `"${field}"` : field))
+      .join(","),
+  );
+  return [CSV_HEADER, ...rows].join("\n") + "\n";
+}
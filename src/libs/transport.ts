@@ -0,0 +1,156 @@
+import {
+  DEFAULT_SERIAL_SETTINGS,
+  formatSerialSettings,
+  portIdentity,
+  portLabel,
+  type SerialSettings,
+} from "./serial-settings";
+
+// A byte-stream connection to a debug target: either a board on a real
+// serial port or the simulated device in `virtual-device.ts`.
+
+export type DataListener = (data: Uint8Array) => void;
+export type CloseListener = (error: unknown) => void;
+
+export interface Transport {
+  // Human-readable description shown in the status bar
+  readonly label: string;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  send(data: string | Uint8Array): Promise<void>;
+  // Both return a function that removes the listener again
+  onData(listener: DataListener): () => void;
+  // Fired when the connection ends without `close()`, e.g. on a read error
+  onClose(listener: CloseListener): () => void;
+}
+
+const encoder = new TextEncoder();
+
+export const toBytes = (data: string | Uint8Array) =>
+  typeof data === "string" ? encoder.encode(data) : data;
+
+// Listener bookkeeping shared by the transport implementations, for
+// listeners taking the arguments `A`
+export class Listeners<A extends unknown[]> {
+  private listeners = new Set<(...args: A) => void>();
+
+  add(listener: (...args: A) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  emit(...args: A) {
+    for (const listener of [...this.listeners]) {
+      listener(...args);
+    }
+  }
+}
+
+export class SerialTransport implements Transport {
+  readonly label: string;
+
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+  private keepReading = false;
+  // Set when the adapter was unplugged; the port cannot be closed then
+  private unplugged = false;
+  private readonly dataListeners = new Listeners<Parameters<DataListener>>();
+  private readonly closeListeners = new Listeners<Parameters<CloseListener>>();
+
+  constructor(
+    readonly port: SerialPort,
+    private readonly settings: SerialSettings = DEFAULT_SERIAL_SETTINGS,
+  ) {
+    this.label = `${portLabel(portIdentity(port))} at ${formatSerialSettings(settings)}`;
+  }
+
+  async open() {
+    await this.port.open(this.settings);
+    this.port.addEventListener("disconnect", this.handleDisconnect);
+    if (!this.port.readable || !this.port.writable) {
+      throw new Error("Port is not readable or writable");
+    }
+    this.writer = this.port.writable.getWriter();
+    this.reader = this.port.readable.getReader();
+    this.keepReading = true;
+    this.readLoop();
+  }
+
+  async close() {
+    this.keepReading = false;
+    this.port.removeEventListener("disconnect", this.handleDisconnect);
+
+    if (this.reader) {
+      try {
+        await this.reader.cancel();
+      } catch (error) {
+        if (!(error instanceof DOMException && error.name === "AbortError")) {
+          console.warn("Error cancelling reader:", error);
+        }
+      } finally {
+        this.reader = null;
+      }
+    }
+
+    if (this.writer) {
+      await this.writer.close().catch((e) => console.warn("Error closing writer:", e));
+      this.writer = null;
+    }
+
+    if (!this.unplugged) {
+      await this.port.close();
+    }
+  }
+
+  async send(data: string | Uint8Array) {
+    if (!this.writer) {
+      throw new Error("Port is not open");
+    }
+    await this.writer.write(toBytes(data));
+  }
+
+  onData(listener: DataListener) {
+    return this.dataListeners.add(listener);
+  }
+
+  onClose(listener: CloseListener) {
+    return this.closeListeners.add(listener);
+  }
+
+  private readonly handleDisconnect = () => {
+    this.unplugged = true;
+    if (this.keepReading) {
+      this.keepReading = false;
+      this.closeListeners.emit(new Error("The device was unplugged"));
+    }
+  };
+
+  private async readLoop() {
+    while (this.reader && this.keepReading) {
+      try {
+        const { value, done } = await this.reader.read();
+        if (done) {
+          if (this.keepReading) {
+            this.keepReading = false;
+            this.closeListeners.emit(null);
+          }
+          break;
+        }
+        if (value) {
+          this.dataListeners.emit(value);
+        }
+      } catch (error) {
+        if (this.keepReading) {
+          this.keepReading = false;
+          this.closeListeners.emit(error);
+        }
+        break;
+      }
+    }
+
+    try {
+      this.reader?.releaseLock();
+    } catch (e) {}
+    this.reader = null;
+  }
+}
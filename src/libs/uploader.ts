@@ -0,0 +1,249 @@
+import type { MemoryBlock } from "./asm6502.js";
+import {
+  ERROR_REPLY_PREFIX,
+  LineSplitter,
+  OK_REPLY,
+  encodeCommand,
+  hex,
+  parseMemoryLine,
+} from "./debug-protocol";
+import type { Transport } from "./transport";
+
+// Uploads a program in small deposit commands so the board's line buffer
+// is never overrun. Each command waits for the device's reply, and each
+// block is read back and compared before moving on.
+
+export interface UploadOptions {
+  // Bytes per deposit command
+  blockSize?: number;
+  // Extra attempts for a block that fails or reads back wrong
+  retries?: number;
+  // How long to wait for each reply line
+  timeoutMs?: number;
+  verify?: boolean;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface UploadProgress {
+  sentBytes: number;
+  totalBytes: number;
+  block: number;
+  blockCount: number;
+}
+
+export interface FailedBlock {
+  address: number;
+  length: number;
+  reason: string;
+}
+
+export interface UploadReport {
+  totalBytes: number;
+  blockCount: number;
+  verified: boolean;
+  retries: number;
+  // Blocks that still failed after every retry
+  failed: FailedBlock[];
+  durationMs: number;
+}
+
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+// A device that stops answering will not answer a retry either
+class ReplyTimeoutError extends UploadError {}
+
+export const DEFAULT_BLOCK_SIZE = 32;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 2000;
+
+// Reply lines received since the last command was sent
+class ReplyQueue {
+  private lines: string[] = [];
+  private wake: (() => void) | null = null;
+  private readonly splitter = new LineSplitter();
+  private readonly unsubscribe: () => void;
+
+  constructor(transport: Transport) {
+    this.unsubscribe = transport.onData((data) => {
+      this.lines.push(...this.splitter.push(data));
+      this.wake?.();
+    });
+  }
+
+  clear() {
+    this.lines = [];
+  }
+
+  async next(timeoutMs: number, signal?: AbortSignal): Promise<string> {
+    while (this.lines.length === 0) {
+      if (signal?.aborted) {
+        throw new UploadError("Upload cancelled");
+      }
+      const arrived = await new Promise<boolean>((resolve) => {
+        const timer = setTimeout(() => {
+          signal?.removeEventListener("abort", done);
+          resolve(false);
+        }, timeoutMs);
+        const done = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", done);
+          resolve(true);
+        };
+        this.wake = done;
+        signal?.addEventListener("abort", done);
+      });
+      this.wake = null;
+      if (!arrived) {
+        throw new ReplyTimeoutError("The device did not reply in time");
+      }
+    }
+    return this.lines.shift()!;
+  }
+
+  close() {
+    this.unsubscribe();
+  }
+}
+
+// Splits the program into chunks of at most `blockSize` bytes
+export function splitBlocks(blocks: MemoryBlock[], blockSize: number) {
+  const chunks: { address: number; bytes: number[] }[] = [];
+  for (const block of blocks) {
+    for (let offset = 0; offset < block.bytes.length; offset += blockSize) {
+      chunks.push({
+        address: (block.address + offset) & 0xffff,
+        bytes: block.bytes.slice(offset, offset + blockSize).map((byte) => byte ?? 0),
+      });
+    }
+  }
+  return chunks;
+}
+
+export async function uploadProgram(
+  transport: Transport,
+  blocks: MemoryBlock[],
+  options: UploadOptions = {},
+): Promise<UploadReport> {
+  const {
+    blockSize = DEFAULT_BLOCK_SIZE,
+    retries = DEFAULT_RETRIES,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    verify = true,
+    onProgress,
+    signal,
+  } = options;
+  const chunks = splitBlocks(blocks, blockSize);
+  const totalBytes = chunks.reduce((sum, chunk) => sum + chunk.bytes.length, 0);
+  const report: UploadReport = {
+    totalBytes,
+    blockCount: chunks.length,
+    verified: verify,
+    retries: 0,
+    failed: [],
+    durationMs: 0,
+  };
+  const started = performance.now();
+  const replies = new ReplyQueue(transport);
+
+  // Waits for the OK that ends a command, collecting any memory lines
+  const finishCommand = async () => {
+    const memory: number[] = [];
+    for (;;) {
+      const line = (await replies.next(timeoutMs, signal)).trim();
+      if (line === OK_REPLY) {
+        return memory;
+      }
+      if (line.startsWith(ERROR_REPLY_PREFIX)) {
+        throw new UploadError(`Device error: ${line.slice(ERROR_REPLY_PREFIX.length)}`);
+      }
+      const memoryLine = parseMemoryLine(line);
+      if (memoryLine) {
+        memory.push(...memoryLine.bytes);
+      }
+      // Anything else is output from a running program
+    }
+  };
+
+  const sendBlock = async (address: number, bytes: number[]) => {
+    replies.clear();
+    await transport.send(encodeCommand({ type: "deposit", address, bytes }));
+    await finishCommand();
+    if (!verify) {
+      return;
+    }
+    replies.clear();
+    await transport.send(encodeCommand({ type: "read", address, length: bytes.length }));
+    const readBack = await finishCommand();
+    const mismatch = bytes.findIndex((byte, i) => readBack[i] !== byte);
+    if (mismatch !== -1) {
+      const actual = readBack[mismatch];
+      throw new UploadError(
+        `Verify failed at $${hex(address + mismatch, 4)}: wrote ${hex(bytes[mismatch], 2)}, read ${
+          actual === undefined ? "nothing" : hex(actual, 2)
+        }`,
+      );
+    }
+  };
+
+  try {
+    let sentBytes = 0;
+    for (const [index, chunk] of chunks.entries()) {
+      let lastError: unknown = null;
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        if (signal?.aborted) {
+          throw new UploadError("Upload cancelled");
+        }
+        if (attempt > 0) {
+          report.retries++;
+        }
+        try {
+          await sendBlock(chunk.address, chunk.bytes);
+          lastError = null;
+          break;
+        } catch (error) {
+          // Only a wrong read-back or an error reply is worth another try
+          if (signal?.aborted || error instanceof ReplyTimeoutError) {
+            throw error;
+          }
+          lastError = error;
+        }
+      }
+      if (lastError) {
+        report.failed.push({
+          address: chunk.address,
+          length: chunk.bytes.length,
+          reason: lastError instanceof Error ? lastError.message : String(lastError),
+        });
+      }
+      sentBytes += chunk.bytes.length;
+      onProgress?.({ sentBytes, totalBytes, block: index + 1, blockCount: chunks.length });
+    }
+  } finally {
+    replies.close();
+    report.durationMs = performance.now() - started;
+  }
+  return report;
+}
+
+export function formatUploadReport(report: UploadReport): string {
+  const seconds = (report.durationMs / 1000).toFixed(1);
+  const lines = [
+    `${report.totalBytes} bytes in ${report.blockCount} blocks, ${seconds} s, ` +
+      `${report.retries} ${report.retries === 1 ? "retry" : "retries"}`,
+  ];
+  if (report.failed.length === 0) {
+    lines.push(report.verified ? "All blocks verified." : "Not verified.");
+  } else {
+    lines.push(`${report.failed.length} block(s) failed:`);
+    for (const block of report.failed) {
+      lines.push(`  $${hex(block.address, 4)} (${block.length} bytes): ${block.reason}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,198 @@
+import { Emulator } from "./emulator";
+import type { PeripheralBus } from "./peripherals";
+import {
+  BREAK_REPLY,
+  ERROR_REPLY_PREFIX,
+  MEMORY_LINE_WIDTH,
+  OK_REPLY,
+  ProtocolError,
+  formatMemoryLine,
+  formatState,
+  isImmediateCommand,
+  isLineCommand,
+  parseCommand,
+  type DebugCommand,
+} from "./debug-protocol";
+import {
+  Listeners,
+  toBytes,
+  type CloseListener,
+  type DataListener,
+  type Transport,
+} from "./transport";
+
+// A simulated board: answers the debug protocol from `debug-protocol.ts`
+// and runs programs on the in-browser emulator. Bytes that do not start a
+// command are passed to the program's serial input, as on the real board.
+export class VirtualDevice implements Transport {
+  readonly label = "Virtual device (in-browser 6502)";
+  readonly emulator: Emulator;
+
+  private logging = false;
+  // Characters of a newline-terminated command received so far
+  private pendingLine: string | null = null;
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+  private readonly dataListeners = new Listeners<Parameters<DataListener>>();
+  private readonly closeListeners = new Listeners<Parameters<CloseListener>>();
+
+  constructor(peripherals?: PeripheralBus) {
+    this.emulator = new Emulator({
+      peripherals,
+      onSerialOutput: (data) => this.dataListeners.emit(data),
+      onStop: (reason) => {
+        if (reason) {
+          this.reply(ERROR_REPLY_PREFIX + reason);
+        }
+      },
+      onStep: () => {
+        if (this.logging) {
+          this.reply(formatState(this.state()));
+        }
+      },
+      onBreakpoint: () => {
+        this.reply(BREAK_REPLY);
+        this.reply(formatState(this.state()));
+      },
+    });
+  }
+
+  async open() {
+    this.emulator.reset();
+  }
+
+  async close() {
+    this.emulator.stop();
+  }
+
+  async send(data: string | Uint8Array) {
+    for (const char of this.decoder.decode(toBytes(data))) {
+      this.receive(char);
+    }
+  }
+
+  onData(listener: DataListener) {
+    return this.dataListeners.add(listener);
+  }
+
+  onClose(listener: CloseListener) {
+    return this.closeListeners.add(listener);
+  }
+
+  // Equivalent of pressing the reset button on the board
+  reset() {
+    this.emulator.reset();
+  }
+
+  private receive(char: string) {
+    if (this.pendingLine !== null) {
+      if (char === "\n") {
+        const line = this.pendingLine;
+        this.pendingLine = null;
+        this.execute(line);
+      } else if (char !== "\r") {
+        this.pendingLine += char;
+      }
+    } else if (isImmediateCommand(char)) {
+      this.execute(char);
+    } else if (isLineCommand(char)) {
+      this.pendingLine = char;
+    } else {
+      this.emulator.sendSerialInput(char);
+    }
+  }
+
+  private execute(line: string) {
+    let command: DebugCommand;
+    try {
+      command = parseCommand(line);
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        this.reply(ERROR_REPLY_PREFIX + error.message);
+        return;
+      }
+      throw error;
+    }
+
+    const emulator = this.emulator;
+    switch (command.type) {
+      case "step":
+        if (emulator.isRunning) {
+          emulator.stop();
+        } else {
+          try {
+            emulator.step();
+          } catch (error) {
+            this.reply(ERROR_REPLY_PREFIX + (error instanceof Error ? error.message : error));
+            return;
+          }
+        }
+        this.reply(formatState(this.state()));
+        break;
+      case "stepBack":
+        emulator.stop();
+        if (!emulator.stepBack()) {
+          this.reply(ERROR_REPLY_PREFIX + "No earlier instruction in the trace");
+          return;
+        }
+        this.reply(formatState(this.state()));
+        break;
+      case "continue":
+        emulator.start();
+        break;
+      case "toggleLogging":
+        this.logging = !this.logging;
+        this.reply(`Logging ${this.logging ? "on" : "off"}`);
+        break;
+      case "frequency":
+        emulator.clockHz = command.hz;
+        this.reply(OK_REPLY);
+        break;
+      case "deposit":
+        emulator.load(command.bytes, command.address);
+        // A stopped CPU is moved to the start of the freshly loaded program
+        if (!emulator.isRunning) {
+          emulator.reset();
+        }
+        this.reply(OK_REPLY);
+        break;
+      case "read":
+        for (let offset = 0; offset < command.length; offset += MEMORY_LINE_WIDTH) {
+          const address = (command.address + offset) & 0xffff;
+          const count = Math.min(MEMORY_LINE_WIDTH, command.length - offset);
+          const bytes = Array.from({ length: count }, (_, i) => emulator.memory[(address + i) & 0xffff]);
+          this.reply(formatMemoryLine(address, bytes));
+        }
+        this.reply(OK_REPLY);
+        break;
+      case "resetRam":
+        emulator.stop();
+        emulator.clearMemory();
+        this.reply(OK_REPLY);
+        break;
+      case "breakpoints":
+        emulator.breakpoints.clear();
+        command.addresses.forEach((address) => emulator.breakpoints.add(address));
+        this.reply(OK_REPLY);
+        break;
+    }
+  }
+
+  private state() {
+    const cpu = this.emulator.cpu;
+    return {
+      pc: cpu.pc,
+      opcode: this.emulator.memory[cpu.pc],
+      a: cpu.a,
+      x: cpu.x,
+      y: cpu.y,
+      sp: cpu.sp,
+      p: cpu.p,
+      cycles: cpu.cycles,
+    };
+  }
+
+  private reply(line: string) {
+    this.dataListeners.emit(this.encoder.encode(line + "\r\n"));
+  }
+}
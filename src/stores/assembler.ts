@@ -1,48 +1,112 @@
 import { defineStore } from "pinia";
-import { assemble } from "../libs/asm6502.js"; // Import the assemble function directly
+import {
+  assemble,
+  type Diagnostic,
+  type MemoryBlock,
+  type SegmentInfo,
+  type SourceMapEntry,
+} from "../libs/asm6502.js"; // Import the assemble function directly
+import { formatListing } from "../libs/listing";
+import { lineHints, type LineHint } from "../libs/cycles";
+import type { LiveAssembly } from "../libs/live-assembler";
+import { assemblerFiles } from "../libs/project-bundle";
+import { copyMemoryMap, formatMemoryUsage, memoryUsage } from "../libs/memory-map";
+import { useProjectStore } from "./project";
 
 interface AssemblerState {
-  code: string;
   output: string;
   hexBytes: number[];
   startAddress: number; // Add this
+  diagnostics: Diagnostic[];
+  sourceMap: SourceMapEntry[];
+  blocks: MemoryBlock[];
+  segments: SegmentInfo[];
+  labels: Record<string, number>;
+  symbols: Record<string, number>;
+  localLabels: Record<string, Record<string, number>>;
+  listing: string;
+  // Address, size and cycles per source line, kept current while editing
+  lineHints: LineHint[];
 }
 
-export const useAssemblerStore = defineStore("assembler", {
-  state: (): AssemblerState => ({
-    code: `; Hello World program for 6502
-    
-.org $8000          ; program starting address
-
-ser_out_addr = $fff1    ; serial output address
-
-reset:
-ldx #$0             ; initialize character counter
-lda test_str,x      ; load the first character (x=0)
+// The entry file and everything the assembler needs to go with it
+export function assemblerInput(project = useProjectStore()) {
+  return {
+    code: project.entry?.content ?? "",
+    options: {
+      fileName: project.entryFile,
+      files: assemblerFiles(project.files),
+      cpu: project.cpu,
+      // A plain copy, as the live assembler posts it to its worker
+      memoryMap: copyMemoryMap(project.memoryMap),
+    },
+  };
+}
 
-main:               ; iterate through the string
-sta ser_out_addr    ; print the character just loaded
-inx                 ; increase x by 1
-lda test_str,x      ; load the next character
-beq reset           ; if character == /0, jump to reset
-jmp main            ; else jump to main
+export const formatDiagnostic = (d: Diagnostic) =>
+  `${d.file}: Line ${d.startLine}:${d.startColumn} ${d.severity}: ${d.message}`;
 
-test_str: 
-    .byte "Hello world!", $0d, $0a, $0  ; "Hello world!/r/n/0"
-`,
+export const useAssemblerStore = defineStore("assembler", {
+  state: (): AssemblerState => ({
     output: "Ready to assemble.",
     hexBytes: [],
     startAddress: 0x8000, // Default start address
+    diagnostics: [],
+    sourceMap: [],
+    blocks: [],
+    segments: [],
+    labels: {},
+    symbols: {},
+    localLabels: {},
+    listing: "",
+    lineHints: [],
   }),
   actions: {
+    // Results of the background assembly: only what the editor shows, so
+    // that the program to upload changes only on "Assemble"
+    applyLiveAssembly({ result, hints }: LiveAssembly) {
+      this.diagnostics = result.diagnostics;
+      this.lineHints = hints;
+    },
     assembleCode() {
+      const project = useProjectStore();
       try {
+        const { code, options } = assemblerInput(project);
         // Parse .org directive if present
-        const orgMatch = this.code.match(/\.org\s+\$([0-9A-Fa-f]{1,4})/);
+        const orgMatch = code.match(/\.org\s+\$([0-9A-Fa-f]{1,4})/);
         this.startAddress = orgMatch ? parseInt(orgMatch[1], 16) : 0x8000;
 
-        const result = assemble(this.code);
-        this.hexBytes = result.bytecode; // Use bytecode property from result
+        const result = assemble(code, options);
+        this.diagnostics = result.diagnostics;
+        this.sourceMap = result.sourceMap;
+        this.blocks = result.blocks;
+        this.segments = result.segments;
+        this.labels = result.labels;
+        this.symbols = result.symbols;
+        this.localLabels = result.localLabels;
+        this.lineHints = lineHints(
+          Object.fromEntries(
+            project.files.filter((file) => !file.binary).map((file) => [file.name, file.content]),
+          ),
+          result.sourceMap,
+          project.cpu,
+        );
+        this.listing = formatListing(
+          code,
+          result.sourceMap.filter((entry) => entry.file === project.entryFile),
+          result.labels,
+        );
+
+        const errors = result.diagnostics.filter((d) => d.severity === "error");
+        if (errors.length > 0) {
+          this.hexBytes = [];
+          this.output =
+            `Assembly failed with ${errors.length} error(s):\n` +
+            result.diagnostics.map(formatDiagnostic).join("\n");
+          return;
+        }
+
+        this.hexBytes = result.bytecode as number[]; // Use bytecode property from result
         console.log(this.hexBytes)
         this.hexBytes.forEach((byte, index) => { console.log(`Index: ${index}, Byte: ${byte}`); });
         const hexString = this.hexBytes
@@ -54,6 +118,13 @@ test_str:
           .padStart(4, "0")}\nBytes: ${this.hexBytes.length
           }\n\nHex Output:\n${hexString}`;
 
+        this.output +=
+          "\n\nMemory usage:\n" + formatMemoryUsage(memoryUsage(project.memoryMap, result));
+
+        if (result.diagnostics.length > 0) {
+          this.output += "\n\nWarnings:\n" + result.diagnostics.map(formatDiagnostic).join("\n");
+        }
+
         if (result.labels) {
           this.output += "\n\nLabels:";
           for (const [label, address] of Object.entries(result.labels)) {
@@ -67,6 +138,14 @@ test_str:
         console.log("Compiled Bytes:", this.hexBytes);
       } catch (e) {
         this.hexBytes = [];
+        this.diagnostics = [];
+        this.sourceMap = [];
+        this.blocks = [];
+        this.segments = [];
+        this.labels = {};
+        this.localLabels = {};
+        this.listing = "";
+        this.lineHints = [];
         if (e instanceof Error) {
           this.output = `Assembly Error: ${e.message}`;
         } else {
@@ -75,11 +154,5 @@ test_str:
         console.error("Assembly failed:", e);
       }
     },
-    setCode(newCode: string) {
-      this.code = newCode;
-    },
-  },
-  persist: {
-    paths: ["code"],
   },
 });
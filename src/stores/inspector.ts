@@ -0,0 +1,55 @@
+import { defineStore } from "pinia";
+import type { CpuState, DeviceReply, MemoryLine } from "../libs/debug-protocol";
+
+interface InspectorState {
+  cpu: CpuState | null;
+  // The state before the last step, to show which registers changed
+  previousCpu: CpuState | null;
+  // Bytes seen in memory dumps, by address
+  memory: Record<number, number>;
+  // Addresses whose value differed in the latest dump
+  changed: Record<number, true>;
+  // True while the lines of one read are arriving
+  inDump: boolean;
+}
+
+export const useInspectorStore = defineStore("inspector", {
+  state: (): InspectorState => ({
+    cpu: null,
+    previousCpu: null,
+    memory: {},
+    changed: {},
+    inDump: false,
+  }),
+  actions: {
+    handleReply(reply: DeviceReply) {
+      if (reply.type === "memory") {
+        this.applyMemoryLine(reply.line);
+        return;
+      }
+      this.inDump = false;
+      if (reply.type === "state") {
+        this.previousCpu = this.cpu;
+        this.cpu = reply.state;
+      }
+    },
+    applyMemoryLine(line: MemoryLine) {
+      // A new read replaces the previous highlight
+      if (!this.inDump) {
+        this.changed = {};
+        this.inDump = true;
+      }
+      line.bytes.forEach((byte, index) => {
+        const address = (line.address + index) & 0xffff;
+        const previous = this.memory[address];
+        if (previous !== undefined && previous !== byte) {
+          this.changed[address] = true;
+        }
+        this.memory[address] = byte;
+      });
+    },
+    clear() {
+      this.$reset();
+    },
+  },
+});
@@ -0,0 +1,206 @@
+import { defineStore } from "pinia";
+import {
+  validateFileName,
+  type Project,
+  type ProjectFile,
+} from "../libs/project-bundle";
+import { DEFAULT_CPU, type CpuType } from "../libs/opcodes.js";
+import { peripheralsError, type PeripheralConfig } from "../libs/peripherals";
+import {
+  DEFAULT_MEMORY_MAP,
+  copyMemoryMap,
+  memoryMapError,
+  sameMemoryMap,
+  type MemoryMap,
+} from "../libs/memory-map";
+
+interface ProjectState {
+  files: ProjectFile[];
+  // The file that is assembled; the others are reached through .include
+  entryFile: string;
+  // The file open in the editor
+  activeFile: string;
+  // Instruction set the assembler starts with; `.cpu` can switch it
+  cpu: CpuType;
+  // Virtual devices mapped into the emulator's memory
+  peripherals: PeripheralConfig[];
+  // Regions of memory that `.segment`s are placed in
+  memoryMap: MemoryMap;
+}
+
+const DEFAULT_PROGRAM = `; Hello World program for 6502
+
+.org $8000          ; program starting address
+
+ser_out_addr = $fff1    ; serial output address
+
+reset:
+ldx #$0             ; initialize character counter
+lda test_str,x      ; load the first character (x=0)
+
+main:               ; iterate through the string
+sta ser_out_addr    ; print the character just loaded
+inx                 ; increase x by 1
+lda test_str,x      ; load the next character
+beq reset           ; if character == /0, jump to reset
+jmp main            ; else jump to main
+
+test_str:
+    .byte "Hello world!", $0d, $0a, $0  ; "Hello world!/r/n/0"
+`;
+
+// Before projects, the assembler store persisted a single `code` string
+function savedSingleFileCode(): string | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem("assembler") ?? "null");
+    return typeof saved?.code === "string" ? saved.code : null;
+  } catch {
+    return null;
+  }
+}
+
+export const useProjectStore = defineStore("project", {
+  state: (): ProjectState => ({
+    files: [{ name: "main.s", content: savedSingleFileCode() ?? DEFAULT_PROGRAM }],
+    entryFile: "main.s",
+    activeFile: "main.s",
+    cpu: DEFAULT_CPU,
+    peripherals: [],
+    memoryMap: copyMemoryMap(DEFAULT_MEMORY_MAP),
+  }),
+  getters: {
+    fileNames: (state) => state.files.map((file) => file.name),
+    entry: (state) => state.files.find((file) => file.name === state.entryFile),
+  },
+  actions: {
+    getFile(name: string) {
+      return this.files.find((file) => file.name === name);
+    },
+    setContent(name: string, content: string) {
+      const file = this.getFile(name);
+      if (file && !file.binary) {
+        file.content = content;
+      }
+    },
+    // Each of these throws with a message for the user if the name is bad
+    createFile(name: string, content = "") {
+      const error = validateFileName(name, this.fileNames);
+      if (error) {
+        throw new Error(error);
+      }
+      this.files.push({ name, content });
+      this.activeFile = name;
+    },
+    addFile(file: ProjectFile) {
+      const error = validateFileName(file.name, this.fileNames);
+      if (error) {
+        throw new Error(error);
+      }
+      this.files.push(file);
+    },
+    renameFile(oldName: string, newName: string) {
+      const file = this.getFile(oldName);
+      const error = validateFileName(
+        newName,
+        this.fileNames.filter((name) => name !== oldName),
+      );
+      if (!file || error) {
+        throw new Error(error ?? `No such file: ${oldName}`);
+      }
+      file.name = newName;
+      if (this.entryFile === oldName) {
+        this.entryFile = newName;
+      }
+      if (this.activeFile === oldName) {
+        this.activeFile = newName;
+      }
+    },
+    deleteFile(name: string) {
+      if (name === this.entryFile) {
+        throw new Error("The entry file cannot be deleted");
+      }
+      this.files = this.files.filter((file) => file.name !== name);
+      if (this.activeFile === name) {
+        this.activeFile = this.entryFile;
+      }
+    },
+    toggleBreakpoint(name: string, line: number) {
+      const file = this.getFile(name);
+      if (!file || file.binary) return;
+      const lines = file.breakpoints ?? [];
+      this.setBreakpoints(
+        name,
+        lines.includes(line) ? lines.filter((l) => l !== line) : [...lines, line],
+      );
+    },
+    // Also used by the editor when edits move the marked lines
+    setBreakpoints(name: string, lines: number[]) {
+      const file = this.getFile(name);
+      if (!file || file.binary) return;
+      const sorted = [...new Set(lines)].sort((a, b) => a - b);
+      if (sorted.join() === (file.breakpoints ?? []).join()) return;
+      if (sorted.length > 0) {
+        file.breakpoints = sorted;
+      } else {
+        delete file.breakpoints;
+      }
+    },
+    setEntryFile(name: string) {
+      const file = this.getFile(name);
+      if (!file || file.binary) {
+        throw new Error(`${name} cannot be assembled`);
+      }
+      this.entryFile = name;
+    },
+    setActiveFile(name: string) {
+      if (this.getFile(name)) {
+        this.activeFile = name;
+      }
+    },
+    addPeripheral(config: PeripheralConfig) {
+      const peripherals = [...this.peripherals, config];
+      const error = peripheralsError(peripherals);
+      if (error) {
+        throw new Error(error);
+      }
+      this.peripherals = peripherals;
+    },
+    removePeripheral(index: number) {
+      this.peripherals = this.peripherals.filter((_, i) => i !== index);
+    },
+    setMemoryMap(memoryMap: MemoryMap) {
+      const error = memoryMapError(memoryMap);
+      if (error) {
+        throw new Error(error);
+      }
+      this.memoryMap = copyMemoryMap(memoryMap);
+    },
+    loadProject(project: Project) {
+      this.files = project.files.map((file) => ({ ...file }));
+      this.entryFile = project.entryFile;
+      this.activeFile = project.entryFile;
+      this.cpu = project.cpu ?? DEFAULT_CPU;
+      this.peripherals = (project.peripherals ?? []).map((config) => ({ ...config }));
+      this.memoryMap = copyMemoryMap(project.memoryMap ?? DEFAULT_MEMORY_MAP);
+    },
+    toProject(): Project {
+      const project: Project = {
+        entryFile: this.entryFile,
+        files: this.files.map((file) => ({ ...file })),
+      };
+      if (this.cpu !== DEFAULT_CPU) {
+        project.cpu = this.cpu;
+      }
+      if (this.peripherals.length > 0) {
+        project.peripherals = this.peripherals.map((config) => ({ ...config }));
+      }
+      if (!sameMemoryMap(this.memoryMap, DEFAULT_MEMORY_MAP)) {
+        project.memoryMap = copyMemoryMap(this.memoryMap);
+      }
+      return project;
+    },
+  },
+  persist: {
+    pick: ["files", "entryFile", "activeFile", "cpu", "peripherals", "memoryMap"],
+  },
+});
@@ -1,21 +1,48 @@
 import { defineStore } from 'pinia';
+import {
+    DEFAULT_SERIAL_SETTINGS,
+    type PortIdentity,
+    type SerialProfile,
+    type SerialSettings,
+} from '../libs/serial-settings';
 
 interface SerialState {
     isConnected: boolean;
     portInfo: string | null;
+    // Connected to the emulator rather than a board
+    isEmulator: boolean;
     lastError: string | null;
+    // Line settings for the next connection to a board
+    settings: SerialSettings;
+    profiles: SerialProfile[];
+    // The profile the settings were loaded from, if any
+    activeProfile: string | null;
+    // The adapter of the last board connection, reopened without the picker
+    lastPort: PortIdentity | null;
+    // Reconnect when that adapter is plugged in again after being unplugged
+    autoReconnect: boolean;
+    // The expect/send script of the terminal's script panel
+    script: string;
 }
 
 export const useSerialStore = defineStore('serial', {
     state: (): SerialState => ({
         isConnected: false,
         portInfo: null,
+        isEmulator: false,
         lastError: null,
+        settings: { ...DEFAULT_SERIAL_SETTINGS },
+        profiles: [],
+        activeProfile: null,
+        lastPort: null,
+        autoReconnect: true,
+        script: '# Wait for a prompt, then answer it\nexpect READY>\nsendline RUN\n',
     }),
     actions: {
-        setConnected(status: boolean, portDetails: string | null = null) {
+        setConnected(status: boolean, portDetails: string | null = null, emulator = false) {
             this.isConnected = status;
             this.portInfo = status ? portDetails : null;
+            this.isEmulator = status && emulator;
             if (!status) {
                 // Optionally clear error when disconnecting successfully
                 // this.lastError = null;
@@ -29,6 +56,44 @@ export const useSerialStore = defineStore('serial', {
                 this.portInfo = null;
             }
         },
+        // Remembers the adapter, also in the active profile
+        setLastPort(port: PortIdentity) {
+            this.lastPort = { ...port };
+            const profile = this.profiles.find((p) => p.name === this.activeProfile);
+            if (profile) {
+                profile.port = { ...port };
+            }
+        },
+        // Saves the current settings under a name, replacing a profile of that name
+        saveProfile(name: string) {
+            const profile: SerialProfile = { name, settings: { ...this.settings } };
+            if (this.lastPort) {
+                profile.port = { ...this.lastPort };
+            }
+            const index = this.profiles.findIndex((p) => p.name === name);
+            if (index >= 0) {
+                this.profiles[index] = profile;
+            } else {
+                this.profiles.push(profile);
+            }
+            this.activeProfile = name;
+        },
+        loadProfile(name: string) {
+            const profile = this.profiles.find((p) => p.name === name);
+            if (!profile) return;
+            this.settings = { ...profile.settings };
+            this.lastPort = profile.port ? { ...profile.port } : null;
+            this.activeProfile = name;
+        },
+        deleteProfile(name: string) {
+            this.profiles = this.profiles.filter((p) => p.name !== name);
+            if (this.activeProfile === name) {
+                this.activeProfile = null;
+            }
+        },
+    },
+    // The connection itself does not survive a reload; only the settings do
+    persist: {
+        pick: ['settings', 'profiles', 'activeProfile', 'lastPort', 'autoReconnect', 'script'],
     },
-    // No persistence needed for serial connection state generally
-});
\ No newline at end of file
+});
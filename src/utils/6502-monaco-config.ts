@@ -1,4 +1,6 @@
 import type * as Monaco from "monaco-editor";
+import { CPU_TYPES, DEFAULT_CPU, type CpuType } from "../libs/opcodes.js";
+import { ROUTINE_SNIPPETS } from "./6502-snippets";
 
 // --- Data for Instructions (Descriptions, Addressing Modes) ---
 // Source: Based on common 6502 documentation (e.g., http://www.obelisk.me.uk/6502/reference.html)
@@ -60,8 +62,72 @@ const instructionSet = {
     TXA: { desc: "Transfer X to A", modes: "Implied" },
     TXS: { desc: "Transfer X to Stack Pointer", modes: "Implied" },
     TYA: { desc: "Transfer Y to A", modes: "Implied" },
-    // Add common illegal/undocumented opcodes if desired (e.g., LAX, SAX, DCP, ISB, SLO, RLA, SRE, RRA)
-    // LAX: { desc: "Load A and X (Illegal)", modes: "..." },
+};
+
+type InstructionInfo = { desc: string; modes: string };
+
+const withModes = (name: keyof typeof instructionSet, extra: string): InstructionInfo => ({
+    desc: instructionSet[name].desc,
+    modes: `${instructionSet[name].modes}, ${extra}`,
+});
+
+// One entry per bit, e.g. RMB0-RMB7
+const perBit = (prefix: string, desc: string, modes: string) =>
+    Object.fromEntries([0, 1, 2, 3, 4, 5, 6, 7].map(bit => [prefix + bit, { desc: `${desc} ${bit}`, modes }]));
+
+// WDC 65C02: new instructions and the extra modes of existing ones
+const instructions65C02: Record<string, InstructionInfo> = {
+    ADC: withModes("ADC", "(Zero Page)"),
+    AND: withModes("AND", "(Zero Page)"),
+    CMP: withModes("CMP", "(Zero Page)"),
+    EOR: withModes("EOR", "(Zero Page)"),
+    LDA: withModes("LDA", "(Zero Page)"),
+    ORA: withModes("ORA", "(Zero Page)"),
+    SBC: withModes("SBC", "(Zero Page)"),
+    STA: withModes("STA", "(Zero Page)"),
+    BIT: withModes("BIT", "Immediate, Zero Page,X, Absolute,X"),
+    DEC: withModes("DEC", "Accumulator"),
+    INC: withModes("INC", "Accumulator"),
+    JMP: withModes("JMP", "(Absolute,X)"),
+    BRA: { desc: "Branch Always", modes: "Relative" },
+    PHX: { desc: "Push X Register", modes: "Implied" },
+    PHY: { desc: "Push Y Register", modes: "Implied" },
+    PLX: { desc: "Pull X Register", modes: "Implied" },
+    PLY: { desc: "Pull Y Register", modes: "Implied" },
+    STZ: { desc: "Store Zero", modes: "Zero Page, Zero Page,X, Absolute, Absolute,X" },
+    TRB: { desc: "Test and Reset Bits", modes: "Zero Page, Absolute" },
+    TSB: { desc: "Test and Set Bits", modes: "Zero Page, Absolute" },
+    WAI: { desc: "Wait for Interrupt", modes: "Implied" },
+    STP: { desc: "Stop the Processor", modes: "Implied" },
+    ...perBit("RMB", "Reset Memory Bit", "Zero Page"),
+    ...perBit("SMB", "Set Memory Bit", "Zero Page"),
+    ...perBit("BBR", "Branch on Bit Reset", "Zero Page, Relative"),
+    ...perBit("BBS", "Branch on Bit Set", "Zero Page, Relative"),
+};
+
+// Stable undocumented opcodes of the NMOS 6502
+const rmwModes = "Zero Page, Zero Page,X, Absolute, Absolute,X, Absolute,Y, (Indirect,X), (Indirect),Y";
+const illegalInstructions: Record<string, InstructionInfo> = {
+    SLO: { desc: "ASL then ORA (Illegal)", modes: rmwModes },
+    RLA: { desc: "ROL then AND (Illegal)", modes: rmwModes },
+    SRE: { desc: "LSR then EOR (Illegal)", modes: rmwModes },
+    RRA: { desc: "ROR then ADC (Illegal)", modes: rmwModes },
+    SAX: { desc: "Store A AND X (Illegal)", modes: "Zero Page, Zero Page,Y, Absolute, (Indirect,X)" },
+    LAX: { desc: "Load A and X (Illegal)", modes: "Zero Page, Zero Page,Y, Absolute, Absolute,Y, (Indirect,X), (Indirect),Y" },
+    DCP: { desc: "DEC then CMP (Illegal)", modes: rmwModes },
+    ISC: { desc: "INC then SBC (Illegal)", modes: rmwModes },
+    ANC: { desc: "AND, then copy N to C (Illegal)", modes: "Immediate" },
+    ALR: { desc: "AND then LSR (Illegal)", modes: "Immediate" },
+    ARR: { desc: "AND then ROR (Illegal)", modes: "Immediate" },
+    SBX: { desc: "X = (A AND X) - operand (Illegal)", modes: "Immediate" },
+    NOP: withModes("NOP", "Immediate, Zero Page, Zero Page,X, Absolute, Absolute,X"),
+};
+
+// What completion, hover and highlighting offer for each CPU
+const instructionSets: Record<CpuType, Record<string, InstructionInfo>> = {
+    "6502": instructionSet,
+    "65c02": { ...instructionSet, ...instructions65C02 },
+    "6502x": { ...instructionSet, ...illegalInstructions },
 };
 
 const directives = {
@@ -84,45 +150,71 @@ const directives = {
     IF: { desc: "Conditional Assembly", snippet: ".IF ${1:condition}\n\t${2:code}\n.ENDIF" },
     IFDEF: { desc: "Conditional Assembly (if defined)", snippet: ".IFDEF ${1:symbol}\n\t${2:code}\n.ENDIF" },
     IFNDEF: { desc: "Conditional Assembly (if not defined)", snippet: ".IFNDEF ${1:symbol}\n\t${2:code}\n.ENDIF" },
+    ELSEIF: { desc: "Else-If for Conditional Assembly", snippet: ".ELSEIF ${1:condition}" },
     ELSE: { desc: "Else for Conditional Assembly", snippet: ".ELSE" },
     ENDIF: { desc: "End Conditional Assembly", snippet: ".ENDIF" },
     DEFINE: { desc: "Define Symbol (for IFDEF)", snippet: ".DEFINE ${1:symbol}" }, // Common alternative
     SET: { desc: "Assign Value (like =, often re-assignable)", snippet: ".SET ${1:symbol} = ${2:value}" }, // Common alternative
+    REPT: { desc: "Repeat a Block", snippet: ".REPT ${1:count}\n\t${2:code}\n.ENDR" },
+    ENDR: { desc: "End Repeat Block", snippet: ".ENDR" },
     ALIGN: { desc: "Align Program Counter", snippet: ".ALIGN ${1:boundary}" },
     FILL: { desc: "Fill Memory with Value", snippet: ".FILL ${1:count}, ${2:value}" },
-    // Add more as needed, e.g., .PROC, .ENDPROC, .SCOPE, .ENDSCOPE, .SEGMENT, .FEATURE
+    CPU: { desc: `Select the Instruction Set (${Object.keys(CPU_TYPES).join(", ")})`, snippet: ".CPU ${1:65c02}" },
+    SEGMENT: { desc: "Continue in a Segment Placed by the Memory Map", snippet: '.SEGMENT "${1:CODE}"' },
+    // Add more as needed, e.g., .PROC, .ENDPROC, .SCOPE, .ENDSCOPE, .FEATURE
 };
 
 const registers = ["A", "X", "Y"];
 
-export function configure6502Language(monaco: typeof Monaco) {
-    const languageId = "6502asm";
+const languageId = "6502asm";
+const cpuTypes = Object.keys(CPU_TYPES) as CpuType[];
 
-    monaco.languages.register({ id: languageId });
+// The project's CPU, used until a `.cpu` line says otherwise
+let projectCpu: CpuType = DEFAULT_CPU;
 
-    // --- Monarch Tokenizer ---
-    monaco.languages.setMonarchTokensProvider(languageId, {
+// The CPU in effect at a line: the last `.cpu` above it, else the project's
+function cpuAt(model: Monaco.editor.ITextModel, lineNumber: number): CpuType {
+    for (let line = lineNumber; line >= 1; line--) {
+        const match = model.getLineContent(line).match(/^\s*\.cpu\s+(\w+)/i);
+        if (match && cpuTypes.includes(match[1].toLowerCase() as CpuType)) {
+            return match[1].toLowerCase() as CpuType;
+        }
+    }
+    return projectCpu;
+}
+
+// One root state per CPU; a `.cpu` line switches to that CPU's state for
+// the lines that follow it.
+function tokensProvider(cpu: CpuType): Monaco.languages.IMonarchLanguage {
+    const rootStates = Object.fromEntries(cpuTypes.map(type => [`root_${type}`, [
+        ...cpuTypes.map(target => [new RegExp(`\\.cpu\\s+${target}\\b`), { token: 'keyword.directive', switchTo: `@root_${target}` }]),
+        // Identifiers and Keywords
+        [/[a-z_]\w*/, {
+            cases: {
+                [`@instructions_${type}`]: 'keyword.instruction',
+                '@registers': 'variable.register',
+                '@directives': 'keyword.directive',
+                '@default': 'identifier' // Could be variable, constant, or undefined label
+            }
+        }],
+        { include: '@common' },
+    ]]));
+
+    return {
         // Set defaultToken to invalid to see errors clearly
         defaultToken: 'invalid',
         ignoreCase: true,
+        start: `root_${cpu}`,
         registers: registers,
-        instructions: Object.keys(instructionSet),
+        ...Object.fromEntries(cpuTypes.map(type => [`instructions_${type}`, Object.keys(instructionSets[type])])),
         directives: Object.keys(directives).map(d => d.startsWith('.') ? '\\' + d : d), // Escape dot for regex if needed
         symbols: /[=><!~?:&|+\-*/^%]+/, // Operators
         escapes: /\\(?:[abfnrtv\\"']|x[0-9A-Fa-f]{1,4}|u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8})/,
 
         tokenizer: {
-            root: [
-                // Identifiers and Keywords
-                [/[a-z_]\w*/, {
-                    cases: {
-                        '@instructions': 'keyword.instruction',
-                        '@registers': 'variable.register',
-                        '@directives': 'keyword.directive',
-                        '@default': 'identifier' // Could be variable, constant, or undefined label
-                    }
-                }],
+            ...rootStates,
 
+            common: [
                 // Labels: identifier at the beginning of a line followed by a colon
                 [/^\s*([a-zA-Z_]\w*):/, 'identifier.label'],
 
@@ -171,7 +263,20 @@ export function configure6502Language(monaco: typeof Monaco) {
                 [/'/, 'string', '@pop']
             ],
         },
-    });
+    } as Monaco.languages.IMonarchLanguage;
+}
+
+// Follows the project's CPU setting; call again when it changes
+export function set6502Cpu(monaco: typeof Monaco, cpu: CpuType) {
+    projectCpu = cpu;
+    monaco.languages.setMonarchTokensProvider(languageId, tokensProvider(cpu));
+}
+
+export function configure6502Language(monaco: typeof Monaco, cpu: CpuType = DEFAULT_CPU) {
+    monaco.languages.register({ id: languageId });
+
+    // --- Monarch Tokenizer ---
+    set6502Cpu(monaco, cpu);
 
     // --- Completion Item Provider ---
     monaco.languages.registerCompletionItemProvider(languageId, {
@@ -186,15 +291,16 @@ export function configure6502Language(monaco: typeof Monaco) {
 
             const suggestions: Monaco.languages.CompletionItem[] = [];
 
-            // Instruction suggestions
-            for (const instr in instructionSet) {
+            // Instruction suggestions, for the CPU in effect at the cursor
+            const instructions = instructionSets[cpuAt(model, position.lineNumber)];
+            for (const instr in instructions) {
                 suggestions.push({
                     label: instr,
                     kind: monaco.languages.CompletionItemKind.Keyword,
                     insertText: instr,
                     range: range,
-                    detail: instructionSet[instr].modes,
-                    documentation: instructionSet[instr].desc,
+                    detail: instructions[instr].modes,
+                    documentation: instructions[instr].desc,
                 });
             }
 
@@ -306,7 +412,14 @@ export function configure6502Language(monaco: typeof Monaco) {
                     documentation: "Basic structure for a simple program",
                     range: range,
                 },
-                // Add more snippets: delay loop, memory copy, string print, etc.
+                ...ROUTINE_SNIPPETS.map((snippet) => ({
+                    label: snippet.label,
+                    kind: monaco.languages.CompletionItemKind.Snippet,
+                    insertText: snippet.body.join('\n'),
+                    insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+                    documentation: snippet.documentation,
+                    range: range,
+                })),
             ];
 
             // Combine all suggestions
@@ -324,8 +437,9 @@ export function configure6502Language(monaco: typeof Monaco) {
             const word = wordInfo.word.toUpperCase(); // Match case-insensitively
 
             // Check Instructions
-            if (instructionSet[word]) {
-                const instr = instructionSet[word];
+            const instructions = instructionSets[cpuAt(model, position.lineNumber)];
+            if (instructions[word]) {
+                const instr = instructions[word];
                 return {
                     range: new monaco.Range(position.lineNumber, wordInfo.startColumn, position.lineNumber, wordInfo.endColumn),
                     contents: [
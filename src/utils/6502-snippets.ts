@@ -0,0 +1,166 @@
+// Common routines offered as completion snippets. Bodies use Monaco's
+// snippet syntax: ${1:name} is a placeholder, so the $ of hex numbers is
+// escaped.
+
+export interface RoutineSnippet {
+    label: string;
+    documentation: string;
+    body: string[];
+}
+
+export const ROUTINE_SNIPPETS: RoutineSnippet[] = [
+    {
+        label: 'routine: print string',
+        documentation: 'Subroutine sending a zero-terminated string to the serial port',
+        body: [
+            '; Sends the zero-terminated string at ${2:message} (up to 255 bytes)',
+            '${1:print}:',
+            '\tldx #0',
+            '@next:',
+            '\tlda ${2:message},x',
+            '\tbeq @done',
+            '\tsta \\$fff1\t\t; serial output',
+            '\tinx',
+            '\tbne @next',
+            '@done:',
+            '\trts',
+        ],
+    },
+    {
+        label: 'routine: read character',
+        documentation: 'Subroutine waiting for a byte from the serial port',
+        body: [
+            '; Waits for a byte from the serial port and returns it in A',
+            '${1:read_char}:',
+            '\tlda \\$fff0\t\t; serial input, 0 while none has arrived',
+            '\tbeq ${1:read_char}',
+            '\trts',
+        ],
+    },
+    {
+        label: 'routine: print hex byte',
+        documentation: 'Subroutine printing A as two hexadecimal digits',
+        body: [
+            '; Prints A as two hex digits on the serial port',
+            '${1:print_hex}:',
+            '\tpha',
+            '\tlsr a',
+            '\tlsr a',
+            '\tlsr a',
+            '\tlsr a',
+            '\tjsr @digit\t\t; high nibble, then fall through for the low one',
+            '\tpla',
+            '\tand #\\$0f',
+            '@digit:',
+            '\tcmp #10',
+            '\tbcc @number',
+            '\tadc #6\t\t\t; carry set: skip to \'A\'',
+            '@number:',
+            '\tadc #\\$30\t\t; \'0\'',
+            '\tsta \\$fff1',
+            '\trts',
+        ],
+    },
+    {
+        label: 'routine: delay',
+        documentation: 'Subroutine busy-waiting a number of milliseconds at 1 MHz',
+        body: [
+            '; Waits about ${2:100} ms at 1 MHz; keeps A',
+            '${1:delay}:',
+            '\tldy #${2:100}',
+            '@outer:',
+            '\tldx #198\t\t; 198 x 5 cycles',
+            '@inner:',
+            '\tdex',
+            '\tbne @inner',
+            '\tdey',
+            '\tbne @outer',
+            '\trts',
+        ],
+    },
+    {
+        label: 'routine: 16-bit add',
+        documentation: 'Adds two little-endian words',
+        body: [
+            '\tclc\t\t\t; ${3:result} = ${1:num1} + ${2:num2}',
+            '\tlda ${1:num1}',
+            '\tadc ${2:num2}',
+            '\tsta ${3:result}',
+            '\tlda ${1:num1}+1',
+            '\tadc ${2:num2}+1',
+            '\tsta ${3:result}+1',
+        ],
+    },
+    {
+        label: 'routine: 16-bit subtract',
+        documentation: 'Subtracts two little-endian words',
+        body: [
+            '\tsec\t\t\t; ${3:result} = ${1:num1} - ${2:num2}',
+            '\tlda ${1:num1}',
+            '\tsbc ${2:num2}',
+            '\tsta ${3:result}',
+            '\tlda ${1:num1}+1',
+            '\tsbc ${2:num2}+1',
+            '\tsta ${3:result}+1',
+        ],
+    },
+    {
+        label: 'routine: 16-bit increment',
+        documentation: 'Increments a little-endian word',
+        body: [
+            '\tinc ${1:counter}',
+            '\tbne ${2:@no_carry}',
+            '\tinc ${1:counter}+1',
+            '${2:@no_carry}:',
+        ],
+    },
+    {
+        label: 'routine: memory copy',
+        documentation: 'Copies up to 255 bytes between fixed addresses',
+        body: [
+            '\tldx #0\t\t\t; copies ${3:count} bytes from ${1:source} to ${2:destination}',
+            '${4:@copy}:',
+            '\tlda ${1:source},x',
+            '\tsta ${2:destination},x',
+            '\tinx',
+            '\tcpx #${3:count}',
+            '\tbne ${4:@copy}',
+        ],
+    },
+    {
+        label: 'routine: toggle pixel',
+        documentation: 'Toggles one pixel of a framebuffer',
+        body: [
+            '\tlda ${1:\\$7000} + ${2:row} * ${3:32} + ${4:column}\t; framebuffer, one byte per pixel',
+            '\teor #${5:1}\t\t\t; colour to toggle',
+            '\tsta ${1:\\$7000} + ${2:row} * ${3:32} + ${4:column}',
+        ],
+    },
+    {
+        label: 'routine: interrupt handler',
+        documentation: 'IRQ handler saving and restoring the registers',
+        body: [
+            '${1:irq}:',
+            '\tpha',
+            '\ttxa',
+            '\tpha',
+            '\ttya',
+            '\tpha',
+            '\t${2:; acknowledge the device, then handle it}',
+            '\tpla',
+            '\ttay',
+            '\tpla',
+            '\ttax',
+            '\tpla',
+            '\trti',
+        ],
+    },
+    {
+        label: 'routine: vectors',
+        documentation: 'NMI, reset and IRQ vectors at $FFFA',
+        body: [
+            '.segment "VECTORS"',
+            '\t.word ${1:nmi}, ${2:reset}, ${3:irq}\t; NMI, RESET, IRQ',
+        ],
+    },
+];
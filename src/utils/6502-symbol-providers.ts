@@ -0,0 +1,248 @@
+import type * as Monaco from "monaco-editor";
+import type { AssemblyResult } from "../libs/asm6502.js";
+import {
+  findDefinitions,
+  findReferences,
+  indexSymbols,
+  occurrenceAt,
+  renameError,
+  symbolValue,
+  type SymbolKind,
+  type SymbolOccurrence,
+} from "../libs/symbols";
+
+// Go to definition, find references, rename, outline, label completion and
+// label hover for the 6502 language, across all files of the project.
+
+export interface SymbolWorkspace {
+  // Models of the project's source files, by file name
+  models: Map<string, Monaco.editor.ITextModel>;
+  // The last assembly, for the values shown on hover
+  assembly(): Pick<AssemblyResult, "labels" | "symbols" | "sourceMap">;
+}
+
+const LANGUAGE_ID = "6502asm";
+
+const hex = (value: number) => "$" + value.toString(16).toUpperCase().padStart(4, "0");
+
+export function registerSymbolProviders(
+  monaco: typeof Monaco,
+  workspace: SymbolWorkspace,
+): Monaco.IDisposable {
+  // Indexes are rebuilt only when a model's text has changed
+  const cache = new WeakMap<Monaco.editor.ITextModel, { version: number; occurrences: SymbolOccurrence[] }>();
+
+  const fileOf = (model: Monaco.editor.ITextModel) => {
+    for (const [name, candidate] of workspace.models) {
+      if (candidate === model) return name;
+    }
+    return undefined;
+  };
+
+  const indexOf = (name: string, model: Monaco.editor.ITextModel) => {
+    const cached = cache.get(model);
+    if (cached?.version === model.getVersionId()) {
+      return cached.occurrences;
+    }
+    const occurrences = indexSymbols(name, model.getValue());
+    cache.set(model, { version: model.getVersionId(), occurrences });
+    return occurrences;
+  };
+
+  const projectIndex = () =>
+    [...workspace.models].flatMap(([name, model]) => indexOf(name, model));
+
+  const symbolAt = (model: Monaco.editor.ITextModel, position: Monaco.Position) => {
+    const name = fileOf(model);
+    return name === undefined
+      ? undefined
+      : occurrenceAt(indexOf(name, model), position.lineNumber, position.column);
+  };
+
+  const rangeOf = (occurrence: SymbolOccurrence) =>
+    new monaco.Range(occurrence.line, occurrence.startColumn, occurrence.line, occurrence.endColumn);
+
+  const locationOf = (occurrence: SymbolOccurrence): Monaco.languages.Location | null => {
+    const model = workspace.models.get(occurrence.file);
+    return model ? { uri: model.uri, range: rangeOf(occurrence) } : null;
+  };
+
+  const locations = (occurrences: SymbolOccurrence[]) =>
+    occurrences.map(locationOf).filter((location) => location !== null);
+
+  const describe = (definition: SymbolOccurrence) => {
+    const value = symbolValue(workspace.assembly(), definition);
+    const kind = definition.definition === "symbol" ? "Symbol" : "Label";
+    if (value === undefined) {
+      return `${kind}, not in the last assembly`;
+    }
+    return definition.definition === "symbol"
+      ? `${kind} = ${hex(value)} (${value})`
+      : `${kind} at ${hex(value)}`;
+  };
+
+  const completionKinds: Record<SymbolKind, Monaco.languages.CompletionItemKind> = {
+    label: monaco.languages.CompletionItemKind.Function,
+    local: monaco.languages.CompletionItemKind.Variable,
+    symbol: monaco.languages.CompletionItemKind.Constant,
+  };
+
+  const disposables = [
+    monaco.languages.registerDefinitionProvider(LANGUAGE_ID, {
+      provideDefinition: (model, position) => {
+        const symbol = symbolAt(model, position);
+        return symbol ? locations(findDefinitions(projectIndex(), symbol)) : null;
+      },
+    }),
+
+    monaco.languages.registerReferenceProvider(LANGUAGE_ID, {
+      provideReferences: (model, position, context) => {
+        const symbol = symbolAt(model, position);
+        if (!symbol) return null;
+        return locations(
+          findReferences(projectIndex(), symbol).filter(
+            (occurrence) => context.includeDeclaration || !occurrence.definition,
+          ),
+        );
+      },
+    }),
+
+    monaco.languages.registerRenameProvider(LANGUAGE_ID, {
+      resolveRenameLocation: (model, position) => {
+        const symbol = symbolAt(model, position);
+        return symbol
+          ? { range: rangeOf(symbol), text: symbol.name }
+          : { range: new monaco.Range(1, 1, 1, 1), text: "", rejectReason: "Not a label or symbol" };
+      },
+      provideRenameEdits: (model, position, newName) => {
+        const symbol = symbolAt(model, position);
+        if (!symbol) return null;
+        const index = projectIndex();
+        const error = renameError(index, symbol, newName);
+        if (error) {
+          return { edits: [], rejectReason: error };
+        }
+        const edits: Monaco.languages.IWorkspaceTextEdit[] = [];
+        for (const occurrence of findReferences(index, symbol)) {
+          const target = workspace.models.get(occurrence.file);
+          if (target) {
+            edits.push({
+              resource: target.uri,
+              textEdit: { range: rangeOf(occurrence), text: newName },
+              versionId: target.getVersionId(),
+            });
+          }
+        }
+        return { edits };
+      },
+    }),
+
+    // Labels with their local labels inside, and symbols
+    monaco.languages.registerDocumentSymbolProvider(LANGUAGE_ID, {
+      provideDocumentSymbols: (model) => {
+        const name = fileOf(model);
+        if (name === undefined) return [];
+        const definitions = indexOf(name, model).filter((occurrence) => occurrence.definition);
+        const result: Monaco.languages.DocumentSymbol[] = [];
+        let parent: Monaco.languages.DocumentSymbol | null = null;
+        const lastLine = model.getLineCount();
+        for (const definition of definitions) {
+          const symbol: Monaco.languages.DocumentSymbol = {
+            name: definition.name,
+            detail: describe(definition),
+            kind:
+              definition.definition === "symbol"
+                ? monaco.languages.SymbolKind.Constant
+                : definition.definition === "local"
+                  ? monaco.languages.SymbolKind.Key
+                  : monaco.languages.SymbolKind.Function,
+            tags: [],
+            range: new monaco.Range(definition.line, 1, definition.line, model.getLineMaxColumn(definition.line)),
+            selectionRange: rangeOf(definition),
+            children: [],
+          };
+          if (definition.definition === "label") {
+            // A label's range runs up to the next label
+            if (parent) {
+              const end = Math.max(definition.line - 1, parent.range.startLineNumber);
+              parent.range = new monaco.Range(parent.range.startLineNumber, 1, end, model.getLineMaxColumn(end));
+            }
+            parent = symbol;
+            result.push(symbol);
+          } else if (definition.definition === "local" && parent) {
+            parent.children!.push(symbol);
+          } else {
+            result.push(symbol);
+          }
+        }
+        if (parent) {
+          parent.range = new monaco.Range(parent.range.startLineNumber, 1, lastLine, model.getLineMaxColumn(lastLine));
+        }
+        return result;
+      },
+    }),
+
+    // Defined names, offered in operands only
+    monaco.languages.registerCompletionItemProvider(LANGUAGE_ID, {
+      triggerCharacters: ["@"],
+      provideCompletionItems: (model, position) => {
+        const name = fileOf(model);
+        if (name === undefined) return { suggestions: [] };
+        const before = model
+          .getLineContent(position.lineNumber)
+          .slice(0, position.column - 1)
+          .replace(/^\s*[@\w]+:/, "");
+        if (before.includes(";") || !/\S\s+/.test(before)) {
+          return { suggestions: [] };
+        }
+        const word = model.getWordUntilPosition(position);
+        // `@` is not part of a word for Monaco, so include it in the range
+        const startColumn = before.endsWith("@" + word.word) ? word.startColumn - 1 : word.startColumn;
+        const range = new monaco.Range(position.lineNumber, startColumn, position.lineNumber, word.endColumn);
+
+        const scope =
+          indexOf(name, model)
+            .filter((occurrence) => occurrence.definition === "label" && occurrence.line <= position.lineNumber)
+            .pop()?.name ?? null;
+        const seen = new Set<string>();
+        const suggestions: Monaco.languages.CompletionItem[] = [];
+        for (const definition of projectIndex()) {
+          if (!definition.definition || seen.has(definition.name)) continue;
+          if (definition.definition === "local" && (definition.file !== name || definition.scope !== scope)) {
+            continue;
+          }
+          seen.add(definition.name);
+          suggestions.push({
+            label: definition.name,
+            kind: completionKinds[definition.definition],
+            insertText: definition.name,
+            detail: describe(definition),
+            documentation: `Defined in ${definition.file}:${definition.line}`,
+            range,
+          });
+        }
+        return { suggestions };
+      },
+    }),
+
+    monaco.languages.registerHoverProvider(LANGUAGE_ID, {
+      provideHover: (model, position) => {
+        const symbol = symbolAt(model, position);
+        if (!symbol) return null;
+        const definitions = findDefinitions(projectIndex(), symbol);
+        if (definitions.length === 0) return null;
+        return {
+          range: rangeOf(symbol),
+          contents: [
+            { value: `**${symbol.name}**` },
+            ...definitions.map((definition) => ({
+              value: `${describe(definition)}, defined in ${definition.file}:${definition.line}`,
+            })),
+          ],
+        };
+      },
+    }),
+  ];
+
+  return { dispose: () => disposables.forEach((disposable) => disposable.dispose()) };
+}
@@ -0,0 +1,13 @@
+// Saves generated content as a file through a temporary object URL
+export function downloadFile(
+  filename: string,
+  content: BlobPart,
+  type = "text/plain",
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}